@@ -1,21 +1,34 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { Home } from './pages/Home';
 import { Docs } from './pages/Docs';
-import { History } from './pages/History';
+import { History, UNDO_TIMEOUT_MS } from './pages/History';
 import { Logs } from './pages/Logs';
 import { ReportPage } from './pages/ReportPage';
-import { PageView, Language, LogEntry, SearchResult } from './types';
+import { Compare } from './pages/Compare';
+import { SharedResult } from './pages/SharedResult';
+import { RequestQueueStatus } from './components/RequestQueueStatus';
+import { PageView, Language, LogEntry, SearchResult, UsageRecord, ModelPrice } from './types';
+import { isLanguage } from './i18n';
+import { loadPersistedState, saveResult, deleteResults, saveLog, deleteLogs, saveCurrentResultId, saveLanguage, saveUsage, saveModelPrices } from './services/storageService';
+import { subscribeLogs } from './services/logBus';
+import { RingBuffer, LOG_CAPACITY } from './services/logBuffer';
+import { subscribeUsage, DEFAULT_PRICES } from './services/usage';
+import { Route, currentRoute, navigate, subscribeRoute } from './services/router';
 import { CheckCircle } from 'lucide-react';
 
 const App: React.FC = () => {
-  // Global State
-  const [currentPage, setCurrentPage] = useState<PageView>('home');
+  // Global State. The page comes from the URL hash (services/router), so back/forward and bookmarks work.
+  const [route, setRoute] = useState<Route>(currentRoute);
+  const currentPage = route.page;
   const [language, setLanguage] = useState<Language>(Language.VI);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [history, setHistory] = useState<SearchResult[]>([]);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [showUpdateToast, setShowUpdateToast] = useState(false);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [usage, setUsage] = useState<UsageRecord[]>([]);
+  const [modelPrices, setModelPrices] = useState<ModelPrice[]>(DEFAULT_PRICES);
   
   // Main Analysis Result (Lifted State)
   const [currentResult, setCurrentResult] = useState<SearchResult | null>(null);
@@ -23,13 +36,49 @@ const App: React.FC = () => {
   // Restoration State
   const [restoredItem, setRestoredItem] = useState<SearchResult | null>(null);
 
+  // Latest values for patches that land after the component re-rendered (queued requests)
+  const currentResultRef = useRef(currentResult);
+  const historyRef = useRef(history);
+  useEffect(() => {
+    currentResultRef.current = currentResult;
+  }, [currentResult]);
+  useEffect(() => {
+    historyRef.current = history;
+  }, [history]);
+
+  // Bounded: the oldest entries are evicted from memory and storage past LOG_CAPACITY
+  const logBufferRef = useRef(new RingBuffer<LogEntry>(LOG_CAPACITY));
+
+  useEffect(() => subscribeRoute(setRoute), []);
+
+  // Pages that show an analysis carry its id in the URL
+  const setCurrentPage = (page: PageView) =>
+    navigate({ page, resultId: currentResultRef.current?.id });
+
   // Helper to add logs
   const addLog = (entry: LogEntry) => {
-    setLogs(prev => [...prev, entry]);
+    const evicted = logBufferRef.current.push(entry);
+    setLogs(logBufferRef.current.toArray());
+    saveLog(entry);
+    if (evicted) deleteLogs([evicted.id]);
+  };
+
+  const addUsage = (record: UsageRecord) => {
+    setUsage(prev => [...prev, record]);
+    saveUsage(record);
   };
 
-  // Helper to add history (or update existing)
+  const updateModelPrices = (prices: ModelPrice[]) => {
+    setModelPrices(prices);
+    saveModelPrices(prices);
+  };
+
+  // Helper to add history (or update existing). Also the open analysis, when it is the one updated.
   const addToHistory = (result: SearchResult) => {
+    if (currentResultRef.current?.id === result.id && currentResultRef.current !== result) {
+      currentResultRef.current = result;
+      setCurrentResult(result);
+    }
     setHistory(prev => {
       // Avoid duplicates if updating existing result (Deep Update)
       const exists = prev.findIndex(p => p.id === result.id);
@@ -40,20 +89,81 @@ const App: React.FC = () => {
       }
       return [...prev, result];
     });
+    saveResult(result);
+  };
+
+  // Scope of the report page's queued deep dives: aborted as soon as another analysis is opened
+  const [resultSignal, setResultSignal] = useState<AbortSignal>(() => new AbortController().signal);
+  useEffect(() => {
+    const controller = new AbortController();
+    setResultSignal(controller.signal);
+    return () => controller.abort();
+  }, [currentResult?.id]);
+
+  // Analyses deleted within the undo window. Kept here rather than on the History page so leaving the page
+  // doesn't lose them; a further deletion joins the snapshot and restarts the window.
+  const [pendingUndo, setPendingUndo] = useState<SearchResult[] | null>(null);
+  useEffect(() => {
+    if (!pendingUndo) return;
+    const timer = setTimeout(() => setPendingUndo(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [pendingUndo]);
+
+  const removeFromHistory = (ids: string[]) => {
+    const removed = new Set(ids);
+    const snapshot = historyRef.current.filter(h => removed.has(h.id));
+    if (snapshot.length > 0) setPendingUndo(prev => [...(prev ?? []), ...snapshot]);
+    historyRef.current = historyRef.current.filter(h => !removed.has(h.id));
+    setHistory(prev => prev.filter(h => !removed.has(h.id)));
+    deleteResults(ids);
+    if (currentResultRef.current && removed.has(currentResultRef.current.id)) {
+      currentResultRef.current = null;
+      setCurrentResult(null);
+      setRestoredItem(null);
+    }
+  };
+
+  const undoRemove = () => {
+    pendingUndo?.forEach(addToHistory);
+    setPendingUndo(null);
+  };
+
+  // Apply a change to a stored analysis, whether or not it is still the open one
+  const patchResult = (id: string, patch: (result: SearchResult) => SearchResult) => {
+    const isCurrent = currentResultRef.current?.id === id;
+    const base = isCurrent ? currentResultRef.current : historyRef.current.find(h => h.id === id);
+    if (!base) return;
+
+    const patched = patch(base);
+    if (isCurrent) {
+      currentResultRef.current = patched;
+      setCurrentResult(patched);
+    }
+    historyRef.current = historyRef.current.map(h => h.id === id ? patched : h);
+    addToHistory(patched);
   };
 
-  // Helper to update the current result (wrapper for set state + history sync optional)
-  const updateCurrentResult = (result: SearchResult) => {
-    setCurrentResult(result);
-    addToHistory(result);
+  // Shows an analysis on the Debugger page. One that is already stored is shown in its latest version,
+  // so a snapshot taken earlier (e.g. the analysis open before a failed search) never brings back old state.
+  const showResult = (result: SearchResult | null) => {
+    const next = (result && historyRef.current.find(h => h.id === result.id)) ?? result;
+    currentResultRef.current = next;
+    setCurrentResult(next);
   };
 
+  // Opening a deep dive adds a history entry; closing it does not
+  const openItemRoute = (itemId: string | null) =>
+    navigate(
+      { page: 'home', resultId: currentResultRef.current?.id, itemId: itemId ?? undefined },
+      { replace: !itemId }
+    );
+
   // Handle restoring an item from history
   const handleRestore = (item: SearchResult) => {
     setRestoredItem(item);
     // We also set it as current result immediately
     setCurrentResult(item);
-    setCurrentPage('home');
+    navigate({ page: 'home', resultId: item.id });
     addLog({
       id: crypto.randomUUID(),
       timestamp: Date.now(),
@@ -63,10 +173,106 @@ const App: React.FC = () => {
     });
   };
 
+  // Hydrate persisted history, logs and the last open analysis
+  useEffect(() => {
+    let cancelled = false;
+
+    loadPersistedState()
+      .then(state => {
+        if (cancelled) return;
+
+        // Keep anything created before hydration finished (e.g. the init log)
+        setHistory(prev => [
+          ...state.history.filter(h => !prev.some(p => p.id === h.id)),
+          ...prev
+        ]);
+        const buffer = logBufferRef.current;
+        const current = buffer.toArray();
+        const evicted = buffer.reset([
+          ...state.logs.filter(l => !current.some(p => p.id === l.id)),
+          ...current
+        ]);
+        setLogs(buffer.toArray());
+        deleteLogs(evicted.map(l => l.id));
+        setUsage(prev => [
+          ...state.usage.filter(u => !prev.some(p => p.id === u.id)),
+          ...prev
+        ]);
+        if (state.modelPrices) setModelPrices(state.modelPrices);
+        if (isLanguage(state.language)) setLanguage(state.language);
+
+        // A deep link wins over the analysis that was open last time
+        const routedId = currentRoute().resultId;
+        const stored = state.history.find(h => h.id === routedId)
+          ?? state.history.find(h => h.id === state.currentResultId);
+        if (stored) {
+          setCurrentResult(prev => prev ?? stored);
+          setRestoredItem(prev => prev ?? stored);
+        }
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        addLog({
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          type: 'warning',
+          message: 'Persistent storage unavailable',
+          details: err.message
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // Write-through for the pointer to the open analysis and the UI language
+  useEffect(() => {
+    if (isHydrated) saveCurrentResultId(currentResult?.id ?? null);
+  }, [isHydrated, currentResult?.id]);
+
+  useEffect(() => {
+    if (isHydrated) saveLanguage(language);
+  }, [isHydrated, language]);
+
+  // Open the analysis a link points to, once history is loaded
+  useEffect(() => {
+    if (!isHydrated || !route.resultId || route.resultId === currentResultRef.current?.id) return;
+    const found = historyRef.current.find(h => h.id === route.resultId);
+    if (found) {
+      setCurrentResult(found);
+      setRestoredItem(found);
+      return;
+    }
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'warning',
+      message: 'Link target not found',
+      details: `No analysis with ID ${route.resultId} in history`
+    });
+    navigate({ page: route.page, resultId: currentResultRef.current?.id }, { replace: true });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHydrated, route]);
+
+  // Keep the URL on the open analysis when a new one replaces it (search, deletion)
+  useEffect(() => {
+    if (!isHydrated || (currentPage !== 'home' && currentPage !== 'report')) return;
+    if (route.resultId !== currentResult?.id) {
+      navigate({ page: currentPage, resultId: currentResult?.id }, { replace: true });
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHydrated, currentResult?.id]);
+
+  // Logs written by services (e.g. the request scheduler)
+  useEffect(() => subscribeLogs(addLog), []);
+  useEffect(() => subscribeUsage(addUsage), []);
+
   // Init Log & Toast
   useEffect(() => {
     addLog({
-      id: 'init',
+      id: crypto.randomUUID(),
       timestamp: Date.now(),
       type: 'system',
       message: 'App initialized v2.15.2'
@@ -89,8 +295,11 @@ const App: React.FC = () => {
             initialResult={restoredItem}
             onClearInitial={() => setRestoredItem(null)}
             currentResult={currentResult}
-            setCurrentResult={setCurrentResult}
+            showResult={showResult}
+            patchResult={patchResult}
             setPage={setCurrentPage}
+            openItemId={route.resultId === currentResult?.id ? route.itemId : undefined}
+            onItemRouteChange={openItemRoute}
           />
         );
       case 'report':
@@ -98,8 +307,9 @@ const App: React.FC = () => {
           <ReportPage
             language={language}
             currentResult={currentResult}
-            updateResult={updateCurrentResult}
-            addToHistory={addToHistory}
+            resultSignal={resultSignal}
+            patchResult={patchResult}
+            modelPrices={modelPrices}
             addLog={addLog}
           />
         );
@@ -111,10 +321,45 @@ const App: React.FC = () => {
             history={history} 
             language={language} 
             onRestore={handleRestore} 
+            onImport={(results) => results.forEach(addToHistory)}
+            onUpdate={patchResult}
+            onDelete={removeFromHistory}
+            deleted={pendingUndo}
+            onUndoDelete={undoRemove}
+            onCompare={(ids) => navigate({ page: 'compare', compareIds: ids })}
+            addLog={addLog}
+          />
+        );
+      case 'compare':
+        return (
+          <Compare
+            language={language}
+            history={history}
+            ids={route.compareIds ?? null}
+            onBack={() => setCurrentPage('history')}
+          />
+        );
+      case 'shared':
+        return (
+          <SharedResult
+            language={language}
+            payload={route.sharePayload}
+            history={history}
+            onImport={addToHistory}
+            onOpen={handleRestore}
+            addLog={addLog}
           />
         );
       case 'logs':
-        return <Logs logs={logs} language={language} />;
+        return (
+          <Logs
+            logs={logs}
+            language={language}
+            usage={usage}
+            modelPrices={modelPrices}
+            onModelPricesChange={updateModelPrices}
+          />
+        );
       default:
         return (
           <Home 
@@ -124,8 +369,11 @@ const App: React.FC = () => {
             initialResult={restoredItem}
             onClearInitial={() => setRestoredItem(null)}
             currentResult={currentResult}
-            setCurrentResult={setCurrentResult}
+            showResult={showResult}
+            patchResult={patchResult}
             setPage={setCurrentPage}
+            openItemId={route.resultId === currentResult?.id ? route.itemId : undefined}
+            onItemRouteChange={openItemRoute}
           />
         );
     }
@@ -163,6 +411,8 @@ const App: React.FC = () => {
         <div className="relative z-10 h-full">
             {renderPage()}
         </div>
+
+        <RequestQueueStatus language={language} />
       </main>
     </div>
   );
@@ -0,0 +1,177 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Language, SearchResult, LogEntry, ChatMessage, UsageRecord } from '../types';
+import { askFollowUp } from '../services/geminiService';
+import { RequestCancelledError } from '../services/requestScheduler';
+import { appendUsage } from '../services/usage';
+import { createTranslator } from '../i18n';
+import { MessageSquare, Send, Loader2, User, Bot } from 'lucide-react';
+
+interface FollowUpThreadProps {
+  language: Language;
+  result: SearchResult;
+  onPatch: (id: string, patch: (result: SearchResult) => SearchResult) => void; // Applied to the latest stored version
+  addLog: (entry: LogEntry) => void;
+  disabled?: boolean;
+}
+
+export const FollowUpThread: React.FC<FollowUpThreadProps> = ({ language, result, onPatch, addLog, disabled }) => {
+  const t = createTranslator(language);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  // The question in flight. Whatever it returns after being aborted is dropped.
+  const askRef = useRef<{ controller: AbortController; question: string } | null>(null);
+
+  const thread = result.thread || [];
+
+  const cancelAsk = (reason: string) => {
+    const run = askRef.current;
+    if (!run) return;
+    askRef.current = null;
+    run.controller.abort();
+    setIsAsking(false);
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'cancel',
+      message: 'Follow-up cancelled',
+      details: `${reason}: "${run.question}"`
+    });
+  };
+
+  // Opening another analysis (or a new search) and leaving the page abandon the pending answer
+  useEffect(() => () => cancelAsk('Left the analysis'),
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  [result.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [thread.length]);
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text || isAsking) return;
+
+    const userMessage: ChatMessage = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      content: text,
+      timestamp: Date.now()
+    };
+    // Show (and persist) the question right away; the answer is appended when it arrives.
+    // Both go onto whatever the analysis looks like by then, not onto this render's copy.
+    const resultId = result.id;
+    onPatch(resultId, latest => ({ ...latest, thread: [...(latest.thread ?? []), userMessage] }));
+    const run = { controller: new AbortController(), question: text };
+    askRef.current = run;
+    setQuestion('');
+    setIsAsking(true);
+    setError(null);
+
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'info',
+      message: `Follow-up question: ${text}`
+    });
+
+    try {
+      const records: UsageRecord[] = [];
+      const answer = await askFollowUp(result, text, language, {
+        signal: run.controller.signal,
+        usage: { resultId: result.id, records }
+      });
+      const answerMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: answer,
+        timestamp: Date.now()
+      };
+      onPatch(resultId, latest => appendUsage({ ...latest, thread: [...(latest.thread ?? []), answerMessage] }, records));
+    } catch (err: any) {
+      if (err instanceof RequestCancelledError) return;
+      setError(t('followUp.error'));
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'error',
+        message: 'Follow-up Failed',
+        details: err.message
+      });
+    } finally {
+      if (askRef.current === run) {
+        askRef.current = null;
+        setIsAsking(false);
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4 no-print">
+      <h3 className="text-xl font-bold text-white flex items-center gap-2">
+        <span className="w-2 h-8 bg-neon-pink rounded-full"></span>
+        <MessageSquare size={20} className="text-neon-pink" />
+        {t('followUp.title')}
+      </h3>
+
+      <div className="bg-dark-800 rounded-xl border border-dark-700 p-4 space-y-3">
+        {thread.length === 0 && (
+          <p className="text-sm text-gray-500 italic">
+            {t('followUp.empty')}
+          </p>
+        )}
+
+        {thread.map((msg) => (
+          <div key={msg.id} className={`flex gap-3 ${msg.role === 'user' ? 'justify-end' : ''}`}>
+            {msg.role === 'assistant' && (
+              <div className="shrink-0 w-7 h-7 rounded-full bg-neon-purple/20 text-neon-purple flex items-center justify-center">
+                <Bot size={14} />
+              </div>
+            )}
+            <div className={`max-w-[80%] px-4 py-2 rounded-lg text-sm leading-relaxed whitespace-pre-wrap ${
+              msg.role === 'user'
+                ? 'bg-neon-purple/20 text-white border border-neon-purple/30'
+                : 'bg-dark-900 text-gray-300 border border-dark-700'
+            }`}>
+              {msg.content}
+            </div>
+            {msg.role === 'user' && (
+              <div className="shrink-0 w-7 h-7 rounded-full bg-dark-700 text-gray-300 flex items-center justify-center">
+                <User size={14} />
+              </div>
+            )}
+          </div>
+        ))}
+
+        {isAsking && (
+          <div className="flex items-center gap-2 text-xs text-gray-500 animate-pulse">
+            <Loader2 size={12} className="animate-spin" />
+            {t('followUp.thinking')}
+          </div>
+        )}
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        <div ref={bottomRef} />
+
+        <div className="flex gap-2 pt-2 border-t border-dark-700">
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
+            placeholder={t('followUp.placeholder')}
+            className="flex-1 bg-dark-900 text-white placeholder-gray-500 px-3 py-2 rounded-lg outline-none border border-dark-700 focus:border-neon-pink/50 text-sm min-w-0"
+            disabled={isAsking || disabled}
+          />
+          <button
+            onClick={handleAsk}
+            disabled={isAsking || disabled || !question.trim()}
+            className="bg-dark-700 hover:bg-dark-600 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed border border-dark-600"
+          >
+            {isAsking ? <Loader2 className="animate-spin" size={16} /> : <Send size={16} />}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Language, PersonaSettings } from '../types';
+import { PERSONA_IDS, PERSONA_INTENSITIES, personaLabelKey } from '../services/personas';
+import { createTranslator } from '../i18n';
+import { Scale, HeartHandshake, Flame, BarChart3 } from 'lucide-react';
+
+interface PersonaPickerProps {
+  language: Language;
+  value: PersonaSettings;
+  onChange: (value: PersonaSettings) => void;
+  disabled?: boolean;
+}
+
+const ICONS = {
+  lawyer: <Scale size={14} />,
+  mentor: <HeartHandshake size={14} />,
+  roast: <Flame size={14} />,
+  analyst: <BarChart3 size={14} />,
+};
+
+export const PersonaPicker: React.FC<PersonaPickerProps> = ({ language, value, onChange, disabled }) => {
+  const t = createTranslator(language);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="text-gray-500 uppercase tracking-wider font-mono mr-1">
+        {t('persona.label')}
+      </span>
+      {PERSONA_IDS.map((id) => (
+        <button
+          key={id}
+          onClick={() => onChange({ ...value, id })}
+          disabled={disabled}
+          className={`flex items-center gap-1 px-3 py-1 rounded-full border transition-colors disabled:opacity-50 ${
+            value.id === id
+              ? 'bg-neon-purple/20 border-neon-purple text-neon-purple'
+              : 'border-dark-700 text-gray-400 hover:text-white hover:border-gray-500'
+          }`}
+        >
+          {ICONS[id]}
+          {t(personaLabelKey({ ...value, id }))}
+        </button>
+      ))}
+
+      <div className="flex items-center gap-1 ml-2" title={t('persona.intensity')}>
+        <span className="text-gray-500 uppercase tracking-wider font-mono mr-1">
+          {t('persona.intensityLabel')}
+        </span>
+        {PERSONA_INTENSITIES.map((level) => (
+          <button
+            key={level}
+            onClick={() => onChange({ ...value, intensity: level })}
+            disabled={disabled}
+            className={`w-6 h-6 rounded-full border font-mono font-bold transition-colors disabled:opacity-50 ${
+              value.intensity >= level
+                ? 'bg-neon-yellow/20 border-neon-yellow text-neon-yellow'
+                : 'border-dark-700 text-gray-500 hover:border-gray-500'
+            }`}
+          >
+            {level}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
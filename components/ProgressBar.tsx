@@ -0,0 +1,30 @@
+import React from 'react';
+import { Progress, progressPercent } from '../services/checklist';
+
+interface ProgressBarProps {
+  progress: Progress;
+  label?: string;
+  tone?: 'dark' | 'light'; // 'light' for the printable report
+}
+
+// Resolved (done or skipped) steps out of all deep-dive steps; renders nothing until there are steps
+export const ProgressBar: React.FC<ProgressBarProps> = ({ progress, label, tone = 'dark' }) => {
+  if (progress.total === 0) return null;
+  const percent = progressPercent(progress);
+  const complete = progress.resolved === progress.total;
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] font-mono">
+      {label && <span className={tone === 'dark' ? 'text-gray-500 uppercase' : 'text-gray-500 uppercase font-bold'}>{label}</span>}
+      <div className={`flex-1 h-1.5 rounded-full overflow-hidden ${tone === 'dark' ? 'bg-dark-700' : 'bg-gray-200'}`}>
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${complete ? (tone === 'dark' ? 'bg-neon-green' : 'bg-emerald-600') : (tone === 'dark' ? 'bg-neon-purple' : 'bg-blue-600')}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className={complete ? (tone === 'dark' ? 'text-neon-green' : 'text-emerald-700') : 'text-gray-500'}>
+        {progress.resolved}/{progress.total}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Language } from '../types';
+import { createTranslator } from '../i18n';
+import { subscribeScheduler, getSchedulerSnapshot, pauseGroup, resumeGroup, cancelGroup, DETAIL_QUEUE_GROUP, GroupState } from '../services/requestScheduler';
+import { Activity, Pause, Play, X, Timer } from 'lucide-react';
+
+export const useSchedulerSnapshot = () => useSyncExternalStore(subscribeScheduler, getSchedulerSnapshot);
+
+// Counts down to a timestamp, re-rendering once per second while it is in the future
+const useSecondsUntil = (until: number | null) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!until || until <= Date.now()) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+  return until ? Math.max(0, Math.ceil((until - now) / 1000)) : 0;
+};
+
+export const isGroupRunning = (group?: GroupState) =>
+  !!group && group.done + group.failed + group.cancelled < group.total;
+
+interface QueueControlsProps {
+  language: Language;
+  group: string;
+  state: GroupState;
+}
+
+// Pause/resume/cancel buttons for one queue group
+export const QueueControls: React.FC<QueueControlsProps> = ({ language, group, state }) => {
+  const t = createTranslator(language);
+  const buttonClass = "flex items-center gap-1 px-2 py-0.5 rounded border border-dark-600 hover:border-neon-purple text-gray-300 hover:text-white transition-colors";
+
+  return (
+    <div className="flex items-center gap-1 text-[10px] font-mono uppercase">
+      {state.paused ? (
+        <button onClick={() => resumeGroup(group)} className={buttonClass}>
+          <Play size={10} /> {t('queue.resume')}
+        </button>
+      ) : (
+        <button onClick={() => pauseGroup(group)} className={buttonClass}>
+          <Pause size={10} /> {t('queue.pause')}
+        </button>
+      )}
+      <button onClick={() => cancelGroup(group)} className={`${buttonClass} hover:border-red-500`}>
+        <X size={10} /> {t('queue.cancel')}
+      </button>
+    </div>
+  );
+};
+
+interface RequestQueueStatusProps {
+  language: Language;
+}
+
+// Floating app-wide view of the request scheduler, shown while anything is queued or running
+export const RequestQueueStatus: React.FC<RequestQueueStatusProps> = ({ language }) => {
+  const t = createTranslator(language);
+  const snapshot = useSchedulerSnapshot();
+  const cooldown = useSecondsUntil(snapshot.rateLimited ? snapshot.cooldownUntil : null);
+  const details = snapshot.groups[DETAIL_QUEUE_GROUP];
+
+  if (snapshot.pending === 0 && snapshot.running.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-72 bg-dark-800/95 border border-dark-600 rounded-lg shadow-2xl p-3 space-y-2 text-xs no-print">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 font-bold text-gray-200 uppercase tracking-wider">
+          <Activity size={14} className="text-neon-green" />
+          {t('queue.title')}
+        </span>
+        <span className="font-mono text-gray-500">{t('queue.rpm', { rpm: snapshot.rpm })}</span>
+      </div>
+
+      <div className="font-mono text-gray-400">
+        {t('queue.status', { running: snapshot.running.length, pending: snapshot.pending })}
+      </div>
+      {snapshot.running.map(job => (
+        <div key={job.id} className="text-gray-300 truncate">{job.label}</div>
+      ))}
+
+      {cooldown > 0 && (
+        <div className="flex items-center gap-2 text-orange-400">
+          <Timer size={12} />
+          {t('queue.cooldown', { seconds: cooldown })}
+        </div>
+      )}
+
+      {isGroupRunning(details) && (
+        <div className="pt-2 border-t border-dark-700 space-y-2">
+          <div className="flex justify-between font-mono text-gray-400">
+            <span>{t('queue.details', { done: details.done, total: details.total })}</span>
+            {details.paused && <span className="text-neon-yellow">{t('queue.paused')}</span>}
+          </div>
+          <div className="bg-dark-700 rounded-full h-1.5 overflow-hidden">
+            <div
+              className={`h-full transition-all duration-500 ${snapshot.rateLimited ? 'bg-orange-500' : 'bg-neon-green'}`}
+              style={{ width: `${(details.done / details.total) * 100}%` }}
+            ></div>
+          </div>
+          <QueueControls language={language} group={DETAIL_QUEUE_GROUP} state={details} />
+        </div>
+      )}
+    </div>
+  );
+};
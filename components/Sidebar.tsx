@@ -1,5 +1,6 @@
 import React from 'react';
 import { PageView, Language } from '../types';
+import { createTranslator, LANGUAGE_OPTIONS } from '../i18n';
 import { Book, History, Bug, Terminal, Globe, Menu, X, Zap, FileText } from 'lucide-react';
 
 interface SidebarProps {
@@ -19,18 +20,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
   isOpen,
   setIsOpen
 }) => {
+  const t = createTranslator(language);
   const menuItems: { id: PageView; label: string; icon: React.ReactNode }[] = [
-    { id: 'home', label: language === Language.VI ? 'Phân Tích' : 'Debugger', icon: <Terminal size={20} /> },
-    { id: 'report', label: language === Language.VI ? 'Báo Cáo' : 'Report', icon: <FileText size={20} /> },
-    { id: 'history', label: language === Language.VI ? 'Lịch Sử' : 'History', icon: <History size={20} /> },
-    { id: 'docs', label: language === Language.VI ? 'Hướng Dẫn' : 'Docs', icon: <Book size={20} /> },
-    { id: 'logs', label: language === Language.VI ? 'Logs/Lỗi' : 'System Logs', icon: <Bug size={20} /> },
+    { id: 'home', label: t('nav.home'), icon: <Terminal size={20} /> },
+    { id: 'report', label: t('nav.report'), icon: <FileText size={20} /> },
+    { id: 'history', label: t('nav.history'), icon: <History size={20} /> },
+    { id: 'docs', label: t('nav.docs'), icon: <Book size={20} /> },
+    { id: 'logs', label: t('nav.logs'), icon: <Bug size={20} /> },
   ];
 
-  const toggleLang = () => {
-    setLanguage(language === Language.VI ? Language.EN : Language.VI);
-  };
-
   const navClass = `fixed inset-y-0 left-0 transform ${isOpen ? 'translate-x-0' : '-translate-x-full'} md:relative md:translate-x-0 transition duration-200 ease-in-out z-30 w-64 bg-dark-800 border-r border-dark-700 flex flex-col no-print sidebar-container`;
 
   return (
@@ -85,13 +83,22 @@ export const Sidebar: React.FC<SidebarProps> = ({
         </nav>
 
         <div className="p-4 border-t border-dark-700">
-          <button
-            onClick={toggleLang}
-            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-dark-900 rounded-lg border border-dark-700 hover:border-gray-500 transition-colors text-sm"
-          >
+          <label className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-dark-900 rounded-lg border border-dark-700 hover:border-gray-500 transition-colors text-sm">
             <Globe size={16} />
-            <span>{language === Language.VI ? 'Ngôn ngữ: Tiếng Việt' : 'Language: English'}</span>
-          </button>
+            <span className="sr-only">{t('sidebar.language')}</span>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as Language)}
+              className="bg-transparent text-gray-200 outline-none cursor-pointer"
+              title={t('sidebar.language')}
+            >
+              {LANGUAGE_OPTIONS.map((option) => (
+                <option key={option.code} value={option.code} className="bg-dark-900">
+                  {option.nativeName}
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
       </div>
     </>
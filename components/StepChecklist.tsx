@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Language, SuggestionItem, TaskStatus } from '../types';
+import { createTranslator, getLocale } from '../i18n';
+import { TASK_STATUSES, TaskPatch, getTask, isResolved, itemProgress } from '../services/checklist';
+import { DueState, REMINDER_OPTIONS, daysUntil, dueState, fromDateKey } from '../services/deadlines';
+import { ProgressBar } from './ProgressBar';
+import { Check, StickyNote, CalendarClock, Sparkles, Loader2, Bell } from 'lucide-react';
+
+interface StepChecklistProps {
+  language: Language;
+  item: SuggestionItem;
+  onChange: (step: number, patch: TaskPatch) => void;
+  onProposeDates?: () => void; // Asks the model for due dates of the undated steps
+  proposing?: boolean;
+}
+
+const DUE_STYLES: Record<DueState, string> = {
+  overdue: 'text-red-400',
+  remind: 'text-neon-yellow',
+  upcoming: 'text-gray-500',
+};
+
+const STATUS_STYLES: Record<TaskStatus, string> = {
+  todo: 'border-dark-600 text-gray-400',
+  in_progress: 'border-neon-yellow/50 text-neon-yellow',
+  done: 'border-neon-green/50 text-neon-green',
+  skipped: 'border-dark-600 text-gray-500',
+};
+
+// Deep-dive steps as tasks: tick to finish, pick any status, keep notes per step
+export const StepChecklist: React.FC<StepChecklistProps> = ({ language, item, onChange, onProposeDates, proposing }) => {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const [openNotes, setOpenNotes] = useState<Set<number>>(new Set());
+  // Notes are saved on blur, not on every keystroke
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  const toggleNotes = (step: number) =>
+    setOpenNotes(prev => {
+      const next = new Set(prev);
+      if (!next.delete(step)) next.add(step);
+      return next;
+    });
+
+  const saveNotes = (step: number) => {
+    const draft = drafts[step];
+    if (draft === undefined) return;
+    if (draft !== (getTask(item, step).notes ?? '')) onChange(step, { notes: draft });
+    setDrafts(({ [step]: _, ...rest }) => rest);
+  };
+
+  const steps = item.details?.steps ?? [];
+
+  const dueLabel = (dueDate: string) => {
+    const days = daysUntil(dueDate);
+    if (days < 0) return t('deadlines.overdue', { days: -days });
+    if (days === 0) return t('deadlines.today');
+    return t('deadlines.inDays', { days });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="flex-1"><ProgressBar progress={itemProgress(item)} label={t('checklist.progress')} /></div>
+        {onProposeDates && steps.length > 0 && (
+          <button
+            onClick={onProposeDates}
+            disabled={proposing}
+            title={t('deadlines.proposeHint')}
+            className="text-[10px] uppercase font-bold flex items-center gap-1 px-2 py-1 rounded border border-dark-600 text-gray-400 hover:text-white hover:border-neon-purple disabled:opacity-50 shrink-0"
+          >
+            {proposing ? <Loader2 size={10} className="animate-spin" /> : <Sparkles size={10} />} {t('deadlines.propose')}
+          </button>
+        )}
+      </div>
+      <ul className="space-y-3">
+        {steps.map((step, idx) => {
+          const task = getTask(item, idx);
+          const resolved = isResolved(task.status);
+          const state = dueState(task);
+          const notesOpen = openNotes.has(idx) || !!task.notes;
+          return (
+            <li key={idx} className="flex gap-3 text-sm text-gray-300">
+              <button
+                onClick={() => onChange(idx, { status: task.status === 'done' ? 'todo' : 'done' })}
+                title={task.status === 'done' ? t('checklist.markTodo') : t('checklist.markDone')}
+                className={`shrink-0 w-6 h-6 flex items-center justify-center rounded-full text-xs font-bold border transition-colors ${
+                  task.status === 'done'
+                    ? 'bg-neon-green/20 border-neon-green text-neon-green'
+                    : 'bg-dark-700 border-dark-600 text-neon-yellow hover:border-neon-green'
+                }`}
+              >
+                {task.status === 'done' ? <Check size={12} /> : idx + 1}
+              </button>
+              <div className="flex-1 min-w-0 space-y-1.5">
+                <span className={`block pt-0.5 ${resolved ? 'line-through text-gray-500' : ''}`}>{step}</span>
+                <div className="flex flex-wrap items-center gap-2 text-[10px]">
+                  <select
+                    value={task.status}
+                    onChange={(e) => onChange(idx, { status: e.target.value as TaskStatus })}
+                    className={`bg-dark-900 border rounded px-1.5 py-0.5 font-mono uppercase focus:outline-none focus:border-neon-purple ${STATUS_STYLES[task.status]}`}
+                  >
+                    {TASK_STATUSES.map(status => (
+                      <option key={status} value={status}>{t(`checklist.status.${status}`)}</option>
+                    ))}
+                  </select>
+                  {task.completedAt && (
+                    <span className="text-gray-500 font-mono">
+                      {t('checklist.completedOn', { date: new Date(task.completedAt).toLocaleDateString(locale) })}
+                    </span>
+                  )}
+                  {!task.notes && (
+                    <button onClick={() => toggleNotes(idx)} className="text-gray-500 hover:text-neon-purple flex items-center gap-1">
+                      <StickyNote size={10} /> {t('checklist.notes')}
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-[10px]">
+                  <label className={`flex items-center gap-1 ${state ? DUE_STYLES[state] : 'text-gray-500'}`} title={t('deadlines.dueDate')}>
+                    <CalendarClock size={10} />
+                    <input
+                      type="date"
+                      value={task.dueDate ?? ''}
+                      onChange={(e) => onChange(idx, { dueDate: e.target.value || undefined })}
+                      className={`bg-dark-900 border rounded px-1 py-0.5 font-mono focus:outline-none focus:border-neon-purple ${task.dueProposed ? 'border-dashed border-neon-purple/60' : 'border-dark-700'}`}
+                    />
+                  </label>
+                  {task.dueDate && (
+                    <>
+                      <label className="flex items-center gap-1 text-gray-500" title={t('deadlines.reminder')}>
+                        <Bell size={10} />
+                        <select
+                          value={task.reminderDays ?? ''}
+                          onChange={(e) => onChange(idx, { reminderDays: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          className="bg-dark-900 border border-dark-700 rounded px-1 py-0.5 focus:outline-none focus:border-neon-purple"
+                        >
+                          <option value="">{t('deadlines.noReminder')}</option>
+                          {REMINDER_OPTIONS.map(days => (
+                            <option key={days} value={days}>
+                              {days === 0 ? t('deadlines.remindOnDay') : t('deadlines.remindBefore', { days })}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      {state && (
+                        <span className={`font-mono ${DUE_STYLES[state]}`} title={fromDateKey(task.dueDate).toLocaleDateString(locale)}>
+                          {dueLabel(task.dueDate)}
+                        </span>
+                      )}
+                      {task.dueProposed && (
+                        <span className="flex items-center gap-1 text-neon-purple" title={task.dueReason}>
+                          <Sparkles size={10} /> {t('deadlines.proposed')}
+                          <button onClick={() => onChange(idx, { dueDate: task.dueDate })} className="underline hover:text-white">
+                            {t('deadlines.accept')}
+                          </button>
+                        </span>
+                      )}
+                    </>
+                  )}
+                </div>
+                {task.dueReason && (
+                  <p className="text-[10px] italic text-gray-500">{t('deadlines.reason')}: {task.dueReason}</p>
+                )}
+                {notesOpen && (
+                  <textarea
+                    value={drafts[idx] ?? task.notes ?? ''}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [idx]: e.target.value }))}
+                    onBlur={() => saveNotes(idx)}
+                    placeholder={t('checklist.notesPlaceholder')}
+                    rows={2}
+                    className="w-full bg-dark-900 border border-dark-700 rounded p-2 text-xs text-gray-300 focus:outline-none focus:border-neon-purple resize-y"
+                  />
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
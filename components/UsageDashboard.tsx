@@ -0,0 +1,179 @@
+import React from 'react';
+import { Language, ModelPrice, UsageRecord } from '../types';
+import { createTranslator, getLocale } from '../i18n';
+import { sumUsage, dailyUsage, usageByModel, formatCost, formatTokens, DEFAULT_PRICES } from '../services/usage';
+import { Coins, Plus, RotateCcw, Trash2 } from 'lucide-react';
+
+const CHART_DAYS = 14;
+
+interface UsageDashboardProps {
+  usage: UsageRecord[];
+  modelPrices: ModelPrice[];
+  onModelPricesChange: (prices: ModelPrice[]) => void;
+  language: Language;
+}
+
+// Cumulative token usage and estimated cost across every analysis, with the editable price table
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ usage, modelPrices, onModelPricesChange, language }) => {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const totals = sumUsage(usage, modelPrices);
+  const days = dailyUsage(usage, modelPrices, CHART_DAYS);
+  const models = usageByModel(usage, modelPrices);
+  const maxDayTokens = Math.max(1, ...days.map(d => d.totalTokens));
+
+  const updatePrice = (idx: number, patch: Partial<ModelPrice>) =>
+    onModelPricesChange(modelPrices.map((p, i) => i === idx ? { ...p, ...patch } : p));
+
+  const parseRate = (value: string) => {
+    const number = Number(value);
+    return Number.isFinite(number) && number >= 0 ? number : 0;
+  };
+
+  const stats = [
+    { label: t('usage.calls'), value: totals.calls.toLocaleString(locale) },
+    { label: t('usage.promptTokens'), value: formatTokens(totals.promptTokens, locale) },
+    { label: t('usage.outputTokens'), value: formatTokens(totals.outputTokens, locale) },
+    { label: t('usage.cost'), value: formatCost(totals.cost, locale) },
+    { label: t('usage.avgLatency'), value: totals.calls ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s` : '-' },
+  ];
+
+  const inputClass = "bg-dark-900 border border-dark-600 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-neon-purple";
+
+  return (
+    <div className="bg-dark-800 rounded-lg border border-dark-700 p-4 mb-6 space-y-5 no-print">
+      <h3 className="text-lg font-bold text-white flex items-center gap-2">
+        <Coins className="text-neon-yellow" size={20} />
+        {t('usage.title')}
+      </h3>
+
+      {usage.length === 0 ? (
+        <div className="text-gray-500 text-sm">{t('usage.empty')}</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="bg-dark-900 rounded border border-dark-700 p-3">
+                <div className="text-[10px] uppercase tracking-wider text-gray-500">{stat.label}</div>
+                <div className="text-lg font-mono text-white">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+          {totals.unpriced > 0 && (
+            <div className="text-xs text-yellow-500">{t('usage.unpriced', { count: totals.unpriced })}</div>
+          )}
+
+          <div>
+            <div className="text-xs uppercase tracking-wider text-gray-500 mb-2">{t('usage.daily', { days: CHART_DAYS })}</div>
+            <div className="flex items-end gap-1 h-32">
+              {days.map(day => (
+                <div
+                  key={day.day}
+                  className="flex-1 h-full flex flex-col justify-end"
+                  title={`${new Date(day.date).toLocaleDateString(locale)}: ${day.totalTokens.toLocaleString(locale)} tokens, ${formatCost(day.cost, locale)}`}
+                >
+                  <div className="bg-neon-purple/70 rounded-t" style={{ height: `${(day.outputTokens / maxDayTokens) * 100}%` }}></div>
+                  <div className="bg-neon-green/60" style={{ height: `${(day.promptTokens / maxDayTokens) * 100}%` }}></div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-[10px] text-gray-500 font-mono mt-1">
+              <span>{new Date(days[0].date).toLocaleDateString(locale, { month: 'short', day: 'numeric' })}</span>
+              <span className="flex gap-3">
+                <span className="text-neon-green">■ {t('usage.input')}</span>
+                <span className="text-neon-purple">■ {t('usage.output')}</span>
+              </span>
+              <span>{new Date(days[days.length - 1].date).toLocaleDateString(locale, { month: 'short', day: 'numeric' })}</span>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs uppercase tracking-wider text-gray-500 mb-2">{t('usage.byModel')}</div>
+            <table className="w-full text-xs font-mono">
+              <thead className="text-gray-500 text-left">
+                <tr>
+                  <th className="py-1">{t('usage.model')}</th>
+                  <th className="py-1 text-right">{t('usage.calls')}</th>
+                  <th className="py-1 text-right">{t('usage.input')}</th>
+                  <th className="py-1 text-right">{t('usage.output')}</th>
+                  <th className="py-1 text-right">{t('usage.cost')}</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {models.map(row => (
+                  <tr key={row.model} className="border-t border-dark-700">
+                    <td className="py-1">{row.model}</td>
+                    <td className="py-1 text-right">{row.calls}</td>
+                    <td className="py-1 text-right">{formatTokens(row.promptTokens, locale)}</td>
+                    <td className="py-1 text-right">{formatTokens(row.outputTokens, locale)}</td>
+                    <td className="py-1 text-right">{row.unpriced ? '-' : formatCost(row.cost, locale)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs uppercase tracking-wider text-gray-500">{t('usage.prices')}</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onModelPricesChange([...modelPrices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+              className="flex items-center gap-1 text-xs text-gray-300 hover:text-white px-2 py-1 rounded border border-dark-600 hover:border-neon-purple"
+            >
+              <Plus size={12} /> {t('usage.addPrice')}
+            </button>
+            <button
+              onClick={() => onModelPricesChange(DEFAULT_PRICES)}
+              className="flex items-center gap-1 text-xs text-gray-300 hover:text-white px-2 py-1 rounded border border-dark-600 hover:border-neon-purple"
+            >
+              <RotateCcw size={12} /> {t('usage.resetPrices')}
+            </button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <div className="grid grid-cols-[1fr_6rem_6rem_2rem] gap-2 text-[10px] uppercase tracking-wider text-gray-500">
+            <span>{t('usage.modelPrefix')}</span>
+            <span>{t('usage.input')}</span>
+            <span>{t('usage.output')}</span>
+            <span></span>
+          </div>
+          {modelPrices.map((price, idx) => (
+            <div key={idx} className="grid grid-cols-[1fr_6rem_6rem_2rem] gap-2">
+              <input
+                value={price.model}
+                onChange={(e) => updatePrice(idx, { model: e.target.value.trim() })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={price.inputPerMillion}
+                onChange={(e) => updatePrice(idx, { inputPerMillion: parseRate(e.target.value) })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={price.outputPerMillion}
+                onChange={(e) => updatePrice(idx, { outputPerMillion: parseRate(e.target.value) })}
+                className={inputClass}
+              />
+              <button
+                onClick={() => onModelPricesChange(modelPrices.filter((_, i) => i !== idx))}
+                title={t('usage.removePrice')}
+                className="text-gray-500 hover:text-red-400 flex items-center justify-center"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
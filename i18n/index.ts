@@ -0,0 +1,49 @@
+import { Language } from '../types';
+import { Messages, MessageKey, MessageParams } from './types';
+import { en } from './messages/en';
+import { vi } from './messages/vi';
+import { ja } from './messages/ja';
+import { ko } from './messages/ko';
+import { fr } from './messages/fr';
+
+export type { Messages, MessageKey, MessageParams } from './types';
+
+const CATALOGS: Record<Language, Messages> = {
+  [Language.VI]: vi,
+  [Language.EN]: en,
+  [Language.JA]: ja,
+  [Language.KO]: ko,
+  [Language.FR]: fr,
+};
+
+export interface LanguageOption {
+  code: Language;
+  nativeName: string;
+  locale: string; // BCP 47 tag for dates and numbers
+}
+
+// Order shown in the language picker
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+  { code: Language.VI, nativeName: 'Tiếng Việt', locale: 'vi-VN' },
+  { code: Language.EN, nativeName: 'English', locale: 'en-US' },
+  { code: Language.JA, nativeName: '日本語', locale: 'ja-JP' },
+  { code: Language.KO, nativeName: '한국어', locale: 'ko-KR' },
+  { code: Language.FR, nativeName: 'Français', locale: 'fr-FR' },
+];
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGE_OPTIONS.some(o => o.code === value);
+
+export const getLocale = (lang: Language): string =>
+  LANGUAGE_OPTIONS.find(o => o.code === lang)?.locale ?? 'en-US';
+
+export const translate = (lang: Language, key: MessageKey, params?: MessageParams): string => {
+  const template = (CATALOGS[lang] ?? en)[key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export const createTranslator = (lang: Language): Translator =>
+  (key, params) => translate(lang, key, params);
@@ -0,0 +1,307 @@
+// Source catalog: its keys define MessageKey. Every other catalog must provide exactly these keys.
+// Placeholders use {name} and are filled by translate().
+export const en = {
+  'common.close': 'Close',
+  'common.page': 'Page {page} / {total}',
+  'common.cancel': 'Cancel',
+  'common.pdfNoCjk': 'PDF export has no Japanese or Korean font. Use Print and choose "Save as PDF" instead.',
+
+  'nav.home': 'Debugger',
+  'nav.report': 'Report',
+  'nav.history': 'History',
+  'nav.docs': 'Docs',
+  'nav.logs': 'System Logs',
+  'sidebar.language': 'Language',
+
+  'print.copy': 'Copy',
+  'print.copyTitle': 'Copy content',
+  'print.pdf': 'PDF',
+  'print.pdfTitle': 'Download PDF',
+  'print.pdfError': 'PDF Generation Error',
+  'print.print': 'Print',
+  'print.printTitle': 'Print A4',
+
+  'persona.label': 'Persona:',
+  'persona.intensity': 'Intensity',
+  'persona.intensityLabel': 'Intensity:',
+  'persona.lawyer': 'Formal Lawyer',
+  'persona.mentor': 'Friendly Mentor',
+  'persona.roast': 'Savage Roast',
+  'persona.analyst': 'Neutral Analyst',
+  'persona.lawyer.commentary': 'LEGAL OPINION',
+  'persona.mentor.commentary': 'MENTOR NOTE',
+  'persona.roast.commentary': 'EXPERT ROAST',
+  'persona.analyst.commentary': 'ANALYST NOTE',
+
+  'followUp.title': 'Follow-up Questions',
+  'followUp.empty': 'Ask more about this issue. The original query, the issues list and fetched deep dives are used as context.',
+  'followUp.thinking': 'Thinking...',
+  'followUp.placeholder': 'e.g. What documents does item 3 need?',
+  'followUp.error': 'Failed to answer the question',
+
+  'home.title': 'Input Your Life Issue',
+  'home.subtitle': 'Construction, law, work... Attach images/docs if needed.',
+  'home.placeholder': 'Describe issue (ex: Land Law 2025)...',
+  'home.send': 'Send',
+  'home.stop': 'Stop',
+  'home.stopHint': 'Stop this analysis. Press Enter to replace it with the query you typed.',
+  'home.attachTitle': 'Attach File/Link',
+  'home.uploadMedia': 'Upload Media/PDF',
+  'home.pasteLink': 'Paste Link URL',
+  'home.attachmentsSummary': '{count} items · {used} / {budget}',
+  'home.budgetExceeded': 'Total size budget ({budget}) exceeded: {files}',
+  'home.linkChars': '{count} chars',
+  'home.linkFetchFailed': 'Could not fetch content, URL only',
+  'home.streamInterrupted': 'Stream interrupted. Kept the {count} items received so far.',
+  'home.detailError': 'Failed to load details',
+  'home.systemError': 'System Error',
+  'home.status.streaming': 'Status: Streaming...',
+  'home.status.partial': 'Status: Partial (Stream Interrupted)',
+  'home.status.complete': 'Status: Analysis Complete',
+  'home.reportReady': 'Executive Report Ready',
+  'home.viewReport': 'View Report',
+  'home.writingCommentary': 'Writing the commentary...',
+  'home.sources': 'Data Sources / References:',
+  'home.sourcesNone': 'Source: General Knowledge',
+  'home.issuesTitle': 'Related Issues Log',
+  'home.count': 'count: {count}',
+  'home.detailsBadge': 'Details',
+  'home.viewDeepDive': 'View Deep Dive',
+  'home.receivingNext': 'Receiving next issue...',
+  'home.loadMore': 'Load next 10 issues',
+  'suggestions.pin': 'Pin: keep on top and build on it',
+  'suggestions.unpin': 'Unpin',
+  'suggestions.dismiss': 'Dismiss as irrelevant',
+  'suggestions.regenerate': 'Regenerate this card',
+  'suggestions.regenerateError': 'Could not regenerate this card. Try again.',
+  'suggestions.dismissedCount': 'Dismissed ({count})',
+  'suggestions.restore': 'Restore',
+  'dedup.alsoSuggested': 'Merged {count}×:',
+  'dedup.repeats': 'Suggested again {count}×',
+  'dedup.sourcesMerged': '{count} repeated sources merged',
+
+  'modal.kicker': 'Issue Deep Dive',
+  'modal.analysis': 'Deep Analysis',
+  'modal.noAnalysis': 'No analysis available.',
+  'modal.steps': 'Workflow & Steps',
+  'modal.risks': 'Risks & Warnings',
+  'checklist.progress': 'Progress',
+  'checklist.analysisProgress': 'Plan progress',
+  'checklist.markDone': 'Mark as done',
+  'checklist.markTodo': 'Mark as not done',
+  'checklist.status.todo': 'To do',
+  'checklist.status.in_progress': 'In progress',
+  'checklist.status.done': 'Done',
+  'checklist.status.skipped': 'Skipped',
+  'checklist.completedOn': 'Done {date}',
+  'checklist.notes': 'Notes',
+  'checklist.notesPlaceholder': 'Notes, reference numbers, who you spoke to…',
+  'checklist.progressCount': '{resolved}/{total} steps resolved',
+  'checklist.statusLabel': 'Status',
+  'deadlines.dueDate': 'Due date',
+  'deadlines.dueOn': 'Due {date}',
+  'deadlines.today': 'Due today',
+  'deadlines.inDays': 'In {days} days',
+  'deadlines.overdue': '{days} days overdue',
+  'deadlines.reminder': 'Reminder',
+  'deadlines.noReminder': 'No reminder',
+  'deadlines.remindOnDay': 'On the day',
+  'deadlines.remindBefore': '{days} days before',
+  'deadlines.propose': 'Propose dates',
+  'deadlines.proposeHint': 'Let the AI suggest due dates for time-bound steps that have none yet',
+  'deadlines.proposed': 'Proposed',
+  'deadlines.accept': 'Accept',
+  'deadlines.reason': 'Why',
+  'deadlines.proposeError': 'Could not propose due dates. Try again.',
+  'deadlines.attention': 'Steps overdue or due soon',
+  'deadlines.noDates': 'No step has a due date yet. Set dates in the deep dives first.',
+
+  'history.empty': 'No search history yet',
+  'history.title': 'Debug History',
+  'history.restore': 'Reload & Report',
+  'history.results': 'Logged Results:',
+  'history.detailedBadge': 'DETAILED',
+  'history.import': 'Import',
+  'history.exportJson': 'Export JSON',
+  'history.exportMarkdown': 'Export Markdown',
+  'history.selectAll': 'Select all',
+  'history.clearSelection': 'Clear selection',
+  'history.scopeSelected': '{count} selected',
+  'history.scopeAll': 'All {count}',
+  'history.select': 'Select for export or deletion',
+  'history.imported': 'Imported {count} analyses ({unchanged} already present).',
+  'history.importNothing': 'Nothing new in this bundle.',
+  'history.importError': 'Could not import this file.',
+  'history.importRejected': '{count} invalid analyses were skipped (see the log).',
+  'history.exportError': 'Export failed.',
+  'history.conflictTitle': '{count} imported analyses already exist with different content.',
+  'history.conflictSkip': 'Keep mine',
+  'history.conflictReplace': 'Replace',
+  'history.conflictCopy': 'Keep both',
+  'history.search': 'Search queries, suggestions and commentary',
+  'history.starredOnly': 'Starred',
+  'history.sort.newest': 'Newest first',
+  'history.sort.oldest': 'Oldest first',
+  'history.sort.mostItems': 'Most items',
+  'history.sort.fewestItems': 'Fewest items',
+  'history.star': 'Star',
+  'history.unstar': 'Remove star',
+  'history.delete': 'Delete',
+  'history.deleteSelected': 'Delete {count}',
+  'history.deleteConfirm': 'Delete {count} analyses? Undo stays available for {seconds} s.',
+  'history.deleteHiddenKept': '{count} selected analyses hidden by the current filter are kept.',
+  'history.deleteConfirmAction': 'Delete',
+  'history.deleted': '{count} analyses deleted.',
+  'history.undo': 'Undo',
+  'history.addTag': '+ tag',
+  'history.removeTag': 'Remove tag',
+  'history.noMatch': 'No analyses match the search.',
+  'history.compare': 'Compare',
+  'history.compareHint': 'Select exactly two analyses to compare',
+
+  'compare.title': 'Compare analyses',
+  'compare.back': 'Back to history',
+  'compare.missing': 'Select two analyses in History to compare them.',
+  'compare.before': 'Before',
+  'compare.after': 'After',
+  'compare.items': '{count} items',
+  'compare.status.unchanged': 'Unchanged',
+  'compare.status.changed': 'Changed',
+  'compare.status.added': 'Added',
+  'compare.status.removed': 'Removed',
+  'compare.showUnchanged': 'Show unchanged items',
+  'compare.identical': 'No differences between the suggestions.',
+  'compare.similarity': '{percent}% similar',
+  'compare.field.title': 'title',
+  'compare.field.description': 'description',
+  'compare.field.analysis': 'analysis',
+  'compare.field.steps': 'steps',
+  'compare.field.risks': 'risks',
+  'compare.detailDiff': 'Show deep-dive differences',
+  'compare.detailOneSide': 'Deep dive available on one side only.',
+
+  'share.copied': 'Share link copied. Anyone who opens it sees this analysis read-only and can import it into their own history.',
+  'share.tooLarge': 'This analysis is too large for a link ({length} characters, limit {max}). Send the JSON bundle instead; it can be imported on the History page.',
+  'share.error': 'The share link could not be created. You can send the JSON bundle instead.',
+  'share.downloadBundle': 'Download JSON bundle',
+  'shared.loading': 'Opening shared analysis…',
+  'shared.invalid': 'This share link is damaged or incomplete. Ask the sender for a new link or the JSON bundle.',
+  'shared.banner': 'Shared analysis, read-only. Nothing is saved until you import it.',
+  'shared.import': 'Import into my history',
+  'shared.open': 'Already in your history: open it',
+  'shared.conflict': 'This analysis is already in your history with different content, e.g. other deep dives or follow-ups.',
+
+  'logs.title': 'System Logs',
+  'logs.empty': '-- No logs recorded yet --',
+  'logs.search': 'Search messages and details',
+  'logs.range.all': 'All time',
+  'logs.range.15m': 'Last 15 minutes',
+  'logs.range.1h': 'Last hour',
+  'logs.range.24h': 'Last 24 hours',
+  'logs.range.7d': 'Last 7 days',
+  'logs.clearFilters': 'Clear filters',
+  'logs.expandAll': 'Expand all',
+  'logs.collapseAll': 'Collapse all',
+  'logs.details': 'Details',
+  'logs.exportHint': 'Exports the entries matching the filters',
+  'logs.count': '{shown} of {total} entries shown · the latest {max} are kept',
+  'logs.noMatch': '-- No entries match the filters --',
+
+  'queue.title': 'Request queue',
+  'queue.status': '{running} running · {pending} queued',
+  'queue.rpm': '{rpm} req/min',
+  'queue.cooldown': 'Rate limited. Resuming in {seconds}s',
+  'queue.details': 'Deep dives {done}/{total}',
+  'queue.failed': '{count} failed',
+  'queue.pause': 'Pause',
+  'queue.resume': 'Resume',
+  'queue.cancel': 'Cancel',
+  'queue.paused': 'Paused',
+  'queue.cancelled': 'Auto-generation cancelled. {count} deep dives are missing.',
+
+  'usage.title': 'Token usage & cost',
+  'usage.empty': 'No usage recorded yet. Token counts appear after the next AI call.',
+  'usage.thisAnalysis': 'This analysis',
+  'usage.calls': 'Calls',
+  'usage.callCount': '{count} calls',
+  'usage.promptTokens': 'Input tokens',
+  'usage.outputTokens': 'Output tokens',
+  'usage.tokensInOut': '{input} in · {output} out',
+  'usage.cost': 'Est. cost',
+  'usage.avgLatency': 'Avg. latency',
+  'usage.unpriced': '{count} calls have no price entry',
+  'usage.daily': 'Last {days} days',
+  'usage.byModel': 'By model',
+  'usage.model': 'Model',
+  'usage.input': 'Input',
+  'usage.output': 'Output',
+  'usage.prices': 'Prices (USD per 1M tokens)',
+  'usage.modelPrefix': 'Model name prefix',
+  'usage.addPrice': 'Add model',
+  'usage.resetPrices': 'Reset defaults',
+  'usage.removePrice': 'Remove',
+
+  'report.empty': 'No analysis data. Please go back to "Debugger" page and submit an issue.',
+  'report.toolbar': 'Executive Report View',
+  'report.toolbar.share': 'Copy share link',
+  'report.toolbar.copy': 'Copy Text',
+  'report.toolbar.pdf': 'Download PDF',
+  'report.toolbar.docx': 'Download Word (.docx)',
+  'report.toolbar.calendar': 'Export calendar (.ics)',
+  'report.toolbar.print': 'Print',
+  'report.pdfError': 'PDF generation failed.',
+  'report.docxError': 'Word export failed.',
+  'report.fileSlug': 'summary',
+  'report.autoGenerating': 'AUTO-GENERATING...',
+  'report.freeTierHit': 'Free Tier Limit Hit: Pausing to respect API quota...',
+  'report.title': 'EXECUTIVE REPORT',
+  'report.copyTitle': 'EXECUTIVE SUMMARY REPORT',
+  'report.generatedBy': 'LifeDebugger generated content',
+  'report.subject': 'Subject',
+  'report.date': 'Date',
+  'report.persona': 'Persona',
+  'report.personaLevel': '{persona} · level {level}/3',
+  'report.attachments': 'Analyzed attachments',
+  'report.fetchedAt': '{name} (fetched {date})',
+  'report.toc': 'TABLE OF CONTENTS',
+  'report.toc.analysis': 'GENERAL ANALYSIS',
+  'report.toc.details': 'DETAILED REPORT',
+  'report.toc.prompt': 'PROMPT & AI ADVICE',
+  'report.toc.references': 'REFERENCES',
+  'report.toc.followUp': 'FOLLOW-UP Q&A',
+  'report.section.analysis': 'GENERAL ANALYSIS & EVALUATION',
+  'report.section.details': 'DETAILED REPORT OF ISSUES',
+  'report.section.prompt': 'PROMPT ENGINEERING & AI ADVICE',
+  'report.section.references': 'REFERENCES & SOURCES',
+  'report.section.followUp': 'FOLLOW-UP Q&A',
+  'report.analysisGuide': 'Analysis & Guide',
+  'report.actionableSteps': 'Actionable Steps:',
+  'report.risk': 'Risk:',
+  'report.waiting': 'Waiting for analysis...',
+  'report.recommendedModel': 'Recommended AI Model:',
+  'report.optimizedPrompt': 'Optimized System Prompt:',
+  'report.promptPending': 'Analyzing prompt requirements...',
+  'report.generalKnowledge': 'General knowledge synthesis.',
+  'report.question': 'Q:',
+  'report.answer': 'A:',
+  'report.footer': 'Report generated by LifeDebugger AI Analysis Tool.',
+
+  'docs.title': 'User Manual',
+  'docs.confirmTitle': 'Requirement Confirmation',
+  'docs.confirmIntro': 'The system has interpreted your idea as follows:',
+  'docs.confirm.goal': 'Goal: Create a web app accepting input (life/law/construction) -> Output: 10 related suggestions.',
+  'docs.confirm.features': 'Features: Load more (Pagination), Humorous/Rude commentary (Code Note).',
+  'docs.confirm.pages': 'Pages: Search, History, Logs, Docs.',
+  'docs.confirm.ux': 'UX: Auto-update, Multi-language (Default VI), Print/Copy.',
+  'docs.workflowTitle': 'Workflow',
+  'docs.step1.title': 'Input Data',
+  'docs.step1.desc': 'Enter any issue: "Construction permit", "Toxic boss", "Land law"...',
+  'docs.step2.title': 'AI Analysis',
+  'docs.step2.desc': 'System calls Gemini API to list 10 related issues and writes a "Code Note" review.',
+  'docs.step3.title': 'Result & Expand',
+  'docs.step3.desc': 'View results, laugh at the commentary, and click "Load More" to dig deeper.',
+  'docs.featuresTitle': 'Detailed Features',
+  'docs.feature.codeNote': 'Allows AI to be rude and subjective. Not 100% accurate, focuses on humor and brutal honesty.',
+  'docs.feature.autoUpdate': 'Instant interface response (React State) without page reload.',
+  'docs.feature.print': 'Allows printing content to A4 paper or saving as PDF for offline reading.',
+};
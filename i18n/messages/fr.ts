@@ -0,0 +1,307 @@
+import { Messages } from '../types';
+
+export const fr: Messages = {
+  'common.close': 'Fermer',
+  'common.page': 'Page {page} / {total}',
+  'common.cancel': 'Annuler',
+  'common.pdfNoCjk': 'L’export PDF n’a pas de police japonaise ou coréenne. Utilisez Imprimer puis « Enregistrer au format PDF ».',
+
+  'nav.home': 'Débogueur',
+  'nav.report': 'Rapport',
+  'nav.history': 'Historique',
+  'nav.docs': 'Guide',
+  'nav.logs': 'Journaux système',
+  'sidebar.language': 'Langue',
+
+  'print.copy': 'Copier',
+  'print.copyTitle': 'Copier le contenu',
+  'print.pdf': 'PDF',
+  'print.pdfTitle': 'Télécharger le PDF',
+  'print.pdfError': 'Erreur de génération du PDF',
+  'print.print': 'Imprimer',
+  'print.printTitle': 'Imprimer en A4',
+
+  'persona.label': 'Persona :',
+  'persona.intensity': 'Intensité',
+  'persona.intensityLabel': 'Intensité :',
+  'persona.lawyer': 'Avocat (formel)',
+  'persona.mentor': 'Mentor (bienveillant)',
+  'persona.roast': 'Roast sans pitié',
+  'persona.analyst': 'Analyste (neutre)',
+  'persona.lawyer.commentary': 'AVIS JURIDIQUE',
+  'persona.mentor.commentary': 'NOTE DU MENTOR',
+  'persona.roast.commentary': 'ROAST D’EXPERT',
+  'persona.analyst.commentary': 'NOTE D’ANALYSE',
+
+  'followUp.title': 'Questions de suivi',
+  'followUp.empty': 'Posez d’autres questions sur ce sujet. La requête d’origine, la liste des problèmes et les analyses détaillées servent de contexte.',
+  'followUp.thinking': 'Réflexion...',
+  'followUp.placeholder': 'ex. : Quels documents pour le point 3 ?',
+  'followUp.error': 'Impossible de répondre à la question',
+
+  'home.title': 'Décrivez votre problème',
+  'home.subtitle': 'Construction, droit, travail... Joignez images/documents si besoin.',
+  'home.placeholder': 'Décrivez le problème (ex. : loi foncière 2025)...',
+  'home.send': 'Envoyer',
+  'home.stop': 'Arrêter',
+  'home.stopHint': 'Arrêter cette analyse. Appuyez sur Entrée pour la remplacer par la requête saisie.',
+  'home.attachTitle': 'Joindre un fichier/lien',
+  'home.uploadMedia': 'Importer média/PDF',
+  'home.pasteLink': 'Coller une URL',
+  'home.attachmentsSummary': '{count} éléments · {used} / {budget}',
+  'home.budgetExceeded': 'Taille totale maximale ({budget}) dépassée : {files}',
+  'home.linkChars': '{count} caractères',
+  'home.linkFetchFailed': 'Contenu inaccessible, URL seule envoyée',
+  'home.streamInterrupted': 'Flux interrompu. Les {count} éléments reçus ont été conservés.',
+  'home.detailError': 'Échec du chargement des détails',
+  'home.systemError': 'Erreur système',
+  'home.status.streaming': 'Statut : réception en cours...',
+  'home.status.partial': 'Statut : partiel (flux interrompu)',
+  'home.status.complete': 'Statut : analyse terminée',
+  'home.reportReady': 'Rapport de synthèse prêt',
+  'home.viewReport': 'Voir le rapport',
+  'home.writingCommentary': 'Rédaction du commentaire...',
+  'home.sources': 'Sources / Références :',
+  'home.sourcesNone': 'Source : connaissances générales',
+  'home.issuesTitle': 'Problèmes liés',
+  'home.count': 'total : {count}',
+  'home.detailsBadge': 'Détails',
+  'home.viewDeepDive': 'Voir l’analyse détaillée',
+  'home.receivingNext': 'Réception du problème suivant...',
+  'home.loadMore': 'Charger les 10 problèmes suivants',
+  'suggestions.pin': 'Épingler : garder en tête et approfondir',
+  'suggestions.unpin': 'Désépingler',
+  'suggestions.dismiss': 'Écarter comme non pertinent',
+  'suggestions.regenerate': 'Régénérer cette carte',
+  'suggestions.regenerateError': 'Impossible de régénérer cette carte. Réessayez.',
+  'suggestions.dismissedCount': 'Écartées ({count})',
+  'suggestions.restore': 'Restaurer',
+  'dedup.alsoSuggested': 'Fusionné {count}× :',
+  'dedup.repeats': 'Proposé à nouveau {count}×',
+  'dedup.sourcesMerged': '{count} sources en double fusionnées',
+
+  'modal.kicker': 'Analyse détaillée',
+  'modal.analysis': 'Analyse approfondie',
+  'modal.noAnalysis': 'Aucune analyse disponible.',
+  'modal.steps': 'Démarche et étapes',
+  'modal.risks': 'Risques et avertissements',
+  'checklist.progress': 'Progression',
+  'checklist.analysisProgress': 'Avancement du plan',
+  'checklist.markDone': 'Marquer comme fait',
+  'checklist.markTodo': 'Marquer comme non fait',
+  'checklist.status.todo': 'À faire',
+  'checklist.status.in_progress': 'En cours',
+  'checklist.status.done': 'Fait',
+  'checklist.status.skipped': 'Ignorée',
+  'checklist.completedOn': 'Fait le {date}',
+  'checklist.notes': 'Notes',
+  'checklist.notesPlaceholder': 'Notes, numéros de dossier, interlocuteurs…',
+  'checklist.progressCount': '{resolved}/{total} étapes traitées',
+  'checklist.statusLabel': 'Statut',
+  'deadlines.dueDate': 'Échéance',
+  'deadlines.dueOn': 'Échéance le {date}',
+  'deadlines.today': 'Échéance aujourd’hui',
+  'deadlines.inDays': 'Dans {days} jours',
+  'deadlines.overdue': 'En retard de {days} jours',
+  'deadlines.reminder': 'Rappel',
+  'deadlines.noReminder': 'Aucun rappel',
+  'deadlines.remindOnDay': 'Le jour même',
+  'deadlines.remindBefore': '{days} jours avant',
+  'deadlines.propose': 'Proposer des dates',
+  'deadlines.proposeHint': 'L’IA propose des échéances pour les étapes soumises à un délai qui n’en ont pas encore',
+  'deadlines.proposed': 'Proposée',
+  'deadlines.accept': 'Accepter',
+  'deadlines.reason': 'Pourquoi',
+  'deadlines.proposeError': 'Impossible de proposer des échéances. Réessayez.',
+  'deadlines.attention': 'Étapes en retard ou bientôt dues',
+  'deadlines.noDates': 'Aucune étape n’a d’échéance. Définissez d’abord des dates dans les analyses détaillées.',
+
+  'history.empty': 'Aucun historique de recherche',
+  'history.title': 'Historique de débogage',
+  'history.restore': 'Recharger et voir le rapport',
+  'history.results': 'Résultats enregistrés :',
+  'history.detailedBadge': 'DÉTAILLÉ',
+  'history.import': 'Importer',
+  'history.exportJson': 'Exporter en JSON',
+  'history.exportMarkdown': 'Exporter en Markdown',
+  'history.selectAll': 'Tout sélectionner',
+  'history.clearSelection': 'Effacer la sélection',
+  'history.scopeSelected': '{count} sélectionné(s)',
+  'history.scopeAll': 'Tous ({count})',
+  'history.select': 'Sélectionner pour l’export ou la suppression',
+  'history.imported': '{count} analyses importées ({unchanged} déjà présentes).',
+  'history.importNothing': 'Rien de nouveau dans ce paquet.',
+  'history.importError': 'Impossible d’importer ce fichier.',
+  'history.importRejected': '{count} analyses invalides ont été ignorées (voir le journal).',
+  'history.exportError': 'Échec de l’export.',
+  'history.conflictTitle': '{count} analyses importées existent déjà avec un contenu différent.',
+  'history.conflictSkip': 'Garder la mienne',
+  'history.conflictReplace': 'Remplacer',
+  'history.conflictCopy': 'Garder les deux',
+  'history.search': 'Rechercher dans les questions, suggestions et commentaires',
+  'history.starredOnly': 'Favoris',
+  'history.sort.newest': 'Plus récents d’abord',
+  'history.sort.oldest': 'Plus anciens d’abord',
+  'history.sort.mostItems': 'Plus d’éléments',
+  'history.sort.fewestItems': 'Moins d’éléments',
+  'history.star': 'Ajouter aux favoris',
+  'history.unstar': 'Retirer des favoris',
+  'history.delete': 'Supprimer',
+  'history.deleteSelected': 'Supprimer ({count})',
+  'history.deleteConfirm': 'Supprimer {count} analyses ? L’annulation reste possible pendant {seconds} s.',
+  'history.deleteHiddenKept': '{count} analyses sélectionnées masquées par le filtre actuel sont conservées.',
+  'history.deleteConfirmAction': 'Supprimer',
+  'history.deleted': '{count} analyses supprimées.',
+  'history.undo': 'Annuler',
+  'history.addTag': '+ étiquette',
+  'history.removeTag': 'Retirer l’étiquette',
+  'history.noMatch': 'Aucune analyse ne correspond à la recherche.',
+  'history.compare': 'Comparer',
+  'history.compareHint': 'Sélectionnez exactement deux analyses à comparer',
+
+  'compare.title': 'Comparer des analyses',
+  'compare.back': 'Retour à l’historique',
+  'compare.missing': 'Sélectionnez deux analyses dans l’historique pour les comparer.',
+  'compare.before': 'Avant',
+  'compare.after': 'Après',
+  'compare.items': '{count} éléments',
+  'compare.status.unchanged': 'Inchangé',
+  'compare.status.changed': 'Modifié',
+  'compare.status.added': 'Ajouté',
+  'compare.status.removed': 'Supprimé',
+  'compare.showUnchanged': 'Afficher les éléments inchangés',
+  'compare.identical': 'Aucune différence entre les suggestions.',
+  'compare.similarity': 'Similaire à {percent} %',
+  'compare.field.title': 'titre',
+  'compare.field.description': 'description',
+  'compare.field.analysis': 'analyse',
+  'compare.field.steps': 'étapes',
+  'compare.field.risks': 'risques',
+  'compare.detailDiff': 'Voir les différences de l’analyse détaillée',
+  'compare.detailOneSide': 'Analyse détaillée disponible d’un seul côté.',
+
+  'share.copied': 'Lien de partage copié. Toute personne qui l’ouvre voit cette analyse en lecture seule et peut l’importer dans son historique.',
+  'share.tooLarge': 'Cette analyse est trop volumineuse pour un lien ({length} caractères, limite {max}). Envoyez plutôt le paquet JSON ; il s’importe depuis la page Historique.',
+  'share.error': 'Impossible de créer le lien de partage. Vous pouvez envoyer le paquet JSON à la place.',
+  'share.downloadBundle': 'Télécharger le paquet JSON',
+  'shared.loading': 'Ouverture de l’analyse partagée…',
+  'shared.invalid': 'Ce lien de partage est endommagé ou incomplet. Demandez un nouveau lien ou le paquet JSON à l’expéditeur.',
+  'shared.banner': 'Analyse partagée, en lecture seule. Rien n’est enregistré avant l’import.',
+  'shared.import': 'Importer dans mon historique',
+  'shared.open': 'Déjà dans votre historique : l’ouvrir',
+  'shared.conflict': 'Cette analyse est déjà dans votre historique avec un contenu différent, par exemple d’autres analyses détaillées ou questions de suivi.',
+
+  'logs.title': 'Journaux système',
+  'logs.empty': '-- Aucun journal pour l’instant --',
+  'logs.search': 'Rechercher dans les messages et les détails',
+  'logs.range.all': 'Toute la période',
+  'logs.range.15m': '15 dernières minutes',
+  'logs.range.1h': 'Dernière heure',
+  'logs.range.24h': 'Dernières 24 heures',
+  'logs.range.7d': '7 derniers jours',
+  'logs.clearFilters': 'Effacer les filtres',
+  'logs.expandAll': 'Tout déplier',
+  'logs.collapseAll': 'Tout replier',
+  'logs.details': 'Détails',
+  'logs.exportHint': 'Exporte les entrées correspondant aux filtres',
+  'logs.count': '{shown} sur {total} entrées affichées · les {max} plus récentes sont conservées',
+  'logs.noMatch': '-- Aucune entrée ne correspond aux filtres --',
+
+  'queue.title': 'File de requêtes',
+  'queue.status': '{running} en cours · {pending} en attente',
+  'queue.rpm': '{rpm} req/min',
+  'queue.cooldown': 'Limite de débit atteinte. Reprise dans {seconds}s',
+  'queue.details': 'Analyses détaillées {done}/{total}',
+  'queue.failed': '{count} en échec',
+  'queue.pause': 'Pause',
+  'queue.resume': 'Reprendre',
+  'queue.cancel': 'Annuler',
+  'queue.paused': 'En pause',
+  'queue.cancelled': 'Génération automatique annulée. {count} analyses détaillées manquent.',
+
+  'usage.title': 'Consommation de tokens et coût',
+  'usage.empty': 'Aucune consommation enregistrée. Les tokens apparaîtront après le prochain appel IA.',
+  'usage.thisAnalysis': 'Cette analyse',
+  'usage.calls': 'Appels',
+  'usage.callCount': '{count} appels',
+  'usage.promptTokens': 'Tokens en entrée',
+  'usage.outputTokens': 'Tokens en sortie',
+  'usage.tokensInOut': '{input} en entrée · {output} en sortie',
+  'usage.cost': 'Coût estimé',
+  'usage.avgLatency': 'Latence moy.',
+  'usage.unpriced': '{count} appels sans tarif',
+  'usage.daily': '{days} derniers jours',
+  'usage.byModel': 'Par modèle',
+  'usage.model': 'Modèle',
+  'usage.input': 'Entrée',
+  'usage.output': 'Sortie',
+  'usage.prices': 'Tarifs (USD par million de tokens)',
+  'usage.modelPrefix': 'Préfixe du nom de modèle',
+  'usage.addPrice': 'Ajouter un modèle',
+  'usage.resetPrices': 'Rétablir les valeurs par défaut',
+  'usage.removePrice': 'Supprimer',
+
+  'report.empty': 'Aucune analyse. Revenez à la page « Débogueur » et soumettez un problème.',
+  'report.toolbar': 'Rapport de synthèse',
+  'report.toolbar.share': 'Copier le lien de partage',
+  'report.toolbar.copy': 'Copier le texte',
+  'report.toolbar.pdf': 'Télécharger le PDF',
+  'report.toolbar.docx': 'Télécharger en Word (.docx)',
+  'report.toolbar.calendar': 'Exporter le calendrier (.ics)',
+  'report.toolbar.print': 'Imprimer',
+  'report.pdfError': 'Échec de la génération du PDF.',
+  'report.docxError': 'Échec de l’export Word.',
+  'report.fileSlug': 'synthese',
+  'report.autoGenerating': 'GÉNÉRATION AUTOMATIQUE...',
+  'report.freeTierHit': 'Limite gratuite atteinte : pause pour respecter le quota de l’API...',
+  'report.title': 'RAPPORT DE SYNTHÈSE',
+  'report.copyTitle': 'RAPPORT DE SYNTHÈSE',
+  'report.generatedBy': 'Contenu généré par LifeDebugger',
+  'report.subject': 'Sujet',
+  'report.date': 'Date',
+  'report.persona': 'Persona',
+  'report.personaLevel': '{persona} · niveau {level}/3',
+  'report.attachments': 'Pièces jointes analysées',
+  'report.fetchedAt': '{name} (récupéré le {date})',
+  'report.toc': 'TABLE DES MATIÈRES',
+  'report.toc.analysis': 'ANALYSE GÉNÉRALE',
+  'report.toc.details': 'RAPPORT DÉTAILLÉ',
+  'report.toc.prompt': 'PROMPT & CONSEILS IA',
+  'report.toc.references': 'RÉFÉRENCES',
+  'report.toc.followUp': 'QUESTIONS DE SUIVI',
+  'report.section.analysis': 'ANALYSE GÉNÉRALE & ÉVALUATION',
+  'report.section.details': 'RAPPORT DÉTAILLÉ DES PROBLÈMES',
+  'report.section.prompt': 'PROMPT ENGINEERING & CONSEILS IA',
+  'report.section.references': 'RÉFÉRENCES & SOURCES',
+  'report.section.followUp': 'QUESTIONS DE SUIVI',
+  'report.analysisGuide': 'Analyse & guide',
+  'report.actionableSteps': 'Étapes concrètes :',
+  'report.risk': 'Risque :',
+  'report.waiting': 'En attente de l’analyse...',
+  'report.recommendedModel': 'Modèle d’IA recommandé :',
+  'report.optimizedPrompt': 'Prompt système optimisé :',
+  'report.promptPending': 'Analyse des besoins du prompt...',
+  'report.generalKnowledge': 'Synthèse de connaissances générales.',
+  'report.question': 'Q :',
+  'report.answer': 'R :',
+  'report.footer': 'Rapport généré par l’outil d’analyse LifeDebugger AI.',
+
+  'docs.title': 'Manuel d’utilisation',
+  'docs.confirmTitle': 'Confirmation du besoin',
+  'docs.confirmIntro': 'Le système a interprété votre idée ainsi :',
+  'docs.confirm.goal': 'Objectif : une application web recevant une question (vie/droit/construction) -> Résultat : 10 suggestions liées.',
+  'docs.confirm.features': 'Fonctions : chargement supplémentaire (pagination), commentaire humoristique et mordant (Code Note).',
+  'docs.confirm.pages': 'Pages : Recherche, Historique, Journaux, Guide.',
+  'docs.confirm.ux': 'UX : mise à jour automatique, multilingue (VI par défaut), impression/copie.',
+  'docs.workflowTitle': 'Fonctionnement',
+  'docs.step1.title': 'Saisie',
+  'docs.step1.desc': 'Saisissez n’importe quel problème : « permis de construire », « patron toxique », « loi foncière »...',
+  'docs.step2.title': 'Analyse IA',
+  'docs.step2.desc': 'Le système appelle l’API Gemini pour lister 10 problèmes liés et rédiger un « Code Note ».',
+  'docs.step3.title': 'Résultat & approfondissement',
+  'docs.step3.desc': 'Consultez les résultats, riez du commentaire et cliquez sur « Charger plus » pour creuser.',
+  'docs.featuresTitle': 'Fonctionnalités détaillées',
+  'docs.feature.codeNote': 'Permet à l’IA d’être mordante et subjective. Pas exacte à 100 %, elle mise sur l’humour et la franchise.',
+  'docs.feature.autoUpdate': 'Interface réactive instantanée (React State) sans rechargement de page.',
+  'docs.feature.print': 'Impression sur papier A4 ou enregistrement en PDF pour une lecture hors ligne.',
+};
@@ -0,0 +1,307 @@
+import { Messages } from '../types';
+
+export const ja: Messages = {
+  'common.close': '閉じる',
+  'common.page': '{page} / {total} ページ',
+  'common.cancel': 'キャンセル',
+  'common.pdfNoCjk': 'PDF出力には日本語・韓国語フォントがありません。印刷から「PDFに保存」を選んでください。',
+
+  'nav.home': 'デバッガー',
+  'nav.report': 'レポート',
+  'nav.history': '履歴',
+  'nav.docs': 'ガイド',
+  'nav.logs': 'システムログ',
+  'sidebar.language': '言語',
+
+  'print.copy': 'コピー',
+  'print.copyTitle': '内容をコピー',
+  'print.pdf': 'PDF',
+  'print.pdfTitle': 'PDFをダウンロード',
+  'print.pdfError': 'PDFの生成に失敗しました',
+  'print.print': '印刷',
+  'print.printTitle': 'A4で印刷',
+
+  'persona.label': 'ペルソナ:',
+  'persona.intensity': '強さ',
+  'persona.intensityLabel': '強さ:',
+  'persona.lawyer': '弁護士（フォーマル）',
+  'persona.mentor': 'メンター（フレンドリー）',
+  'persona.roast': '毒舌ロースト',
+  'persona.analyst': 'アナリスト（中立）',
+  'persona.lawyer.commentary': '法的見解',
+  'persona.mentor.commentary': 'メンターからのひとこと',
+  'persona.roast.commentary': '専門家の辛口コメント',
+  'persona.analyst.commentary': 'アナリストノート',
+
+  'followUp.title': 'フォローアップ質問',
+  'followUp.empty': 'この問題についてさらに質問できます。元の質問、問題リスト、取得済みの詳細分析がコンテキストとして使われます。',
+  'followUp.thinking': '考え中...',
+  'followUp.placeholder': '例: 3番にはどんな書類が必要？',
+  'followUp.error': '質問に回答できませんでした',
+
+  'home.title': 'あなたの問題を入力',
+  'home.subtitle': '建設、法律、仕事など。必要なら画像や資料を添付してください。',
+  'home.placeholder': '問題を入力（例: 2025年土地法）...',
+  'home.send': '送信',
+  'home.stop': '停止',
+  'home.stopHint': 'この分析を停止します。Enterで入力中のクエリに置き換えます。',
+  'home.attachTitle': 'ファイル/リンクを添付',
+  'home.uploadMedia': 'メディア/PDFをアップロード',
+  'home.pasteLink': 'リンクURLを貼り付け',
+  'home.attachmentsSummary': '{count} 件 · {used} / {budget}',
+  'home.budgetExceeded': '合計サイズの上限（{budget}）を超えました: {files}',
+  'home.linkChars': '{count} 文字',
+  'home.linkFetchFailed': '内容を取得できませんでした。URLのみ送信します',
+  'home.streamInterrupted': 'ストリームが中断されました。受信済みの {count} 件を保持しています。',
+  'home.detailError': '詳細の読み込みに失敗しました',
+  'home.systemError': 'システムエラー',
+  'home.status.streaming': 'ステータス: ストリーミング中...',
+  'home.status.partial': 'ステータス: 一部のみ（ストリーム中断）',
+  'home.status.complete': 'ステータス: 分析完了',
+  'home.reportReady': 'エグゼクティブレポートの準備完了',
+  'home.viewReport': 'レポートを見る',
+  'home.writingCommentary': 'コメントを作成中...',
+  'home.sources': 'データソース / 参考資料:',
+  'home.sourcesNone': 'ソース: 一般知識',
+  'home.issuesTitle': '関連する問題',
+  'home.count': '件数: {count}',
+  'home.detailsBadge': '詳細あり',
+  'home.viewDeepDive': '詳細を見る',
+  'home.receivingNext': '次の問題を受信中...',
+  'home.loadMore': '次の10件を読み込む',
+  'suggestions.pin': 'ピン留め：先頭に固定し、この方向で深掘り',
+  'suggestions.unpin': 'ピン留めを外す',
+  'suggestions.dismiss': '無関係として除外',
+  'suggestions.regenerate': 'このカードを再生成',
+  'suggestions.regenerateError': 'このカードを再生成できませんでした。もう一度お試しください。',
+  'suggestions.dismissedCount': '除外済み（{count}）',
+  'suggestions.restore': '元に戻す',
+  'dedup.alsoSuggested': '統合 {count}件:',
+  'dedup.repeats': '再提案 {count}件',
+  'dedup.sourcesMerged': '重複した出典 {count}件を統合',
+
+  'modal.kicker': '問題の詳細分析',
+  'modal.analysis': '詳細分析',
+  'modal.noAnalysis': '分析はまだありません。',
+  'modal.steps': 'ワークフローと手順',
+  'modal.risks': 'リスクと警告',
+  'checklist.progress': '進捗',
+  'checklist.analysisProgress': '計画の進捗',
+  'checklist.markDone': '完了にする',
+  'checklist.markTodo': '未完了に戻す',
+  'checklist.status.todo': '未着手',
+  'checklist.status.in_progress': '進行中',
+  'checklist.status.done': '完了',
+  'checklist.status.skipped': 'スキップ',
+  'checklist.completedOn': '{date} 完了',
+  'checklist.notes': 'メモ',
+  'checklist.notesPlaceholder': 'メモ、受付番号、担当者など…',
+  'checklist.progressCount': '{total} ステップ中 {resolved} 件対応済み',
+  'checklist.statusLabel': 'ステータス',
+  'deadlines.dueDate': '期限',
+  'deadlines.dueOn': '期限 {date}',
+  'deadlines.today': '今日が期限',
+  'deadlines.inDays': 'あと {days} 日',
+  'deadlines.overdue': '{days} 日超過',
+  'deadlines.reminder': 'リマインダー',
+  'deadlines.noReminder': 'リマインダーなし',
+  'deadlines.remindOnDay': '当日',
+  'deadlines.remindBefore': '{days} 日前',
+  'deadlines.propose': '期限を提案',
+  'deadlines.proposeHint': '期限のあるステップのうち未設定のものに、AI が期限を提案します',
+  'deadlines.proposed': '提案',
+  'deadlines.accept': '確定',
+  'deadlines.reason': '根拠',
+  'deadlines.proposeError': '期限を提案できませんでした。もう一度お試しください。',
+  'deadlines.attention': '期限切れまたは期限間近のステップ',
+  'deadlines.noDates': '期限が設定されたステップがありません。先に詳細分析で期限を設定してください。',
+
+  'history.empty': '検索履歴はまだありません',
+  'history.title': 'デバッグ履歴',
+  'history.restore': '再読み込みしてレポート表示',
+  'history.results': '記録された結果:',
+  'history.detailedBadge': '詳細あり',
+  'history.import': 'インポート',
+  'history.exportJson': 'JSONでエクスポート',
+  'history.exportMarkdown': 'Markdownでエクスポート',
+  'history.selectAll': 'すべて選択',
+  'history.clearSelection': '選択を解除',
+  'history.scopeSelected': '{count} 件選択中',
+  'history.scopeAll': '全 {count} 件',
+  'history.select': 'エクスポート・削除の対象にする',
+  'history.imported': '{count} 件の分析をインポートしました（既存 {unchanged} 件）。',
+  'history.importNothing': 'このバンドルに新しい内容はありません。',
+  'history.importError': 'このファイルをインポートできませんでした。',
+  'history.importRejected': '無効な分析 {count} 件をスキップしました（ログを参照）。',
+  'history.exportError': 'エクスポートに失敗しました。',
+  'history.conflictTitle': '{count} 件の分析が異なる内容ですでに存在します。',
+  'history.conflictSkip': '既存を保持',
+  'history.conflictReplace': '置き換え',
+  'history.conflictCopy': '両方保持',
+  'history.search': '質問・提案・コメントを検索',
+  'history.starredOnly': 'スター付き',
+  'history.sort.newest': '新しい順',
+  'history.sort.oldest': '古い順',
+  'history.sort.mostItems': '項目が多い順',
+  'history.sort.fewestItems': '項目が少ない順',
+  'history.star': 'スターを付ける',
+  'history.unstar': 'スターを外す',
+  'history.delete': '削除',
+  'history.deleteSelected': '{count} 件を削除',
+  'history.deleteConfirm': '{count} 件の分析を削除しますか？ {seconds} 秒間は元に戻せます。',
+  'history.deleteHiddenKept': '現在のフィルターで非表示の選択済み {count} 件は削除されません。',
+  'history.deleteConfirmAction': '削除',
+  'history.deleted': '{count} 件の分析を削除しました。',
+  'history.undo': '元に戻す',
+  'history.addTag': '+ タグ',
+  'history.removeTag': 'タグを外す',
+  'history.noMatch': '一致する分析はありません。',
+  'history.compare': '比較',
+  'history.compareHint': '比較するには分析をちょうど 2 件選択してください',
+
+  'compare.title': '分析の比較',
+  'compare.back': '履歴に戻る',
+  'compare.missing': '履歴で 2 件の分析を選択して比較してください。',
+  'compare.before': '変更前',
+  'compare.after': '変更後',
+  'compare.items': '{count} 項目',
+  'compare.status.unchanged': '変更なし',
+  'compare.status.changed': '変更あり',
+  'compare.status.added': '追加',
+  'compare.status.removed': '削除',
+  'compare.showUnchanged': '変更なしの項目を表示',
+  'compare.identical': '提案に違いはありません。',
+  'compare.similarity': '類似度 {percent}%',
+  'compare.field.title': 'タイトル',
+  'compare.field.description': '説明',
+  'compare.field.analysis': '分析',
+  'compare.field.steps': '手順',
+  'compare.field.risks': 'リスク',
+  'compare.detailDiff': '詳細分析の差分を表示',
+  'compare.detailOneSide': '詳細分析は片方にのみあります。',
+
+  'share.copied': '共有リンクをコピーしました。開いた人はこの分析を閲覧専用で表示し、自分の履歴に取り込めます。',
+  'share.tooLarge': 'この分析はリンクにするには大きすぎます ({length} 文字、上限 {max})。代わりに JSON バンドルを送ってください。履歴ページで取り込めます。',
+  'share.error': '共有リンクを作成できませんでした。代わりに JSON バンドルを送れます。',
+  'share.downloadBundle': 'JSON バンドルをダウンロード',
+  'shared.loading': '共有された分析を開いています…',
+  'shared.invalid': 'この共有リンクは壊れているか不完全です。送信者に新しいリンクか JSON バンドルを依頼してください。',
+  'shared.banner': '共有された分析 (閲覧専用)。取り込むまで何も保存されません。',
+  'shared.import': '履歴に取り込む',
+  'shared.open': '履歴にあります: 開く',
+  'shared.conflict': 'この分析は内容の異なる版が既に履歴にあります（深掘りやフォローアップが異なるなど）。',
+
+  'logs.title': 'システムログ',
+  'logs.empty': '-- ログはまだありません --',
+  'logs.search': 'メッセージと詳細を検索',
+  'logs.range.all': 'すべての期間',
+  'logs.range.15m': '過去 15 分',
+  'logs.range.1h': '過去 1 時間',
+  'logs.range.24h': '過去 24 時間',
+  'logs.range.7d': '過去 7 日間',
+  'logs.clearFilters': 'フィルターをクリア',
+  'logs.expandAll': 'すべて展開',
+  'logs.collapseAll': 'すべて折りたたむ',
+  'logs.details': '詳細',
+  'logs.exportHint': 'フィルターに一致するエントリをエクスポートします',
+  'logs.count': '{total} 件中 {shown} 件を表示 · 最新 {max} 件を保持',
+  'logs.noMatch': '-- フィルターに一致するエントリはありません --',
+
+  'queue.title': 'リクエストキュー',
+  'queue.status': '実行中 {running} · 待機中 {pending}',
+  'queue.rpm': '{rpm} 件/分',
+  'queue.cooldown': 'レート制限中。{seconds}秒後に再開',
+  'queue.details': '詳細分析 {done}/{total}',
+  'queue.failed': '{count} 件失敗',
+  'queue.pause': '一時停止',
+  'queue.resume': '再開',
+  'queue.cancel': 'キャンセル',
+  'queue.paused': '一時停止中',
+  'queue.cancelled': '自動生成をキャンセルしました。詳細分析が {count} 件不足しています。',
+
+  'usage.title': 'トークン使用量とコスト',
+  'usage.empty': '使用記録はまだありません。次の AI 呼び出し後にトークン数が表示されます。',
+  'usage.thisAnalysis': 'この分析',
+  'usage.calls': '呼び出し',
+  'usage.callCount': '{count} 回の呼び出し',
+  'usage.promptTokens': '入力トークン',
+  'usage.outputTokens': '出力トークン',
+  'usage.tokensInOut': '入力 {input} · 出力 {output}',
+  'usage.cost': '推定コスト',
+  'usage.avgLatency': '平均レイテンシ',
+  'usage.unpriced': '{count} 件の呼び出しに価格設定がありません',
+  'usage.daily': '過去 {days} 日',
+  'usage.byModel': 'モデル別',
+  'usage.model': 'モデル',
+  'usage.input': '入力',
+  'usage.output': '出力',
+  'usage.prices': '価格 (100万トークンあたり USD)',
+  'usage.modelPrefix': 'モデル名の接頭辞',
+  'usage.addPrice': 'モデルを追加',
+  'usage.resetPrices': '既定値に戻す',
+  'usage.removePrice': '削除',
+
+  'report.empty': '分析データがありません。「デバッガー」ページに戻って問題を送信してください。',
+  'report.toolbar': 'エグゼクティブレポート',
+  'report.toolbar.share': '共有リンクをコピー',
+  'report.toolbar.copy': 'テキストをコピー',
+  'report.toolbar.pdf': 'PDFをダウンロード',
+  'report.toolbar.docx': 'Word (.docx) をダウンロード',
+  'report.toolbar.calendar': 'カレンダーを書き出す (.ics)',
+  'report.toolbar.print': '印刷',
+  'report.pdfError': 'PDFの生成に失敗しました。',
+  'report.docxError': 'Wordファイルの生成に失敗しました。',
+  'report.fileSlug': 'summary',
+  'report.autoGenerating': '自動生成中...',
+  'report.freeTierHit': '無料枠の上限に達しました: APIクォータのため一時停止中...',
+  'report.title': 'エグゼクティブレポート',
+  'report.copyTitle': 'エグゼクティブサマリーレポート',
+  'report.generatedBy': 'LifeDebugger により生成',
+  'report.subject': '件名',
+  'report.date': '日付',
+  'report.persona': 'ペルソナ',
+  'report.personaLevel': '{persona} · レベル {level}/3',
+  'report.attachments': '分析した添付資料',
+  'report.fetchedAt': '{name}（{date} に取得）',
+  'report.toc': '目次',
+  'report.toc.analysis': '総合分析',
+  'report.toc.details': '詳細レポート',
+  'report.toc.prompt': 'プロンプトとAIのアドバイス',
+  'report.toc.references': '参考資料',
+  'report.toc.followUp': 'フォローアップQ&A',
+  'report.section.analysis': '総合分析と評価',
+  'report.section.details': '各問題の詳細レポート',
+  'report.section.prompt': 'プロンプトエンジニアリングとAIのアドバイス',
+  'report.section.references': '参考資料と出典',
+  'report.section.followUp': 'フォローアップQ&A',
+  'report.analysisGuide': '分析とガイド',
+  'report.actionableSteps': '実行手順:',
+  'report.risk': 'リスク:',
+  'report.waiting': '分析待ち...',
+  'report.recommendedModel': '推奨AIモデル:',
+  'report.optimizedPrompt': '最適化されたシステムプロンプト:',
+  'report.promptPending': 'プロンプト要件を分析中...',
+  'report.generalKnowledge': '一般知識に基づくまとめ。',
+  'report.question': 'Q:',
+  'report.answer': 'A:',
+  'report.footer': 'LifeDebugger AI 分析ツールにより生成されたレポート。',
+
+  'docs.title': 'ユーザーマニュアル',
+  'docs.confirmTitle': '要件の確認',
+  'docs.confirmIntro': 'システムはあなたのアイデアを次のように理解しました:',
+  'docs.confirm.goal': '目的: 入力（生活/法律/建設）を受け付けるWebアプリ -> 出力: 関連する提案10件。',
+  'docs.confirm.features': '機能: さらに読み込む（ページング）、ユーモアのある辛口コメント（Code Note）。',
+  'docs.confirm.pages': 'ページ: 検索、履歴、ログ、ガイド。',
+  'docs.confirm.ux': 'UX: 自動更新、多言語対応（既定はVI）、印刷/コピー。',
+  'docs.workflowTitle': 'ワークフロー',
+  'docs.step1.title': 'データ入力',
+  'docs.step1.desc': 'どんな問題でも入力: 「建築許可」「厳しい上司」「土地法」...',
+  'docs.step2.title': 'AI分析',
+  'docs.step2.desc': 'システムがGemini APIを呼び出し、関連する問題を10件挙げて「Code Note」のレビューを書きます。',
+  'docs.step3.title': '結果と拡張',
+  'docs.step3.desc': '結果を確認し、コメントを楽しみ、さらに深掘りするには「さらに読み込む」をクリック。',
+  'docs.featuresTitle': '機能の詳細',
+  'docs.feature.codeNote': 'AIが辛口で主観的に評価します。正確さは100%ではなく、ユーモアと率直さを重視しています。',
+  'docs.feature.autoUpdate': 'ページを再読み込みせずに画面が即座に反応します（React State）。',
+  'docs.feature.print': 'A4用紙への印刷や、オフラインで読むためのPDF保存ができます。',
+};
@@ -0,0 +1,307 @@
+import { Messages } from '../types';
+
+export const ko: Messages = {
+  'common.close': '닫기',
+  'common.page': '{page} / {total} 페이지',
+  'common.cancel': '취소',
+  'common.pdfNoCjk': 'PDF 내보내기에는 일본어·한국어 글꼴이 없습니다. 인쇄에서 “PDF로 저장”을 선택하세요.',
+
+  'nav.home': '디버거',
+  'nav.report': '보고서',
+  'nav.history': '기록',
+  'nav.docs': '가이드',
+  'nav.logs': '시스템 로그',
+  'sidebar.language': '언어',
+
+  'print.copy': '복사',
+  'print.copyTitle': '내용 복사',
+  'print.pdf': 'PDF',
+  'print.pdfTitle': 'PDF 다운로드',
+  'print.pdfError': 'PDF 생성 오류',
+  'print.print': '인쇄',
+  'print.printTitle': 'A4 인쇄',
+
+  'persona.label': '페르소나:',
+  'persona.intensity': '강도',
+  'persona.intensityLabel': '강도:',
+  'persona.lawyer': '변호사 (격식)',
+  'persona.mentor': '멘토 (친근)',
+  'persona.roast': '독설 로스트',
+  'persona.analyst': '분석가 (중립)',
+  'persona.lawyer.commentary': '법률 의견',
+  'persona.mentor.commentary': '멘토 노트',
+  'persona.roast.commentary': '전문가 독설',
+  'persona.analyst.commentary': '분석 노트',
+
+  'followUp.title': '추가 질문',
+  'followUp.empty': '이 문제에 대해 더 물어보세요. 원래 질문, 문제 목록, 가져온 상세 분석이 맥락으로 사용됩니다.',
+  'followUp.thinking': '생각 중...',
+  'followUp.placeholder': '예: 3번 항목에는 어떤 서류가 필요한가요?',
+  'followUp.error': '질문에 답변하지 못했습니다',
+
+  'home.title': '문제를 입력하세요',
+  'home.subtitle': '건설, 법률, 업무... 필요하면 이미지/문서를 첨부하세요.',
+  'home.placeholder': '문제 설명 (예: 2025 토지법)...',
+  'home.send': '보내기',
+  'home.stop': '중지',
+  'home.stopHint': '이 분석을 중지합니다. Enter를 누르면 입력한 질문으로 바꿉니다.',
+  'home.attachTitle': '파일/링크 첨부',
+  'home.uploadMedia': '미디어/PDF 업로드',
+  'home.pasteLink': '링크 URL 붙여넣기',
+  'home.attachmentsSummary': '{count}개 · {used} / {budget}',
+  'home.budgetExceeded': '전체 용량 한도({budget})를 초과했습니다: {files}',
+  'home.linkChars': '{count}자',
+  'home.linkFetchFailed': '내용을 가져오지 못했습니다. URL만 전송합니다',
+  'home.streamInterrupted': '스트림이 중단되었습니다. 지금까지 받은 {count}개 항목을 유지합니다.',
+  'home.detailError': '상세 정보를 불러오지 못했습니다',
+  'home.systemError': '시스템 오류',
+  'home.status.streaming': '상태: 스트리밍 중...',
+  'home.status.partial': '상태: 일부 결과 (스트림 중단)',
+  'home.status.complete': '상태: 분석 완료',
+  'home.reportReady': '종합 보고서 준비 완료',
+  'home.viewReport': '보고서 보기',
+  'home.writingCommentary': '코멘트 작성 중...',
+  'home.sources': '데이터 출처 / 참고 자료:',
+  'home.sourcesNone': '출처: 일반 지식',
+  'home.issuesTitle': '관련 문제 목록',
+  'home.count': '개수: {count}',
+  'home.detailsBadge': '상세',
+  'home.viewDeepDive': '상세 분석 보기',
+  'home.receivingNext': '다음 문제 수신 중...',
+  'home.loadMore': '다음 10개 문제 불러오기',
+  'suggestions.pin': '고정: 맨 위에 두고 이 방향으로 확장',
+  'suggestions.unpin': '고정 해제',
+  'suggestions.dismiss': '관련 없음으로 제외',
+  'suggestions.regenerate': '이 카드 다시 생성',
+  'suggestions.regenerateError': '이 카드를 다시 생성하지 못했습니다. 다시 시도하세요.',
+  'suggestions.dismissedCount': '제외됨 ({count})',
+  'suggestions.restore': '복원',
+  'dedup.alsoSuggested': '병합 {count}건:',
+  'dedup.repeats': '다시 제안됨 {count}건',
+  'dedup.sourcesMerged': '중복 출처 {count}건 병합',
+
+  'modal.kicker': '문제 상세 분석',
+  'modal.analysis': '심층 분석',
+  'modal.noAnalysis': '분석 내용이 없습니다.',
+  'modal.steps': '절차 및 단계',
+  'modal.risks': '위험 및 경고',
+  'checklist.progress': '진행률',
+  'checklist.analysisProgress': '계획 진행률',
+  'checklist.markDone': '완료로 표시',
+  'checklist.markTodo': '미완료로 표시',
+  'checklist.status.todo': '할 일',
+  'checklist.status.in_progress': '진행 중',
+  'checklist.status.done': '완료',
+  'checklist.status.skipped': '건너뜀',
+  'checklist.completedOn': '{date} 완료',
+  'checklist.notes': '메모',
+  'checklist.notesPlaceholder': '메모, 접수 번호, 연락한 담당자 등…',
+  'checklist.progressCount': '{total}단계 중 {resolved}단계 처리',
+  'checklist.statusLabel': '상태',
+  'deadlines.dueDate': '마감일',
+  'deadlines.dueOn': '마감 {date}',
+  'deadlines.today': '오늘 마감',
+  'deadlines.inDays': '{days}일 남음',
+  'deadlines.overdue': '{days}일 지남',
+  'deadlines.reminder': '알림',
+  'deadlines.noReminder': '알림 없음',
+  'deadlines.remindOnDay': '당일',
+  'deadlines.remindBefore': '{days}일 전',
+  'deadlines.propose': '마감일 제안',
+  'deadlines.proposeHint': '기한이 있는 단계 중 날짜가 없는 단계에 AI가 마감일을 제안합니다',
+  'deadlines.proposed': '제안됨',
+  'deadlines.accept': '확정',
+  'deadlines.reason': '근거',
+  'deadlines.proposeError': '마감일을 제안하지 못했습니다. 다시 시도하세요.',
+  'deadlines.attention': '기한이 지났거나 임박한 단계',
+  'deadlines.noDates': '마감일이 있는 단계가 없습니다. 먼저 상세 분석에서 날짜를 설정하세요.',
+
+  'history.empty': '아직 검색 기록이 없습니다',
+  'history.title': '디버그 기록',
+  'history.restore': '다시 불러와 보고서 보기',
+  'history.results': '기록된 결과:',
+  'history.detailedBadge': '상세',
+  'history.import': '가져오기',
+  'history.exportJson': 'JSON 내보내기',
+  'history.exportMarkdown': 'Markdown 내보내기',
+  'history.selectAll': '전체 선택',
+  'history.clearSelection': '선택 해제',
+  'history.scopeSelected': '{count}개 선택됨',
+  'history.scopeAll': '전체 {count}개',
+  'history.select': '내보내기 또는 삭제 선택',
+  'history.imported': '분석 {count}개를 가져왔습니다 (이미 있음 {unchanged}개).',
+  'history.importNothing': '이 번들에 새로운 내용이 없습니다.',
+  'history.importError': '이 파일을 가져올 수 없습니다.',
+  'history.importRejected': '유효하지 않은 분석 {count}개를 건너뛰었습니다 (로그 참조).',
+  'history.exportError': '내보내기에 실패했습니다.',
+  'history.conflictTitle': '가져온 분석 {count}개가 다른 내용으로 이미 존재합니다.',
+  'history.conflictSkip': '기존 유지',
+  'history.conflictReplace': '바꾸기',
+  'history.conflictCopy': '둘 다 유지',
+  'history.search': '질문, 제안, 코멘트 검색',
+  'history.starredOnly': '별표',
+  'history.sort.newest': '최신순',
+  'history.sort.oldest': '오래된순',
+  'history.sort.mostItems': '항목 많은순',
+  'history.sort.fewestItems': '항목 적은순',
+  'history.star': '별표 추가',
+  'history.unstar': '별표 해제',
+  'history.delete': '삭제',
+  'history.deleteSelected': '{count}개 삭제',
+  'history.deleteConfirm': '분석 {count}개를 삭제할까요? {seconds}초 동안 실행 취소할 수 있습니다.',
+  'history.deleteHiddenKept': '현재 필터로 숨겨진 선택 항목 {count}개는 삭제되지 않습니다.',
+  'history.deleteConfirmAction': '삭제',
+  'history.deleted': '분석 {count}개를 삭제했습니다.',
+  'history.undo': '실행 취소',
+  'history.addTag': '+ 태그',
+  'history.removeTag': '태그 제거',
+  'history.noMatch': '일치하는 분석이 없습니다.',
+  'history.compare': '비교',
+  'history.compareHint': '비교할 분석을 정확히 두 개 선택하세요',
+
+  'compare.title': '분석 비교',
+  'compare.back': '기록으로 돌아가기',
+  'compare.missing': '기록에서 분석 두 개를 선택해 비교하세요.',
+  'compare.before': '이전',
+  'compare.after': '이후',
+  'compare.items': '{count}개 항목',
+  'compare.status.unchanged': '변경 없음',
+  'compare.status.changed': '변경됨',
+  'compare.status.added': '추가됨',
+  'compare.status.removed': '삭제됨',
+  'compare.showUnchanged': '변경 없는 항목 표시',
+  'compare.identical': '제안 사이에 차이가 없습니다.',
+  'compare.similarity': '{percent}% 유사',
+  'compare.field.title': '제목',
+  'compare.field.description': '설명',
+  'compare.field.analysis': '분석',
+  'compare.field.steps': '단계',
+  'compare.field.risks': '위험',
+  'compare.detailDiff': '상세 분석 차이 보기',
+  'compare.detailOneSide': '상세 분석이 한쪽에만 있습니다.',
+
+  'share.copied': '공유 링크를 복사했습니다. 링크를 연 사람은 이 분석을 읽기 전용으로 보고 자신의 기록으로 가져올 수 있습니다.',
+  'share.tooLarge': '이 분석은 링크로 보내기에 너무 큽니다 ({length}자, 제한 {max}). 대신 JSON 번들을 보내세요. 기록 페이지에서 가져올 수 있습니다.',
+  'share.error': '공유 링크를 만들 수 없습니다. 대신 JSON 번들을 보낼 수 있습니다.',
+  'share.downloadBundle': 'JSON 번들 다운로드',
+  'shared.loading': '공유된 분석을 여는 중…',
+  'shared.invalid': '공유 링크가 손상되었거나 불완전합니다. 보낸 사람에게 새 링크나 JSON 번들을 요청하세요.',
+  'shared.banner': '공유된 분석 (읽기 전용). 가져오기 전까지 아무것도 저장되지 않습니다.',
+  'shared.import': '내 기록으로 가져오기',
+  'shared.open': '이미 기록에 있음: 열기',
+  'shared.conflict': '이 분석은 내용이 다른 버전이 이미 기록에 있습니다(심층 분석이나 후속 질문이 다른 경우 등).',
+
+  'logs.title': '시스템 로그',
+  'logs.empty': '-- 기록된 로그가 없습니다 --',
+  'logs.search': '메시지와 세부 정보 검색',
+  'logs.range.all': '전체 기간',
+  'logs.range.15m': '최근 15분',
+  'logs.range.1h': '최근 1시간',
+  'logs.range.24h': '최근 24시간',
+  'logs.range.7d': '최근 7일',
+  'logs.clearFilters': '필터 지우기',
+  'logs.expandAll': '모두 펼치기',
+  'logs.collapseAll': '모두 접기',
+  'logs.details': '세부 정보',
+  'logs.exportHint': '필터와 일치하는 항목을 내보냅니다',
+  'logs.count': '{total}개 중 {shown}개 표시 · 최신 {max}개 보관',
+  'logs.noMatch': '-- 필터와 일치하는 항목이 없습니다 --',
+
+  'queue.title': '요청 대기열',
+  'queue.status': '실행 중 {running} · 대기 {pending}',
+  'queue.rpm': '분당 {rpm}회',
+  'queue.cooldown': '요청 한도 초과. {seconds}초 후 재개',
+  'queue.details': '상세 분석 {done}/{total}',
+  'queue.failed': '{count}개 실패',
+  'queue.pause': '일시 중지',
+  'queue.resume': '재개',
+  'queue.cancel': '취소',
+  'queue.paused': '일시 중지됨',
+  'queue.cancelled': '자동 생성이 취소되었습니다. 상세 분석 {count}개가 없습니다.',
+
+  'usage.title': '토큰 사용량 및 비용',
+  'usage.empty': '아직 사용 기록이 없습니다. 다음 AI 호출 후 토큰 수가 표시됩니다.',
+  'usage.thisAnalysis': '이 분석',
+  'usage.calls': '호출',
+  'usage.callCount': '호출 {count}회',
+  'usage.promptTokens': '입력 토큰',
+  'usage.outputTokens': '출력 토큰',
+  'usage.tokensInOut': '입력 {input} · 출력 {output}',
+  'usage.cost': '예상 비용',
+  'usage.avgLatency': '평균 지연 시간',
+  'usage.unpriced': '가격이 없는 호출 {count}회',
+  'usage.daily': '최근 {days}일',
+  'usage.byModel': '모델별',
+  'usage.model': '모델',
+  'usage.input': '입력',
+  'usage.output': '출력',
+  'usage.prices': '가격 (100만 토큰당 USD)',
+  'usage.modelPrefix': '모델 이름 접두사',
+  'usage.addPrice': '모델 추가',
+  'usage.resetPrices': '기본값으로 재설정',
+  'usage.removePrice': '삭제',
+
+  'report.empty': '분석 데이터가 없습니다. "디버거" 페이지로 돌아가 문제를 제출하세요.',
+  'report.toolbar': '종합 보고서 보기',
+  'report.toolbar.share': '공유 링크 복사',
+  'report.toolbar.copy': '텍스트 복사',
+  'report.toolbar.pdf': 'PDF 다운로드',
+  'report.toolbar.docx': 'Word (.docx) 다운로드',
+  'report.toolbar.calendar': '캘린더 내보내기 (.ics)',
+  'report.toolbar.print': '인쇄',
+  'report.pdfError': 'PDF 생성에 실패했습니다.',
+  'report.docxError': 'Word 파일 생성에 실패했습니다.',
+  'report.fileSlug': 'summary',
+  'report.autoGenerating': '자동 생성 중...',
+  'report.freeTierHit': '무료 한도 도달: API 할당량을 위해 일시 중지 중...',
+  'report.title': '종합 보고서',
+  'report.copyTitle': '종합 요약 보고서',
+  'report.generatedBy': 'LifeDebugger 생성 콘텐츠',
+  'report.subject': '주제',
+  'report.date': '날짜',
+  'report.persona': '페르소나',
+  'report.personaLevel': '{persona} · 레벨 {level}/3',
+  'report.attachments': '분석한 첨부 자료',
+  'report.fetchedAt': '{name} ({date}에 가져옴)',
+  'report.toc': '목차',
+  'report.toc.analysis': '종합 분석',
+  'report.toc.details': '상세 보고서',
+  'report.toc.prompt': '프롬프트 및 AI 조언',
+  'report.toc.references': '참고 자료',
+  'report.toc.followUp': '추가 질의응답',
+  'report.section.analysis': '종합 분석 및 평가',
+  'report.section.details': '문제별 상세 보고서',
+  'report.section.prompt': '프롬프트 엔지니어링 및 AI 조언',
+  'report.section.references': '참고 자료 및 출처',
+  'report.section.followUp': '추가 질의응답',
+  'report.analysisGuide': '분석 및 가이드',
+  'report.actionableSteps': '실행 단계:',
+  'report.risk': '위험:',
+  'report.waiting': '분석 대기 중...',
+  'report.recommendedModel': '추천 AI 모델:',
+  'report.optimizedPrompt': '최적화된 시스템 프롬프트:',
+  'report.promptPending': '프롬프트 요구 사항 분석 중...',
+  'report.generalKnowledge': '일반 지식을 종합했습니다.',
+  'report.question': 'Q:',
+  'report.answer': 'A:',
+  'report.footer': 'LifeDebugger AI 분석 도구로 생성된 보고서입니다.',
+
+  'docs.title': '사용자 매뉴얼',
+  'docs.confirmTitle': '요구 사항 확인',
+  'docs.confirmIntro': '시스템이 아이디어를 다음과 같이 이해했습니다:',
+  'docs.confirm.goal': '목표: 입력(생활/법률/건설)을 받는 웹 앱 -> 출력: 관련 제안 10개.',
+  'docs.confirm.features': '기능: 더 불러오기(페이지네이션), 유머러스한 독설 코멘트(Code Note).',
+  'docs.confirm.pages': '페이지: 검색, 기록, 로그, 가이드.',
+  'docs.confirm.ux': 'UX: 자동 업데이트, 다국어(기본 VI), 인쇄/복사.',
+  'docs.workflowTitle': '작동 흐름',
+  'docs.step1.title': '데이터 입력',
+  'docs.step1.desc': '어떤 문제든 입력하세요: "건축 허가", "까다로운 상사", "토지법"...',
+  'docs.step2.title': 'AI 분석',
+  'docs.step2.desc': '시스템이 Gemini API를 호출해 관련 문제 10개를 나열하고 "Code Note" 리뷰를 작성합니다.',
+  'docs.step3.title': '결과 및 확장',
+  'docs.step3.desc': '결과를 보고, 코멘트에 웃고, 더 깊이 파고들려면 "더 불러오기"를 누르세요.',
+  'docs.featuresTitle': '상세 기능',
+  'docs.feature.codeNote': 'AI가 거칠고 주관적으로 평가할 수 있습니다. 100% 정확하지는 않으며 유머와 솔직함에 초점을 둡니다.',
+  'docs.feature.autoUpdate': '페이지 새로고침 없이 즉시 반응하는 인터페이스(React State).',
+  'docs.feature.print': 'A4 용지로 인쇄하거나 오프라인 열람용 PDF로 저장할 수 있습니다.',
+};
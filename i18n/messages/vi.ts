@@ -0,0 +1,307 @@
+import { Messages } from '../types';
+
+export const vi: Messages = {
+  'common.close': 'Đóng',
+  'common.page': 'Trang {page} / {total}',
+  'common.cancel': 'Hủy',
+  'common.pdfNoCjk': 'Xuất PDF không có phông tiếng Nhật/Hàn. Hãy dùng In và chọn "Lưu dưới dạng PDF".',
+
+  'nav.home': 'Phân Tích',
+  'nav.report': 'Báo Cáo',
+  'nav.history': 'Lịch Sử',
+  'nav.docs': 'Hướng Dẫn',
+  'nav.logs': 'Logs/Lỗi',
+  'sidebar.language': 'Ngôn ngữ',
+
+  'print.copy': 'Sao chép',
+  'print.copyTitle': 'Sao chép nội dung',
+  'print.pdf': 'PDF',
+  'print.pdfTitle': 'Tải PDF',
+  'print.pdfError': 'Lỗi tạo PDF',
+  'print.print': 'In',
+  'print.printTitle': 'In A4',
+
+  'persona.label': 'Giọng văn:',
+  'persona.intensity': 'Mức độ',
+  'persona.intensityLabel': 'Mức độ:',
+  'persona.lawyer': 'Luật sư (Trang trọng)',
+  'persona.mentor': 'Người hướng dẫn (Thân thiện)',
+  'persona.roast': 'Chém gió (Cà khịa)',
+  'persona.analyst': 'Chuyên viên phân tích (Trung lập)',
+  'persona.lawyer.commentary': 'Ý KIẾN PHÁP LÝ',
+  'persona.mentor.commentary': 'LỜI KHUYÊN',
+  'persona.roast.commentary': 'ĐÁNH GIÁ (CHÉM GIÓ)',
+  'persona.analyst.commentary': 'NHẬN ĐỊNH',
+
+  'followUp.title': 'Hỏi Thêm',
+  'followUp.empty': 'Hỏi tiếp về vấn đề này. AI sẽ dùng truy vấn gốc, danh sách vấn đề và các phân tích chi tiết làm ngữ cảnh.',
+  'followUp.thinking': 'Đang suy nghĩ...',
+  'followUp.placeholder': 'Vd: Mục 3 cần giấy tờ gì?',
+  'followUp.error': 'Không trả lời được câu hỏi',
+
+  'home.title': 'Nhập Vấn Đề Của Bạn',
+  'home.subtitle': 'Xây dựng, luật pháp, công việc... Kèm hình ảnh/tài liệu nếu cần.',
+  'home.placeholder': 'Nhập vấn đề (vd: Luật đất đai 2025)...',
+  'home.send': 'Gửi',
+  'home.stop': 'Dừng',
+  'home.stopHint': 'Dừng phân tích này. Nhấn Enter để thay bằng câu hỏi vừa nhập.',
+  'home.attachTitle': 'Đính kèm File/Link',
+  'home.uploadMedia': 'Upload Media/PDF',
+  'home.pasteLink': 'Gán Link URL',
+  'home.attachmentsSummary': '{count} tệp/link · {used} / {budget}',
+  'home.budgetExceeded': 'Vượt quá dung lượng cho phép ({budget} tổng): {files}',
+  'home.linkChars': '{count} ký tự',
+  'home.linkFetchFailed': 'Không tải được nội dung, chỉ gửi URL',
+  'home.streamInterrupted': 'Kết nối bị ngắt giữa chừng. Đã giữ lại {count} vấn đề đã nhận.',
+  'home.detailError': 'Lỗi tải chi tiết',
+  'home.systemError': 'System Error',
+  'home.status.streaming': 'Status: Streaming...',
+  'home.status.partial': 'Status: Partial (Stream Interrupted)',
+  'home.status.complete': 'Status: Analysis Complete',
+  'home.reportReady': 'Đã có báo cáo tổng hợp',
+  'home.viewReport': 'Xem Báo Cáo',
+  'home.writingCommentary': 'Đang viết nhận xét...',
+  'home.sources': 'Nguồn Dữ Liệu / Tham Khảo:',
+  'home.sourcesNone': 'Nguồn: Kiến thức tổng hợp',
+  'home.issuesTitle': 'Danh Sách Vấn Đề Liên Quan',
+  'home.count': 'count: {count}',
+  'home.detailsBadge': 'Chi tiết',
+  'home.viewDeepDive': 'Xem Chi Tiết',
+  'home.receivingNext': 'Đang nhận vấn đề tiếp theo...',
+  'home.loadMore': 'Tải thêm 10 vấn đề tiếp theo',
+  'suggestions.pin': 'Ghim: giữ lên đầu và phát triển tiếp',
+  'suggestions.unpin': 'Bỏ ghim',
+  'suggestions.dismiss': 'Loại bỏ vì không liên quan',
+  'suggestions.regenerate': 'Tạo lại thẻ này',
+  'suggestions.regenerateError': 'Không thể tạo lại thẻ này. Hãy thử lại.',
+  'suggestions.dismissedCount': 'Đã loại bỏ ({count})',
+  'suggestions.restore': 'Khôi phục',
+  'dedup.alsoSuggested': 'Đã gộp {count}×:',
+  'dedup.repeats': 'Được đề xuất lại {count}×',
+  'dedup.sourcesMerged': 'Đã gộp {count} nguồn trùng lặp',
+
+  'modal.kicker': 'Chi Tiết Vấn Đề',
+  'modal.analysis': 'Phân Tích Chi Tiết',
+  'modal.noAnalysis': 'No analysis available.',
+  'modal.steps': 'Hướng Dẫn / Quy Trình',
+  'modal.risks': 'Rủi Ro & Cảnh Báo',
+  'checklist.progress': 'Tiến độ',
+  'checklist.analysisProgress': 'Tiến độ kế hoạch',
+  'checklist.markDone': 'Đánh dấu đã xong',
+  'checklist.markTodo': 'Đánh dấu chưa xong',
+  'checklist.status.todo': 'Cần làm',
+  'checklist.status.in_progress': 'Đang làm',
+  'checklist.status.done': 'Đã xong',
+  'checklist.status.skipped': 'Bỏ qua',
+  'checklist.completedOn': 'Xong ngày {date}',
+  'checklist.notes': 'Ghi chú',
+  'checklist.notesPlaceholder': 'Ghi chú, số hồ sơ, người đã liên hệ…',
+  'checklist.progressCount': '{resolved}/{total} bước đã xử lý',
+  'checklist.statusLabel': 'Trạng thái',
+  'deadlines.dueDate': 'Hạn chót',
+  'deadlines.dueOn': 'Hạn {date}',
+  'deadlines.today': 'Đến hạn hôm nay',
+  'deadlines.inDays': 'Còn {days} ngày',
+  'deadlines.overdue': 'Quá hạn {days} ngày',
+  'deadlines.reminder': 'Nhắc nhở',
+  'deadlines.noReminder': 'Không nhắc',
+  'deadlines.remindOnDay': 'Đúng ngày',
+  'deadlines.remindBefore': 'Trước {days} ngày',
+  'deadlines.propose': 'Đề xuất hạn',
+  'deadlines.proposeHint': 'Để AI đề xuất hạn chót cho các bước có thời hạn nhưng chưa đặt ngày',
+  'deadlines.proposed': 'Đề xuất',
+  'deadlines.accept': 'Chấp nhận',
+  'deadlines.reason': 'Lý do',
+  'deadlines.proposeError': 'Không thể đề xuất hạn chót. Hãy thử lại.',
+  'deadlines.attention': 'Bước quá hạn hoặc sắp đến hạn',
+  'deadlines.noDates': 'Chưa có bước nào có hạn chót. Hãy đặt ngày trong phần phân tích chi tiết trước.',
+
+  'history.empty': 'Chưa có lịch sử tìm kiếm',
+  'history.title': 'Lịch Sử Debug',
+  'history.restore': 'Tải Lại & Xem Report',
+  'history.results': 'Kết quả ghi nhận:',
+  'history.detailedBadge': 'DETAILED',
+  'history.import': 'Nhập',
+  'history.exportJson': 'Xuất JSON',
+  'history.exportMarkdown': 'Xuất Markdown',
+  'history.selectAll': 'Chọn tất cả',
+  'history.clearSelection': 'Bỏ chọn',
+  'history.scopeSelected': 'Đã chọn {count}',
+  'history.scopeAll': 'Tất cả {count}',
+  'history.select': 'Chọn để xuất hoặc xóa',
+  'history.imported': 'Đã nhập {count} phân tích ({unchanged} đã có sẵn).',
+  'history.importNothing': 'Gói này không có gì mới.',
+  'history.importError': 'Không nhập được tệp này.',
+  'history.importRejected': 'Đã bỏ qua {count} phân tích không hợp lệ (xem nhật ký).',
+  'history.exportError': 'Xuất tệp thất bại.',
+  'history.conflictTitle': '{count} phân tích trong gói đã tồn tại với nội dung khác.',
+  'history.conflictSkip': 'Giữ bản hiện có',
+  'history.conflictReplace': 'Thay thế',
+  'history.conflictCopy': 'Giữ cả hai',
+  'history.search': 'Tìm trong câu hỏi, gợi ý và bình luận',
+  'history.starredOnly': 'Đã gắn sao',
+  'history.sort.newest': 'Mới nhất trước',
+  'history.sort.oldest': 'Cũ nhất trước',
+  'history.sort.mostItems': 'Nhiều mục nhất',
+  'history.sort.fewestItems': 'Ít mục nhất',
+  'history.star': 'Gắn sao',
+  'history.unstar': 'Bỏ gắn sao',
+  'history.delete': 'Xóa',
+  'history.deleteSelected': 'Xóa {count}',
+  'history.deleteConfirm': 'Xóa {count} phân tích? Có thể hoàn tác trong {seconds} giây.',
+  'history.deleteHiddenKept': '{count} phân tích đã chọn đang bị bộ lọc ẩn sẽ được giữ lại.',
+  'history.deleteConfirmAction': 'Xóa',
+  'history.deleted': 'Đã xóa {count} phân tích.',
+  'history.undo': 'Hoàn tác',
+  'history.addTag': '+ thẻ',
+  'history.removeTag': 'Gỡ thẻ',
+  'history.noMatch': 'Không có phân tích nào khớp.',
+  'history.compare': 'So sánh',
+  'history.compareHint': 'Chọn đúng hai phân tích để so sánh',
+
+  'compare.title': 'So sánh phân tích',
+  'compare.back': 'Quay lại lịch sử',
+  'compare.missing': 'Chọn hai phân tích trong Lịch sử để so sánh.',
+  'compare.before': 'Trước',
+  'compare.after': 'Sau',
+  'compare.items': '{count} mục',
+  'compare.status.unchanged': 'Không đổi',
+  'compare.status.changed': 'Đã thay đổi',
+  'compare.status.added': 'Mới thêm',
+  'compare.status.removed': 'Đã bỏ',
+  'compare.showUnchanged': 'Hiện mục không đổi',
+  'compare.identical': 'Các gợi ý không có khác biệt.',
+  'compare.similarity': 'Giống {percent}%',
+  'compare.field.title': 'tiêu đề',
+  'compare.field.description': 'mô tả',
+  'compare.field.analysis': 'phân tích',
+  'compare.field.steps': 'các bước',
+  'compare.field.risks': 'rủi ro',
+  'compare.detailDiff': 'Xem khác biệt phân tích chi tiết',
+  'compare.detailOneSide': 'Chỉ một bên có phân tích chi tiết.',
+
+  'share.copied': 'Đã sao chép liên kết chia sẻ. Người mở liên kết sẽ xem phân tích này ở chế độ chỉ đọc và có thể nhập vào lịch sử của họ.',
+  'share.tooLarge': 'Phân tích này quá lớn để gửi bằng liên kết ({length} ký tự, giới hạn {max}). Hãy gửi gói JSON thay thế; có thể nhập gói này ở trang Lịch sử.',
+  'share.error': 'Không tạo được liên kết chia sẻ. Bạn có thể gửi gói JSON thay thế.',
+  'share.downloadBundle': 'Tải gói JSON',
+  'shared.loading': 'Đang mở phân tích được chia sẻ…',
+  'shared.invalid': 'Liên kết chia sẻ bị hỏng hoặc không đầy đủ. Hãy xin người gửi liên kết mới hoặc gói JSON.',
+  'shared.banner': 'Phân tích được chia sẻ, chỉ đọc. Chưa có gì được lưu cho đến khi bạn nhập.',
+  'shared.import': 'Nhập vào lịch sử của tôi',
+  'shared.open': 'Đã có trong lịch sử: mở',
+  'shared.conflict': 'Phân tích này đã có trong lịch sử của bạn với nội dung khác, ví dụ khác phần phân tích sâu hoặc câu hỏi tiếp theo.',
+
+  'logs.title': 'Nhật Ký Hệ Thống',
+  'logs.empty': '-- No logs recorded yet --',
+  'logs.search': 'Tìm trong thông điệp và chi tiết',
+  'logs.range.all': 'Mọi lúc',
+  'logs.range.15m': '15 phút qua',
+  'logs.range.1h': '1 giờ qua',
+  'logs.range.24h': '24 giờ qua',
+  'logs.range.7d': '7 ngày qua',
+  'logs.clearFilters': 'Xóa bộ lọc',
+  'logs.expandAll': 'Mở tất cả',
+  'logs.collapseAll': 'Thu gọn tất cả',
+  'logs.details': 'Chi tiết',
+  'logs.exportHint': 'Xuất các mục khớp với bộ lọc',
+  'logs.count': 'Hiển thị {shown}/{total} mục · giữ {max} mục mới nhất',
+  'logs.noMatch': '-- Không có mục nào khớp bộ lọc --',
+
+  'queue.title': 'Hàng đợi yêu cầu',
+  'queue.status': '{running} đang chạy · {pending} đang chờ',
+  'queue.rpm': '{rpm} yêu cầu/phút',
+  'queue.cooldown': 'Bị giới hạn tốc độ. Tiếp tục sau {seconds}s',
+  'queue.details': 'Phân tích chi tiết {done}/{total}',
+  'queue.failed': '{count} lỗi',
+  'queue.pause': 'Tạm dừng',
+  'queue.resume': 'Tiếp tục',
+  'queue.cancel': 'Hủy',
+  'queue.paused': 'Đã tạm dừng',
+  'queue.cancelled': 'Đã hủy tạo tự động. Còn thiếu {count} phân tích chi tiết.',
+
+  'usage.title': 'Token & chi phí',
+  'usage.empty': 'Chưa có dữ liệu sử dụng. Số token sẽ hiện sau lần gọi AI tiếp theo.',
+  'usage.thisAnalysis': 'Phân tích này',
+  'usage.calls': 'Lượt gọi',
+  'usage.callCount': '{count} lượt gọi',
+  'usage.promptTokens': 'Token đầu vào',
+  'usage.outputTokens': 'Token đầu ra',
+  'usage.tokensInOut': '{input} vào · {output} ra',
+  'usage.cost': 'Chi phí ước tính',
+  'usage.avgLatency': 'Độ trễ TB',
+  'usage.unpriced': '{count} lượt gọi chưa có bảng giá',
+  'usage.daily': '{days} ngày gần nhất',
+  'usage.byModel': 'Theo mô hình',
+  'usage.model': 'Mô hình',
+  'usage.input': 'Đầu vào',
+  'usage.output': 'Đầu ra',
+  'usage.prices': 'Bảng giá (USD / 1 triệu token)',
+  'usage.modelPrefix': 'Tiền tố tên mô hình',
+  'usage.addPrice': 'Thêm mô hình',
+  'usage.resetPrices': 'Khôi phục mặc định',
+  'usage.removePrice': 'Xóa',
+
+  'report.empty': 'Chưa có dữ liệu phân tích. Vui lòng quay lại trang "Phân Tích" và nhập vấn đề.',
+  'report.toolbar': 'Báo Cáo & Hồ Sơ (A4 Ready)',
+  'report.toolbar.share': 'Sao chép liên kết chia sẻ',
+  'report.toolbar.copy': 'Copy Text',
+  'report.toolbar.pdf': 'Tải PDF',
+  'report.toolbar.docx': 'Tải Word (.docx)',
+  'report.toolbar.calendar': 'Xuất lịch (.ics)',
+  'report.toolbar.print': 'Print',
+  'report.pdfError': 'Lỗi tạo file PDF',
+  'report.docxError': 'Lỗi tạo file Word',
+  'report.fileSlug': 'tong-hop',
+  'report.autoGenerating': 'ĐANG TẠO CHI TIẾT TỰ ĐỘNG...',
+  'report.freeTierHit': 'Free Tier Limit Hit: Pausing to respect API quota...',
+  'report.title': 'BÁO CÁO TỔNG HỢP',
+  'report.copyTitle': 'BÁO CÁO TỔNG HỢP VẤN ĐỀ',
+  'report.generatedBy': 'LifeDebugger generated content',
+  'report.subject': 'Vấn đề / Chủ đề',
+  'report.date': 'Ngày báo cáo',
+  'report.persona': 'Giọng văn',
+  'report.personaLevel': '{persona} · mức {level}/3',
+  'report.attachments': 'Tài liệu đính kèm đã phân tích',
+  'report.fetchedAt': '{name} (tải lúc {date})',
+  'report.toc': 'MỤC LỤC',
+  'report.toc.analysis': 'PHÂN TÍCH TỔNG QUAN',
+  'report.toc.details': 'BÁO CÁO CHI TIẾT',
+  'report.toc.prompt': 'PROMPT & AI TƯ VẤN',
+  'report.toc.references': 'NGUỒN TÀI LIỆU',
+  'report.toc.followUp': 'HỎI ĐÁP BỔ SUNG',
+  'report.section.analysis': 'PHÂN TÍCH TỔNG QUAN & ĐÁNH GIÁ',
+  'report.section.details': 'BÁO CÁO CHI TIẾT CÁC VẤN ĐỀ',
+  'report.section.prompt': 'PROMPT & AI TƯ VẤN (DÀNH CHO CHUYÊN GIA)',
+  'report.section.references': 'NGUỒN TÀI LIỆU THAM KHẢO',
+  'report.section.followUp': 'HỎI ĐÁP BỔ SUNG',
+  'report.analysisGuide': 'Analysis & Guide',
+  'report.actionableSteps': 'Actionable Steps:',
+  'report.risk': 'Risk:',
+  'report.waiting': 'Waiting for analysis...',
+  'report.recommendedModel': 'Mô hình AI Khuyên dùng:',
+  'report.optimizedPrompt': 'Câu lệnh mẫu tối ưu (Copy Prompt):',
+  'report.promptPending': 'Analyzing prompt requirements...',
+  'report.generalKnowledge': 'Tổng hợp từ kiến thức chung.',
+  'report.question': 'Hỏi:',
+  'report.answer': 'Đáp:',
+  'report.footer': 'Report generated by LifeDebugger AI Analysis Tool.',
+
+  'docs.title': 'Hướng Dẫn Sử Dụng',
+  'docs.confirmTitle': 'Xác Nhận Yêu Cầu (Rephrase)',
+  'docs.confirmIntro': 'Hệ thống đã nhận diện ý tưởng của bạn như sau:',
+  'docs.confirm.goal': 'Mục tiêu: Tạo web app nhập input (vấn đề cuộc sống/luật/xây dựng) -> Output: 10 vấn đề gợi ý liên quan.',
+  'docs.confirm.features': 'Tính năng: Tải thêm 10 vấn đề (Pagination), Bình luận đánh giá hài hước/chửi tục (Code Note).',
+  'docs.confirm.pages': 'Pages: Search, History, Logs, Docs.',
+  'docs.confirm.ux': 'UX: Tự động cập nhật, Đa ngôn ngữ (Mặc định VI), In ấn/Sao chép.',
+  'docs.workflowTitle': 'Quy Trình Hoạt Động (Workflow)',
+  'docs.step1.title': 'Nhập Input',
+  'docs.step1.desc': 'Nhập bất kỳ vấn đề nào: "Giấy phép xây dựng", "Sếp khó tính", "Luật đất đai"...',
+  'docs.step2.title': 'AI Phân Tích',
+  'docs.step2.desc': 'Hệ thống gọi Gemini API để liệt kê 10 vấn đề liên quan và viết một đoạn "Code Note" để đánh giá.',
+  'docs.step3.title': 'Kết Quả & Mở Rộng',
+  'docs.step3.desc': 'Xem kết quả, cười với bình luận, và bấm "Tải thêm" nếu muốn đào sâu hơn.',
+  'docs.featuresTitle': 'Tính Năng Chi Tiết',
+  'docs.feature.codeNote': 'Tính năng này cho phép AI "nói tục" và đánh giá chủ quan. Nó không chịu trách nhiệm về độ chính xác 100% mà tập trung vào sự hài hước và thực tế phũ phàng.',
+  'docs.feature.autoUpdate': 'Giao diện phản hồi tức thì (React State) mà không cần reload trang.',
+  'docs.feature.print': 'Cho phép in nội dung ra giấy A4 hoặc lưu dưới dạng PDF để đọc offline.',
+};
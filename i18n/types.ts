@@ -0,0 +1,5 @@
+import { en } from './messages/en';
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
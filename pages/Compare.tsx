@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { SearchResult, Language } from '../types';
+import { createTranslator, getLocale, MessageKey } from '../i18n';
+import { alignSuggestions, diffLines, splitSentences, summarizeComparison, orderForComparison, ComparedItem, CompareStatus, DiffLine } from '../services/compare';
+import { GitCompare, ArrowLeft, ChevronDown, ChevronRight, FileSearch } from 'lucide-react';
+
+interface CompareProps {
+  language: Language;
+  history: SearchResult[];
+  ids: [string, string] | null;
+  onBack: () => void;
+}
+
+const STATUS_STYLES: Record<CompareStatus, string> = {
+  unchanged: 'border-dark-700 text-gray-400',
+  changed: 'border-neon-yellow/50 text-neon-yellow',
+  added: 'border-neon-green/50 text-neon-green',
+  removed: 'border-red-500/50 text-red-400',
+};
+
+const DiffBlock: React.FC<{ lines: DiffLine[] }> = ({ lines }) => (
+  <div className="font-mono text-xs space-y-0.5">
+    {lines.map((line, idx) => (
+      <div
+        key={idx}
+        className={`px-2 py-0.5 rounded whitespace-pre-wrap ${
+          line.type === 'added' ? 'bg-green-900/30 text-green-300'
+            : line.type === 'removed' ? 'bg-red-900/30 text-red-300 line-through decoration-red-500/50'
+            : 'text-gray-400'
+        }`}
+      >
+        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+      </div>
+    ))}
+  </div>
+);
+
+// Side-by-side view of two analyses, older on the left, with suggestions aligned by similarity
+export const Compare: React.FC<CompareProps> = ({ language, history, ids, onBack }) => {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const first = history.find(h => h.id === ids?.[0]);
+  const second = history.find(h => h.id === ids?.[1]);
+
+  if (!first || !second) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-500 p-8">
+        <FileSearch size={64} className="mb-4 opacity-50" />
+        <p className="text-xl mb-4">{t('compare.missing')}</p>
+        <button onClick={onBack} className="text-neon-purple hover:underline flex items-center gap-1">
+          <ArrowLeft size={16} /> {t('compare.back')}
+        </button>
+      </div>
+    );
+  }
+
+  const [before, after] = orderForComparison(first, second);
+  const rows = alignSuggestions(before.suggestions, after.suggestions);
+  const counts = summarizeComparison(rows);
+  const visibleRows = rows.map((row, idx) => ({ row, idx })).filter(({ row }) => showUnchanged || row.status !== 'unchanged');
+
+  const toggle = (idx: number) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(idx)) next.add(idx);
+      return next;
+    });
+
+  const hasDetailDiff = (row: ComparedItem) => !!row.before?.details && !!row.after?.details;
+
+  const header = (result: SearchResult, label: MessageKey) => (
+    <div className="bg-dark-800 rounded-lg border border-dark-700 p-4">
+      <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">{t(label)}</div>
+      <div className="text-xs text-neon-green font-mono mb-1">{new Date(result.timestamp).toLocaleString(locale)}</div>
+      <h3 className="text-lg font-bold text-white">"{result.query}"</h3>
+      <div className="text-xs text-gray-500 mt-1">
+        {t('compare.items', { count: result.suggestions.length })}
+        {result.attachments && result.attachments.length > 0 && ` · ${result.attachments.map(a => a.name).join(', ')}`}
+      </div>
+    </div>
+  );
+
+  const itemCell = (row: ComparedItem, side: 'before' | 'after') => {
+    const item = row[side];
+    if (!item) return <div className="text-xs text-gray-600 italic">—</div>;
+    return (
+      <div>
+        <div className={`font-bold text-sm ${row.changes.includes('title') ? 'text-neon-yellow' : 'text-white'}`}>{item.title}</div>
+        <div className={`text-xs mt-1 ${row.changes.includes('description') ? 'text-yellow-200' : 'text-gray-400'}`}>{item.description}</div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 md:p-8 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold flex items-center gap-2 text-white">
+          <GitCompare className="text-neon-purple" />
+          {t('compare.title')}
+        </h2>
+        <button onClick={onBack} className="text-sm text-gray-400 hover:text-white flex items-center gap-1">
+          <ArrowLeft size={16} /> {t('compare.back')}
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {header(before, 'compare.before')}
+        {header(after, 'compare.after')}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {(['changed', 'added', 'removed', 'unchanged'] as CompareStatus[]).map(status => (
+          <span key={status} className={`text-xs font-mono uppercase px-2 py-1 rounded border ${STATUS_STYLES[status]}`}>
+            {t(`compare.status.${status}`)}: {counts[status]}
+          </span>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} className="accent-neon-purple" />
+          {t('compare.showUnchanged')}
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        {visibleRows.length === 0 && (
+          <div className="text-center text-gray-500 py-10">{t('compare.identical')}</div>
+        )}
+        {visibleRows.map(({ row, idx }) => (
+          <div key={idx} className={`bg-dark-800 rounded-lg border-l-4 border ${STATUS_STYLES[row.status]} p-4`}>
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-[10px] font-mono uppercase tracking-wider">
+                {t(`compare.status.${row.status}`)}
+                {row.similarity > 0 && row.similarity < 1 && (
+                  <span className="text-gray-500 ml-2">{t('compare.similarity', { percent: Math.round(row.similarity * 100) })}</span>
+                )}
+              </span>
+              {row.changes.length > 0 && (
+                <span className="text-[10px] text-gray-500">
+                  {row.changes.map(change => t(`compare.field.${change}`)).join(' · ')}
+                </span>
+              )}
+            </div>
+            <div className="grid md:grid-cols-2 gap-4">
+              {itemCell(row, 'before')}
+              {itemCell(row, 'after')}
+            </div>
+
+            {hasDetailDiff(row) && (row.changes.includes('steps') || row.changes.includes('risks')) && (
+              <div className="mt-3 border-t border-dark-700 pt-3">
+                <button onClick={() => toggle(idx)} className="text-xs text-neon-purple hover:underline flex items-center gap-1">
+                  {expanded.has(idx) ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                  {t('compare.detailDiff')}
+                </button>
+                {expanded.has(idx) && (
+                  <div className="mt-3 space-y-4">
+                    {row.changes.includes('steps') && (
+                      <div>
+                        <div className="text-xs font-bold text-gray-400 uppercase mb-1">{t('modal.steps')}</div>
+                        <DiffBlock lines={diffLines(row.before!.details!.steps, row.after!.details!.steps)} />
+                      </div>
+                    )}
+                    {row.changes.includes('risks') && (
+                      <div>
+                        <div className="text-xs font-bold text-gray-400 uppercase mb-1">{t('modal.risks')}</div>
+                        <DiffBlock lines={diffLines(splitSentences(row.before!.details!.risks), splitSentences(row.after!.details!.risks))} />
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            {row.status !== 'added' && row.status !== 'removed' && !hasDetailDiff(row) && (row.before?.details || row.after?.details) && (
+              <div className="mt-3 text-[10px] text-gray-500 italic">{t('compare.detailOneSide')}</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
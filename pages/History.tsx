@@ -1,24 +1,316 @@
-import React, { useRef } from 'react';
-import { SearchResult, Language } from '../types';
-import { Clock, Trash2, FileSearch, Link as LinkIcon, RotateCcw, ArrowRight } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { SearchResult, Language, LogEntry } from '../types';
+import { Clock, Trash2, FileSearch, Link as LinkIcon, RotateCcw, ArrowRight, Paperclip, Upload, FileJson, FileDown, Loader2, AlertTriangle, Search, Star, Tag, X, Undo2, GitCompare } from 'lucide-react';
 import { PrintControls } from '../components/PrintControls';
+import { ProgressBar } from '../components/ProgressBar';
+import { createTranslator, getLocale } from '../i18n';
+import { exportJsonBundle, exportMarkdownBundle, readBundleFile, planImport, resolveImport, ImportPlan, ConflictStrategy } from '../services/bundleService';
+import { DEFAULT_HISTORY_FILTER, HistoryFilter, HistorySort, queryHistory, collectTags, addTag } from '../services/historyQuery';
+import { itemProgress, resultProgress } from '../services/checklist';
+
+const SORTS: HistorySort[] = ['newest', 'oldest', 'mostItems', 'fewestItems'];
+export const UNDO_TIMEOUT_MS = 10000;
 
 interface HistoryProps {
   history: SearchResult[];
   language: Language;
   onRestore: (item: SearchResult) => void;
+  onImport: (results: SearchResult[]) => void;
+  onUpdate: (id: string, patch: (result: SearchResult) => SearchResult) => void;
+  onDelete: (ids: string[]) => void;
+  deleted: SearchResult[] | null; // Deleted analyses that can still be restored, held by App
+  onUndoDelete: () => void;
+  onCompare: (ids: [string, string]) => void;
+  addLog: (entry: LogEntry) => void;
 }
 
-export const History: React.FC<HistoryProps> = ({ history, language, onRestore }) => {
+export const History: React.FC<HistoryProps> = ({ history, language, onRestore, onImport, onUpdate, onDelete, deleted, onUndoDelete, onCompare, addLog }) => {
+  const t = createTranslator(language);
   const contentRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [pendingImport, setPendingImport] = useState<ImportPlan | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; error?: boolean } | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>(DEFAULT_HISTORY_FILTER);
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  // Bulk delete waiting for confirmation
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const visible = queryHistory(history, filter);
+  // Bulk delete only touches what is on screen; selections hidden by the filter are kept
+  const selectedVisible = visible.filter(h => selected.has(h.id));
+  const selectedHidden = selected.size - selectedVisible.length;
+  const allTags = collectTags(history);
+
+  // Export the selection, or everything when nothing is selected
+  const exportScope = selected.size > 0 ? history.filter(h => selected.has(h.id)) : history;
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDelete = (ids: string[]) => {
+    const removed = history.filter(h => ids.includes(h.id));
+    if (removed.length === 0) return;
+    onDelete(ids);
+    setSelected(prev => new Set([...prev].filter(id => !ids.includes(id))));
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'info',
+      message: `Deleted ${removed.length} history item(s)`,
+      details: removed.map(r => r.query).join('\n')
+    });
+  };
+
+  const handleUndoDelete = () => {
+    if (!deleted) return;
+    onUndoDelete();
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'info',
+      message: `Restored ${deleted.length} deleted history item(s)`
+    });
+  };
+
+  const toggleStar = (item: SearchResult) =>
+    onUpdate(item.id, latest => ({ ...latest, starred: !latest.starred }));
+
+  const submitTag = (item: SearchResult) => {
+    const draft = tagDrafts[item.id] ?? '';
+    if (!draft.trim()) return;
+    onUpdate(item.id, latest => ({ ...latest, tags: addTag(latest.tags, draft) }));
+    setTagDrafts(prev => ({ ...prev, [item.id]: '' }));
+  };
+
+  const removeTag = (item: SearchResult, tag: string) =>
+    onUpdate(item.id, latest => ({ ...latest, tags: (latest.tags ?? []).filter(t => t !== tag) }));
+
+  const handleExport = async (kind: 'json' | 'markdown') => {
+    setIsBusy(true);
+    setNotice(null);
+    try {
+      if (kind === 'json') exportJsonBundle(exportScope);
+      else await exportMarkdownBundle(exportScope, t, getLocale(language));
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'info',
+        message: `History exported (${kind})`,
+        details: `${exportScope.length} analyses`
+      });
+    } catch (err: any) {
+      setNotice({ text: t('history.exportError'), error: true });
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'error',
+        message: 'History Export Failed',
+        details: err?.message
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const applyImport = (plan: ImportPlan, strategy: ConflictStrategy) => {
+    const results = resolveImport(plan, strategy);
+    setPendingImport(null);
+    if (results.length > 0) onImport(results);
+    const summary = results.length > 0
+      ? t('history.imported', { count: results.length, unchanged: plan.unchanged + (strategy === 'skip' ? plan.conflicts.length : 0) })
+      : t('history.importNothing');
+    setNotice({
+      text: plan.rejected.length > 0 ? `${summary} ${t('history.importRejected', { count: plan.rejected.length })}` : summary,
+      error: plan.rejected.length > 0 && results.length === 0
+    });
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: plan.rejected.length > 0 ? 'warning' : 'info',
+      message: 'History bundle imported',
+      details: [
+        `${results.length} written, ${plan.conflicts.length} conflicts (${strategy}), ${plan.unchanged} unchanged, ${plan.rejected.length} rejected`,
+        ...plan.rejected
+      ].join('\n')
+    });
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    setNotice(null);
+    try {
+      const bundle = await readBundleFile(file);
+      const plan = planImport(bundle.results, history, bundle.rejected);
+      if (plan.conflicts.length > 0) setPendingImport(plan);
+      else applyImport(plan, 'skip');
+    } catch (err: any) {
+      setNotice({ text: t('history.importError'), error: true });
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'error',
+        message: 'History Import Failed',
+        details: err?.message
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toolbar = (
+    <div className="flex flex-wrap items-center gap-2 mb-6 no-print">
+      <input ref={fileInputRef} type="file" accept=".json,.zip,application/json,application/zip" className="hidden" onChange={handleImportFile} />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isBusy}
+        className="flex items-center gap-2 bg-dark-700 border border-dark-600 hover:bg-dark-600 text-gray-200 px-3 py-1.5 rounded text-sm transition-colors disabled:opacity-50"
+      >
+        {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+        {t('history.import')}
+      </button>
+      {history.length > 0 && (
+        <>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={isBusy}
+            className="flex items-center gap-2 bg-dark-700 border border-dark-600 hover:bg-dark-600 text-gray-200 px-3 py-1.5 rounded text-sm transition-colors disabled:opacity-50"
+          >
+            <FileJson size={16} />
+            {t('history.exportJson')}
+          </button>
+          <button
+            onClick={() => handleExport('markdown')}
+            disabled={isBusy}
+            className="flex items-center gap-2 bg-dark-700 border border-dark-600 hover:bg-dark-600 text-gray-200 px-3 py-1.5 rounded text-sm transition-colors disabled:opacity-50"
+          >
+            <FileDown size={16} />
+            {t('history.exportMarkdown')}
+          </button>
+          <span className="text-xs font-mono text-gray-500 ml-1">
+            {selected.size > 0
+              ? t('history.scopeSelected', { count: selected.size })
+              : t('history.scopeAll', { count: history.length })}
+          </span>
+          <button
+            onClick={() => {
+              const [first, second] = [...selected];
+              onCompare([first, second]);
+            }}
+            disabled={selected.size !== 2}
+            title={t('history.compareHint')}
+            className="flex items-center gap-2 bg-dark-700 border border-dark-600 hover:bg-dark-600 text-gray-200 px-3 py-1.5 rounded text-sm transition-colors disabled:opacity-50"
+          >
+            <GitCompare size={16} />
+            {t('history.compare')}
+          </button>
+          {selectedVisible.length > 0 && (
+            <button
+              onClick={() => setConfirmingDelete(true)}
+              className="flex items-center gap-2 bg-red-900/30 border border-red-700/50 hover:bg-red-900/50 text-red-200 px-3 py-1.5 rounded text-sm transition-colors"
+            >
+              <Trash2 size={16} />
+              {t('history.deleteSelected', { count: selectedVisible.length })}
+            </button>
+          )}
+          <button
+            onClick={() => setSelected(selected.size > 0 ? new Set() : new Set(visible.map(h => h.id)))}
+            className="text-xs text-neon-purple hover:underline ml-auto"
+          >
+            {selected.size > 0 ? t('history.clearSelection') : t('history.selectAll')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  const banners = (
+    <>
+      {pendingImport && (
+        <div className="mb-6 bg-orange-900/20 border border-orange-500/40 p-4 rounded-lg text-sm text-orange-200 no-print">
+          <div className="flex items-center gap-2 mb-3">
+            <AlertTriangle size={16} />
+            {t('history.conflictTitle', { count: pendingImport.conflicts.length })}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(['skip', 'replace', 'copy'] as ConflictStrategy[]).map((strategy) => (
+              <button
+                key={strategy}
+                onClick={() => applyImport(pendingImport, strategy)}
+                className="bg-dark-800 border border-dark-600 hover:border-orange-400 px-3 py-1 rounded text-xs font-bold uppercase transition-colors"
+              >
+                {t(strategy === 'skip' ? 'history.conflictSkip' : strategy === 'replace' ? 'history.conflictReplace' : 'history.conflictCopy')}
+              </button>
+            ))}
+            <button onClick={() => setPendingImport(null)} className="text-xs text-gray-400 hover:text-white px-2">
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+      {confirmingDelete && selectedVisible.length > 0 && (
+        <div className="mb-6 bg-red-900/20 border border-red-500/40 p-4 rounded-lg text-sm text-red-200 no-print">
+          <div className="flex items-center gap-2 mb-1">
+            <AlertTriangle size={16} />
+            {t('history.deleteConfirm', { count: selectedVisible.length, seconds: UNDO_TIMEOUT_MS / 1000 })}
+          </div>
+          {selectedHidden > 0 && (
+            <div className="text-xs text-gray-400 mb-2 ml-6">{t('history.deleteHiddenKept', { count: selectedHidden })}</div>
+          )}
+          <div className="flex flex-wrap gap-2 mt-3">
+            <button
+              onClick={() => {
+                handleDelete(selectedVisible.map(h => h.id));
+                setConfirmingDelete(false);
+              }}
+              className="bg-red-900/50 border border-red-700/60 hover:bg-red-800/60 px-3 py-1 rounded text-xs font-bold uppercase transition-colors"
+            >
+              {t('history.deleteConfirmAction')}
+            </button>
+            <button onClick={() => setConfirmingDelete(false)} className="text-xs text-gray-400 hover:text-white px-2">
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+      {deleted && (
+        <div className="mb-6 flex items-center justify-between gap-2 p-3 rounded text-sm no-print border bg-dark-800 border-dark-600 text-gray-300">
+          <span>{t('history.deleted', { count: deleted.length })}</span>
+          <button onClick={handleUndoDelete} className="flex items-center gap-1 font-bold uppercase text-xs text-neon-green hover:text-white">
+            <Undo2 size={14} /> {t('history.undo')}
+          </button>
+        </div>
+      )}
+      {notice && (
+        <div className={`mb-6 p-3 rounded text-sm no-print border ${notice.error ? 'bg-red-900/20 border-red-500/40 text-red-200' : 'bg-green-900/20 border-green-700/40 text-green-300'}`}>
+          {notice.text}
+        </div>
+      )}
+    </>
+  );
 
   if (history.length === 0) {
     return (
-      <div className="flex flex-col items-center justify-center h-full text-gray-500">
-        <FileSearch size={64} className="mb-4 opacity-50" />
-        <p className="text-xl">
-          {language === Language.VI ? 'Chưa có lịch sử tìm kiếm' : 'No search history yet'}
-        </p>
+      <div className="max-w-4xl mx-auto p-4 md:p-8 h-full flex flex-col">
+        {toolbar}
+        {banners}
+        <div className="flex-1 flex flex-col items-center justify-center text-gray-500">
+          <FileSearch size={64} className="mb-4 opacity-50" />
+          <p className="text-xl">
+            {t('history.empty')}
+          </p>
+        </div>
       </div>
     );
   }
@@ -28,28 +320,129 @@ export const History: React.FC<HistoryProps> = ({ history, language, onRestore }
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold flex items-center gap-2 text-white">
           <Clock className="text-neon-purple" />
-          {language === Language.VI ? 'Lịch Sử Debug' : 'Debug History'}
+          {t('history.title')}
         </h2>
         <PrintControls contentRef={contentRef} language={language} />
       </div>
 
+      {toolbar}
+      {banners}
+
+      {/* Search & filters */}
+      <div className="mb-6 space-y-3 no-print">
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+              value={filter.search}
+              onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))}
+              placeholder={t('history.search')}
+              className="w-full bg-dark-900 border border-dark-600 rounded pl-7 pr-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-neon-purple"
+            />
+          </div>
+          <button
+            onClick={() => setFilter(prev => ({ ...prev, starredOnly: !prev.starredOnly }))}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded border text-sm transition-colors ${filter.starredOnly ? 'border-neon-yellow text-neon-yellow' : 'border-dark-600 text-gray-400 hover:text-white'}`}
+          >
+            <Star size={14} fill={filter.starredOnly ? 'currentColor' : 'none'} /> {t('history.starredOnly')}
+          </button>
+          <select
+            value={filter.sort}
+            onChange={(e) => setFilter(prev => ({ ...prev, sort: e.target.value as HistorySort }))}
+            className="bg-dark-900 border border-dark-600 rounded px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-neon-purple"
+          >
+            {SORTS.map(sort => (
+              <option key={sort} value={sort}>{t(`history.sort.${sort}`)}</option>
+            ))}
+          </select>
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <Tag size={12} className="text-gray-500 mr-1" />
+            {allTags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setFilter(prev => ({ ...prev, tag: prev.tag === tag ? null : tag }))}
+                className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${filter.tag === tag ? 'border-neon-pink text-neon-pink' : 'border-dark-600 text-gray-400 hover:text-white'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {visible.length === 0 && (
+        <div className="text-center text-gray-500 py-10">{t('history.noMatch')}</div>
+      )}
+
       <div ref={contentRef} className="printable-content space-y-6">
-        {history.slice().reverse().map((item) => (
+        {visible.map((item) => (
           <div key={item.id} className="bg-dark-800 rounded-lg border border-dark-700 p-6 hover:border-neon-green/30 transition-all break-inside-avoid group">
             <div className="flex justify-between items-start mb-4 border-b border-dark-700 pb-2">
-              <div>
-                <div className="text-xs text-neon-green font-mono mb-1">
-                  {new Date(item.timestamp).toLocaleString()}
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={selected.has(item.id)}
+                  onChange={() => toggleSelected(item.id)}
+                  title={t('history.select')}
+                  className="mt-1 accent-neon-purple no-print"
+                />
+                <div>
+                  <div className="text-xs text-neon-green font-mono mb-1">
+                    {new Date(item.timestamp).toLocaleString(getLocale(language))}
+                  </div>
+                  <h3 className="text-xl font-bold text-white">"{item.query}"</h3>
                 </div>
-                <h3 className="text-xl font-bold text-white">"{item.query}"</h3>
               </div>
-              <button 
-                onClick={() => onRestore(item)}
-                className="bg-neon-purple/20 hover:bg-neon-purple/40 text-neon-purple px-3 py-1.5 rounded text-xs font-bold uppercase flex items-center gap-1 transition-colors no-print"
-              >
-                <RotateCcw size={14} />
-                {language === Language.VI ? 'Tải Lại & Xem Report' : 'Reload & Report'}
-              </button>
+              <div className="flex items-center gap-1 shrink-0 no-print">
+                <button
+                  onClick={() => toggleStar(item)}
+                  title={item.starred ? t('history.unstar') : t('history.star')}
+                  className={`p-1.5 rounded transition-colors ${item.starred ? 'text-neon-yellow' : 'text-gray-500 hover:text-neon-yellow'}`}
+                >
+                  <Star size={16} fill={item.starred ? 'currentColor' : 'none'} />
+                </button>
+                <button
+                  onClick={() => handleDelete([item.id])}
+                  title={t('history.delete')}
+                  className="p-1.5 rounded text-gray-500 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+                <button 
+                  onClick={() => onRestore(item)}
+                  className="bg-neon-purple/20 hover:bg-neon-purple/40 text-neon-purple px-3 py-1.5 rounded text-xs font-bold uppercase flex items-center gap-1 transition-colors"
+                >
+                  <RotateCcw size={14} />
+                  {t('history.restore')}
+                </button>
+              </div>
+            </div>
+
+            {/* Tags */}
+            <div className="mb-4 flex flex-wrap items-center gap-1">
+              {item.tags?.map(tag => (
+                <span key={tag} className="text-xs bg-dark-900 text-neon-pink px-2 py-0.5 rounded-full border border-dark-700 flex items-center gap-1">
+                  #{tag}
+                  <button onClick={() => removeTag(item, tag)} title={t('history.removeTag')} className="hover:text-white no-print">
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+              <input
+                value={tagDrafts[item.id] ?? ''}
+                onChange={(e) => setTagDrafts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    submitTag(item);
+                  }
+                }}
+                onBlur={() => submitTag(item)}
+                placeholder={t('history.addTag')}
+                className="bg-transparent border-b border-dark-600 focus:border-neon-pink text-xs text-gray-300 px-1 py-0.5 w-28 focus:outline-none no-print"
+              />
             </div>
 
             {/* Mini Roast Preview */}
@@ -68,15 +461,30 @@ export const History: React.FC<HistoryProps> = ({ history, language, onRestore }
                </div>
              )}
 
+             {/* Attachments analyzed with this result */}
+             {item.attachments && item.attachments.length > 0 && (
+               <div className="mb-4 flex flex-wrap gap-2">
+                 {item.attachments.map((a) => (
+                   <span key={a.id} className="text-xs bg-dark-900 text-neon-pink px-2 py-1 rounded flex items-center gap-1 max-w-[200px] truncate border border-dark-700">
+                     <Paperclip size={10} /> {a.name}
+                   </span>
+                 ))}
+               </div>
+             )}
+
             <div className="space-y-2">
               <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider">
-                {language === Language.VI ? 'Kết quả ghi nhận:' : 'Logged Results:'}
+                {t('history.results')}
               </h4>
+              <ProgressBar progress={resultProgress(item)} label={t('checklist.analysisProgress')} />
               <ul className="grid md:grid-cols-2 gap-2">
                 {item.suggestions.map((s) => (
-                  <li key={s.id} className="text-sm bg-dark-700 px-3 py-2 rounded text-gray-300 flex justify-between items-center">
-                    <span>• {s.title}</span>
-                    {s.details && <span className="text-[10px] text-neon-green px-1 border border-neon-green rounded">DETAILED</span>}
+                  <li key={s.id} className="text-sm bg-dark-700 px-3 py-2 rounded text-gray-300 space-y-1.5">
+                    <div className="flex justify-between items-center">
+                      <span>• {s.title}</span>
+                      {s.details && <span className="text-[10px] text-neon-green px-1 border border-neon-green rounded">{t('history.detailedBadge')}</span>}
+                    </div>
+                    <ProgressBar progress={itemProgress(s)} />
                   </li>
                 ))}
               </ul>
@@ -1,7 +1,21 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Language, SearchResult, SuggestionItem, LogEntry, Attachment, PageView } from '../types';
-import { analyzeIssue, analyzeSpecificItem } from '../services/geminiService';
-import { Send, Plus, Loader2, Sparkles, AlertCircle, Paperclip, Image as ImageIcon, Link as LinkIcon, X, FileText, ExternalLink, Check, BookOpen, ShieldAlert, ListChecks, ChevronRight, ArrowRight } from 'lucide-react';
+import { Language, SearchResult, SuggestionItem, LogEntry, Attachment, PageView, GeminiResponseSchema, PersonaSettings, UsageRecord } from '../types';
+import { analyzeIssueStream, analyzeSpecificItem, detailRequestKey, proposeDeadlines, regenerateSuggestion, StreamInterruptedError } from '../services/geminiService';
+import { RequestCancelledError } from '../services/requestScheduler';
+import { fetchLinkContent } from '../services/linkExtractor';
+import { FollowUpThread } from '../components/FollowUpThread';
+import { PersonaPicker } from '../components/PersonaPicker';
+import { StepChecklist } from '../components/StepChecklist';
+import { ProgressBar } from '../components/ProgressBar';
+import { DEFAULT_PERSONA, commentaryLabelKey } from '../services/personas';
+import { appendUsage } from '../services/usage';
+import { TaskPatch, itemProgress, patchItemTask, resultProgress } from '../services/checklist';
+import { applyProposedDeadlines, attentionCount } from '../services/deadlines';
+import { mergeSuggestions, mergeSources, SuggestionMerge } from '../services/dedup';
+import { togglePin, dismissSuggestion, restoreSuggestion, replaceSuggestion, orderForDisplay, buildPreviousContext } from '../services/suggestions';
+import { createTranslator } from '../i18n';
+import { MAX_TOTAL_ATTACHMENT_BYTES, totalAttachmentBytes, formatBytes, readFileAsAttachment, createLinkAttachment, toAttachmentRecord, mergeAttachmentRecords } from '../services/attachments';
+import { Send, Plus, Loader2, Sparkles, AlertCircle, Paperclip, Image as ImageIcon, Link as LinkIcon, X, FileText, ExternalLink, Check, BookOpen, ShieldAlert, ListChecks, ChevronRight, ArrowRight, Square, CalendarClock, Pin, RefreshCw, EyeOff, ChevronDown, Undo2, Merge } from 'lucide-react';
 
 interface HomeProps {
   language: Language;
@@ -10,8 +24,11 @@ interface HomeProps {
   initialResult?: SearchResult | null;
   onClearInitial?: () => void;
   currentResult: SearchResult | null;
-  setCurrentResult: (result: SearchResult | null) => void;
+  showResult: (result: SearchResult | null) => void; // Stored analyses are shown in their latest version
+  patchResult: (id: string, patch: (result: SearchResult) => SearchResult) => void;
   setPage: (page: PageView) => void;
+  openItemId?: string; // From the URL: the suggestion whose deep dive should be open
+  onItemRouteChange: (itemId: string | null) => void;
 }
 
 export const Home: React.FC<HomeProps> = ({ 
@@ -21,136 +38,467 @@ export const Home: React.FC<HomeProps> = ({
   initialResult, 
   onClearInitial,
   currentResult,
-  setCurrentResult,
-  setPage
+  showResult,
+  patchResult,
+  setPage,
+  openItemId,
+  onItemRouteChange
 }) => {
+  const t = createTranslator(language);
   const [query, setQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [persona, setPersona] = useState<PersonaSettings>(DEFAULT_PERSONA);
   
   // Detail Modal State
   const [selectedItem, setSelectedItem] = useState<SuggestionItem | null>(null);
   const [loadingItemId, setLoadingItemId] = useState<string | null>(null);
+  const [proposingItemId, setProposingItemId] = useState<string | null>(null);
+  const [regeneratingItemId, setRegeneratingItemId] = useState<string | null>(null);
+  const [showDismissed, setShowDismissed] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   
   // Attachment State
-  const [attachment, setAttachment] = useState<Attachment | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [showAttachMenu, setShowAttachMenu] = useState(false);
   const [showLinkInput, setShowLinkInput] = useState(false);
   const [linkUrl, setLinkUrl] = useState('');
+  const [linkStatus, setLinkStatus] = useState<Record<string, 'loading' | 'done' | 'failed'>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // In-flight requests. Whatever they return after being aborted is dropped.
+  // `revert` takes a load-more page that was already merged into its analysis back out.
+  const analysisRef = useRef<{ controller: AbortController; query: string; previous: SearchResult | null; revert?: () => void } | null>(null);
+  const detailRef = useRef<{ controller: AbortController; title: string } | null>(null);
+
+  const cancelAnalysis = (reason: string, restorePrevious: boolean) => {
+    const run = analysisRef.current;
+    if (!run) return;
+    analysisRef.current = null;
+    run.controller.abort();
+    run.revert?.();
+    // A stopped fresh search leaves a half-streamed grid behind; show what was there before
+    if (restorePrevious && !run.revert) showResult(run.previous);
+    setIsLoading(false);
+    setIsStreaming(false);
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'cancel',
+      message: 'Analysis cancelled',
+      details: `${reason}: "${run.query}"`
+    });
+  };
+
+  const cancelDetail = (reason: string) => {
+    const run = detailRef.current;
+    if (!run) return;
+    detailRef.current = null;
+    run.controller.abort();
+    setLoadingItemId(null);
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'cancel',
+      message: 'Detail fetch cancelled',
+      details: `${reason}: "${run.title}"`
+    });
+  };
+
+  // Leaving the page abandons whatever is still running
+  useEffect(() => () => {
+    cancelAnalysis('Left the page', true);
+    cancelDetail('Left the page');
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   // Handle History Restoration
   useEffect(() => {
     if (initialResult) {
       setQuery(initialResult.query);
-      setCurrentResult(initialResult);
-      setAttachment(null); 
+      setPersona(initialResult.persona ?? DEFAULT_PERSONA);
+      showResult(initialResult);
+      setAttachments([]); 
       if (onClearInitial) onClearInitial();
     }
   }, [initialResult, onClearInitial]);
 
-  // Handle File Upload
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    if (file.size > 5 * 1024 * 1024) {
-      setError(language === Language.VI ? "File quá lớn (>5MB)" : "File too large (>5MB)");
+  // Follow the item anchor of the URL: open the deep dive it names, close it when it is gone (back button)
+  useEffect(() => {
+    if (!openItemId) {
+      setIsModalOpen(false);
       return;
     }
+    if (!currentResult || isStreaming || (isModalOpen && selectedItem?.id === openItemId)) return;
+    const item = currentResult.suggestions.find(s => s.id === openItemId);
+    if (item) handleItemClick(item);
+    else onItemRouteChange(null);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openItemId, currentResult?.id, isStreaming]);
 
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Content = base64String.split(',')[1]; 
-      
-      setAttachment({
-        type: 'file',
-        content: base64Content,
-        mimeType: file.type,
-        name: file.name
+  const closeModal = () => {
+    setIsModalOpen(false);
+    onItemRouteChange(null);
+  };
+
+  // selectedItem is a snapshot; task edits land on the result, so read them back from there
+  const modalItem = selectedItem && (currentResult?.suggestions.find(s => s.id === selectedItem.id) ?? selectedItem);
+
+  const handleTaskChange = (itemId: string, step: number, patch: TaskPatch) => {
+    if (!currentResult) return;
+    patchResult(currentResult.id, latest => patchItemTask(latest, itemId, step, patch));
+  };
+
+  const handleTogglePin = (item: SuggestionItem) => {
+    if (!currentResult) return;
+    patchResult(currentResult.id, latest => togglePin(latest, item.id));
+  };
+
+  const handleDismiss = (item: SuggestionItem) => {
+    if (!currentResult) return;
+    patchResult(currentResult.id, latest => dismissSuggestion(latest, item.id));
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'info',
+      message: `Suggestion dismissed: ${item.title}`
+    });
+  };
+
+  const handleRestoreDismissed = (item: SuggestionItem) => {
+    if (!currentResult) return;
+    patchResult(currentResult.id, latest => restoreSuggestion(latest, item.id));
+  };
+
+  // Replaces one card in place; the old one joins the dismissed list
+  const handleRegenerate = async (item: SuggestionItem) => {
+    if (!currentResult || regeneratingItemId) return;
+    const resultId = currentResult.id;
+    const usageRecords: UsageRecord[] = [];
+    setRegeneratingItemId(item.id);
+    try {
+      const replacement = await regenerateSuggestion(currentResult, item, language, {
+        usage: { resultId, suggestionId: item.id, records: usageRecords }
+      });
+      patchResult(resultId, latest => appendUsage(replaceSuggestion(latest, item.id, replacement), usageRecords));
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'info',
+        message: `Suggestion regenerated: ${item.title}`,
+        details: `Replaced by: ${replacement.title}`
       });
-      setShowAttachMenu(false);
+    } catch (error: any) {
+      if (error instanceof RequestCancelledError) return;
+      setError(t('suggestions.regenerateError'));
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'error',
+        message: 'Regenerate failed',
+        details: error.message
+      });
+    } finally {
+      setRegeneratingItemId(null);
+    }
+  };
+
+  // Model pass over the steps of one deep dive; proposals only fill steps that have no date yet
+  const handleProposeDates = async (item: SuggestionItem) => {
+    if (!currentResult || proposingItemId) return;
+    const resultId = currentResult.id;
+    const usageRecords: UsageRecord[] = [];
+    setProposingItemId(item.id);
+    try {
+      const proposal = await proposeDeadlines(item, currentResult.query || "General Issue", language, {
+        usage: { resultId, suggestionId: item.id, records: usageRecords }
+      });
+      patchResult(resultId, latest => appendUsage({
+        ...latest,
+        suggestions: latest.suggestions.map(s => s.id === item.id ? applyProposedDeadlines(s, proposal) : s)
+      }, usageRecords));
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'info',
+        message: `Due dates proposed for: ${item.title}`,
+        details: proposal.deadlines.map(d => `Step ${d.step}: +${d.daysFromNow}d (${d.reason})`).join('\n') || 'No time-bound steps'
+      });
+    } catch (error: any) {
+      if (error instanceof RequestCancelledError) return;
+      setError(t('deadlines.proposeError'));
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'error',
+        message: 'Due date proposal failed',
+        details: error.message
+      });
+    } finally {
+      setProposingItemId(null);
+    }
+  };
+
+  // Handle File Upload (several files at once, within a shared size budget)
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = ''; // Allow picking the same file again after removing it
+    if (files.length === 0) return;
+
+    let usedBytes = totalAttachmentBytes(attachments);
+    const accepted: File[] = [];
+    const rejected: string[] = [];
+    for (const file of files) {
+      if (usedBytes + file.size > MAX_TOTAL_ATTACHMENT_BYTES) {
+        rejected.push(file.name);
+        continue;
+      }
+      usedBytes += file.size;
+      accepted.push(file);
+    }
+
+    const read = await Promise.all(accepted.map(readFileAsAttachment));
+    setAttachments(prev => [...prev, ...read]);
+    setShowAttachMenu(false);
+
+    if (rejected.length > 0) {
+      setError(t('home.budgetExceeded', { budget: formatBytes(MAX_TOTAL_ATTACHMENT_BYTES), files: rejected.join(', ') }));
+    } else {
       setError(null);
-    };
-    reader.readAsDataURL(file);
+    }
   };
 
-  const handleLinkSubmit = () => {
+  const handleLinkSubmit = async () => {
     if (!linkUrl.trim()) return;
-    setAttachment({
-      type: 'link',
-      content: linkUrl,
-      name: linkUrl
-    });
+    const link = createLinkAttachment(linkUrl.trim());
+    setAttachments(prev => [...prev, link]);
     setShowLinkInput(false);
     setShowAttachMenu(false);
     setLinkUrl('');
+
+    // Pull the page text through the local fetch service so the model sees the content, not just the URL
+    setLinkStatus(prev => ({ ...prev, [link.id]: 'loading' }));
+    try {
+      const extract = await fetchLinkContent(link.content);
+      setAttachments(prev => prev.map(a => a.id === link.id ? { ...a, extract, name: extract.title || a.name } : a));
+      setLinkStatus(prev => ({ ...prev, [link.id]: 'done' }));
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'info',
+        message: `Fetched link content: ${link.content}`,
+        details: `${extract.text.length} characters extracted`
+      });
+    } catch (err: any) {
+      setLinkStatus(prev => ({ ...prev, [link.id]: 'failed' }));
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'warning',
+        message: `Could not fetch link, sending URL only: ${link.content}`,
+        details: err.message
+      });
+    }
+  };
+
+  const isFetchingLinks = attachments.some(a => linkStatus[a.id] === 'loading');
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(a => a.id !== id));
   };
 
   const handleSearch = useCallback(async (isLoadMore: boolean = false) => {
-    if (!query.trim() && !attachment) return;
+    if ((!query.trim() && attachments.length === 0) || attachments.some(a => linkStatus[a.id] === 'loading')) return;
+
+    // A new query replaces the one still running (stopping the new one goes back to what was there before both)
+    const superseded = analysisRef.current;
+    cancelAnalysis('Superseded by a new query', false);
+    cancelDetail('Superseded by a new query');
+    const controller = new AbortController();
+    const run: NonNullable<typeof analysisRef.current> = { controller, query, previous: superseded ? superseded.previous : currentResult };
+    analysisRef.current = run;
+    const isStale = () => controller.signal.aborted;
 
     setIsLoading(true);
     setError(null);
 
     try {
-      const context = isLoadMore && currentResult 
-        ? currentResult.suggestions.map(s => s.title).join(", ") 
-        : "";
+      // Pinned and dismissed cards steer the next page
+      const context = isLoadMore && currentResult ? buildPreviousContext(currentResult) : "";
 
       addLog({
         id: crypto.randomUUID(),
         timestamp: Date.now(),
         type: 'info',
         message: isLoadMore ? `Loading more for: ${query}` : `New search: ${query}`,
-        details: attachment ? `With attachment: ${attachment.name}` : undefined
+        details: attachments.length > 0 ? `With attachments: ${attachments.map(a => a.name).join(', ')}` : undefined
       });
 
-      const response = await analyzeIssue(query, language, attachment, context);
+      // Streamed suggestions get stable ids so cards don't remount on every chunk
+      const streamIds: string[] = [];
+      const base = isLoadMore && currentResult ? currentResult : null;
+      const resultId = base?.id ?? crypto.randomUUID();
+      const timestamp = base?.timestamp ?? Date.now();
+      const attachmentRecords = attachments.map(toAttachmentRecord);
+      // Load-more keeps the voice the analysis started with
+      const activePersona = base ? base.persona ?? DEFAULT_PERSONA : persona;
+      const usageRecords: UsageRecord[] = [];
+      // Duplicates folded away by the latest applyPage of a load-more page
+      let merges: SuggestionMerge[] = [];
+      let droppedSources: string[] = [];
+      const pageStartedAt = Date.now();
 
-      const newSuggestions: SuggestionItem[] = response.suggestions.map(s => ({
-        id: crypto.randomUUID(),
-        title: s.title,
-        description: s.description
-      }));
-
-      if (isLoadMore && currentResult) {
-        const updatedResult: SearchResult = {
-          ...currentResult,
-          suggestions: [...currentResult.suggestions, ...newSuggestions],
-          roastCommentary: response.roast,
-          sources: [...(currentResult.sources || []), ...(response.sources || [])],
-          promptSuggestion: response.promptSuggestion,
-          bestModel: response.bestModel
+      const toSuggestions = (response: Partial<GeminiResponseSchema>): SuggestionItem[] =>
+        (response.suggestions || []).map((s, i) => ({
+          id: streamIds[i] ??= crypto.randomUUID(),
+          title: s.title,
+          description: s.description
+        }));
+
+      const buildResult = (response: Partial<GeminiResponseSchema>): SearchResult => ({
+        id: resultId,
+        query: query || (attachments.length > 0 ? `Analyzed: ${attachments.map(a => a.name).join(', ')}` : 'Unknown Query'),
+        timestamp,
+        suggestions: toSuggestions(response),
+        roastCommentary: response.roast ?? '',
+        sources: response.sources || [],
+        promptSuggestion: response.promptSuggestion,
+        bestModel: response.bestModel,
+        attachments: attachmentRecords,
+        persona: activePersona
+      });
+
+      // Merges a load-more page into the latest stored version of its analysis. Deep dives, follow-ups,
+      // pins and dismissals that landed while the page streamed are kept. What an earlier chunk of this
+      // page added is taken back out first, so the same page can be applied again as it grows.
+      // Commentary, sources and attachments are only ever changed by load-more, so they build on their
+      // values from before the page (read at the first chunk, after any superseded page was taken out).
+      let before: Pick<SearchResult, 'roastCommentary' | 'sources' | 'mergedSources' | 'promptSuggestion' | 'bestModel' | 'attachments'> | null = null;
+      const applyPage = (latest: SearchResult, response: Partial<GeminiResponseSchema>): SearchResult => {
+        before ??= {
+          roastCommentary: latest.roastCommentary,
+          sources: latest.sources,
+          mergedSources: latest.mergedSources,
+          promptSuggestion: latest.promptSuggestion,
+          bestModel: latest.bestModel,
+          attachments: latest.attachments
+        };
+        const pageIds = new Set(streamIds);
+        const unmerge = (item: SuggestionItem): SuggestionItem => {
+          if (!item.merged?.some(m => m.mergedAt === pageStartedAt)) return item;
+          const kept = item.merged.filter(m => m.mergedAt !== pageStartedAt);
+          return { ...item, merged: kept.length > 0 ? kept : undefined };
+        };
+        const dismissed = (latest.dismissed ?? []).map(unmerge);
+        const incoming = toSuggestions(response)
+          // Cards of this page dismissed while it streamed stay dismissed
+          .filter(s => !dismissed.some(d => d.id === s.id))
+          .map(s => {
+            const shown = latest.suggestions.find(p => p.id === s.id);
+            return shown ? { ...shown, title: s.title, description: s.description } : s;
+          });
+        // Repeats of shown or dismissed cards are merged into them instead of appended
+        const page = mergeSuggestions(latest.suggestions.filter(s => !pageIds.has(s.id)).map(unmerge), dismissed, incoming, pageStartedAt);
+        const pageSources = mergeSources(before.sources || [], response.sources || []);
+        merges = page.merges;
+        droppedSources = pageSources.dropped;
+        return {
+          ...latest,
+          suggestions: page.suggestions,
+          dismissed: latest.dismissed && page.dismissed,
+          roastCommentary: response.roast ?? before.roastCommentary,
+          sources: pageSources.sources,
+          mergedSources: droppedSources.length > 0 ? [...(before.mergedSources ?? []), ...droppedSources] : before.mergedSources,
+          promptSuggestion: response.promptSuggestion ?? before.promptSuggestion,
+          bestModel: response.bestModel ?? before.bestModel,
+          attachments: mergeAttachmentRecords(before.attachments, attachmentRecords)
         };
-        setCurrentResult(updatedResult);
-        addToHistory(updatedResult);
-      } else {
-        const newResult: SearchResult = {
+      };
+
+      // Stopping or superseding a load-more page removes what it added so far
+      if (base) run.revert = () => {
+        if (before) patchResult(resultId, latest => applyPage(latest, {}));
+      };
+
+      setIsStreaming(true);
+      // A fresh search replaces the old grid right away; cards then fill in as they stream
+      if (!base) showResult(buildResult({}));
+      try {
+        const response = await analyzeIssueStream(
+          query,
+          language,
+          (partial) => {
+            if (isStale()) return;
+            if (base) patchResult(resultId, latest => applyPage(latest, partial));
+            else showResult(buildResult(partial));
+          },
+          attachments,
+          context,
+          activePersona,
+          { signal: controller.signal, usage: { resultId, records: usageRecords } }
+        );
+        if (isStale()) return;
+
+        if (base) {
+          patchResult(resultId, latest => appendUsage(applyPage(latest, response), usageRecords));
+        } else {
+          const finalResult = appendUsage(buildResult(response), usageRecords);
+          showResult(finalResult);
+          addToHistory(finalResult);
+        }
+
+        if (merges.length > 0 || droppedSources.length > 0) {
+          addLog({
+            id: crypto.randomUUID(),
+            timestamp: Date.now(),
+            type: 'info',
+            message: `Merged ${merges.length} duplicate suggestions and ${droppedSources.length} repeated sources`,
+            details: [
+              ...merges.map(m => `"${m.title}" → "${m.into}"${m.dismissed ? ' (dismissed)' : ''} (${Math.round(m.similarity * 100)}%)`),
+              ...droppedSources.map(source => `Source: ${source}`)
+            ].join('\n')
+          });
+        }
+
+        addLog({
           id: crypto.randomUUID(),
-          query: query || (attachment ? `Analyzed: ${attachment.name}` : 'Unknown Query'),
           timestamp: Date.now(),
-          suggestions: newSuggestions,
-          roastCommentary: response.roast,
-          sources: response.sources || [],
-          promptSuggestion: response.promptSuggestion,
-          bestModel: response.bestModel
-        };
-        setCurrentResult(newResult);
-        addToHistory(newResult);
-      }
+          type: 'system',
+          message: 'Gemini API Success',
+          details: `Generated ${response.suggestions.length} items`
+        });
+      } catch (streamError) {
+        if (isStale()) return;
+        // Keep whatever finished before the stream died instead of throwing it away
+        const received = streamError instanceof StreamInterruptedError ? streamError.partial.suggestions?.length ?? 0 : 0;
+        if (!(streamError instanceof StreamInterruptedError) || received === 0) {
+          // Nothing usable: a load-more page is taken back out, a fresh search goes back to the analysis open before
+          if (base) run.revert!();
+          else showResult(run.previous);
+          throw streamError;
+        }
 
-      addLog({
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
-        type: 'system',
-        message: 'Gemini API Success',
-        details: `Generated ${newSuggestions.length} items`
-      });
+        if (base) {
+          patchResult(resultId, latest => ({ ...appendUsage(applyPage(latest, streamError.partial), usageRecords), incomplete: true }));
+        } else {
+          const partialResult: SearchResult = { ...appendUsage(buildResult(streamError.partial), usageRecords), incomplete: true };
+          showResult(partialResult);
+          addToHistory(partialResult);
+        }
+        setError(t('home.streamInterrupted', { count: received }));
+
+        addLog({
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          type: 'warning',
+          message: 'Stream interrupted, partial result kept',
+          details: `${received} items received. Cause: ${streamError.message}`
+        });
+      }
 
     } catch (err: any) {
+      if (isStale() || err instanceof RequestCancelledError) return;
       setError(err.message || "Unknown error occurred");
       addLog({
         id: crypto.randomUUID(),
@@ -160,21 +508,30 @@ export const Home: React.FC<HomeProps> = ({
         details: err.message
       });
     } finally {
-      setIsLoading(false);
+      // A cancelled run already handed the loading state over
+      if (analysisRef.current?.controller === controller) {
+        analysisRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
     }
-  }, [query, attachment, language, currentResult, addLog, addToHistory]);
+  }, [query, attachments, linkStatus, persona, language, currentResult, addLog, addToHistory]);
 
   const handleItemClick = async (item: SuggestionItem) => {
-    if (loadingItemId) return;
+    // Cards are still being replaced chunk by chunk while streaming
+    if (loadingItemId || isStreaming) return;
     
     // If details already exist, just open modal
     if (item.details) {
       setSelectedItem(item);
       setIsModalOpen(true);
+      onItemRouteChange(item.id);
       return;
     }
 
     // Fetch details
+    const controller = new AbortController();
+    detailRef.current = { controller, title: item.title };
     setLoadingItemId(item.id);
     try {
       addLog({
@@ -184,32 +541,36 @@ export const Home: React.FC<HomeProps> = ({
         message: `Fetching details for item: ${item.title}`
       });
 
+      if (!currentResult) return;
+      const resultId = currentResult.id;
+      const usageRecords: UsageRecord[] = [];
+      // Joins the report page's queued request for this card if there is one, at interactive priority
       const details = await analyzeSpecificItem(
         item.title, 
-        currentResult?.query || "General Issue", 
-        language
+        currentResult.query || "General Issue", 
+        language,
+        currentResult.persona,
+        {
+          key: detailRequestKey(resultId, item.id),
+          priority: 'interactive',
+          signal: controller.signal,
+          usage: { resultId, suggestionId: item.id, records: usageRecords }
+        }
       );
+      if (controller.signal.aborted) return;
 
-      // Update the item in currentResult state so we cache it
-      if (currentResult) {
-        const updatedSuggestions = currentResult.suggestions.map(s => 
-          s.id === item.id ? { ...s, details } : s
-        );
-        const updatedResult = { ...currentResult, suggestions: updatedSuggestions };
-        setCurrentResult(updatedResult);
-        
-        // SYNC BACK TO HISTORY
-        addToHistory(updatedResult);
-
-        // Find the updated item to set as selected
-        const updatedItem = updatedSuggestions.find(s => s.id === item.id);
-        if (updatedItem) {
-          setSelectedItem(updatedItem);
-          setIsModalOpen(true);
-        }
-      }
+      // Patch the latest version of the result so we cache it (and sync back to history)
+      patchResult(resultId, latest => appendUsage({
+        ...latest,
+        suggestions: latest.suggestions.map(s => s.id === item.id ? { ...s, details } : s)
+      }, usageRecords));
+      setSelectedItem({ ...item, details });
+      setIsModalOpen(true);
+      onItemRouteChange(item.id);
     } catch (error: any) {
-      setError(language === Language.VI ? "Lỗi tải chi tiết" : "Failed to load details");
+      if (controller.signal.aborted || error instanceof RequestCancelledError) return;
+      setError(t('home.detailError'));
+      onItemRouteChange(null);
       addLog({
         id: crypto.randomUUID(),
         timestamp: Date.now(),
@@ -218,7 +579,10 @@ export const Home: React.FC<HomeProps> = ({
         details: error.message
       });
     } finally {
-      setLoadingItemId(null);
+      if (detailRef.current?.controller === controller) {
+        detailRef.current = null;
+        setLoadingItemId(null);
+      }
     }
   };
 
@@ -233,14 +597,14 @@ export const Home: React.FC<HomeProps> = ({
             <div className="p-6 border-b border-dark-700 flex justify-between items-start bg-dark-800">
               <div>
                 <span className="text-neon-purple text-xs font-mono mb-2 block uppercase tracking-wider">
-                  {language === Language.VI ? 'Chi Tiết Vấn Đề' : 'Issue Deep Dive'}
+                  {t('modal.kicker')}
                 </span>
                 <h3 className="text-2xl font-bold text-white leading-tight">
                   {selectedItem.title}
                 </h3>
               </div>
               <button 
-                onClick={() => setIsModalOpen(false)}
+                onClick={closeModal}
                 className="text-gray-400 hover:text-white hover:bg-dark-700 p-2 rounded-full transition-colors"
               >
                 <X size={24} />
@@ -254,10 +618,10 @@ export const Home: React.FC<HomeProps> = ({
               <div className="space-y-3">
                 <h4 className="flex items-center gap-2 text-neon-green font-bold uppercase text-sm border-b border-dark-700 pb-2">
                   <BookOpen size={18} />
-                  {language === Language.VI ? 'Phân Tích Chi Tiết' : 'Deep Analysis'}
+                  {t('modal.analysis')}
                 </h4>
                 <p className="text-gray-300 leading-relaxed text-justify whitespace-pre-wrap">
-                  {selectedItem.details?.analysis || "No analysis available."}
+                  {selectedItem.details?.analysis || t('modal.noAnalysis')}
                 </p>
               </div>
 
@@ -265,19 +629,18 @@ export const Home: React.FC<HomeProps> = ({
               <div className="space-y-3">
                 <h4 className="flex items-center gap-2 text-neon-yellow font-bold uppercase text-sm border-b border-dark-700 pb-2">
                   <ListChecks size={18} />
-                  {language === Language.VI ? 'Hướng Dẫn / Quy Trình' : 'Workflow & Steps'}
+                  {t('modal.steps')}
                 </h4>
                 <div className="bg-dark-800 rounded-lg p-4">
-                   <ul className="space-y-3">
-                     {selectedItem.details?.steps.map((step, idx) => (
-                       <li key={idx} className="flex gap-3 text-sm text-gray-300">
-                         <span className="shrink-0 bg-dark-700 text-neon-yellow w-6 h-6 flex items-center justify-center rounded-full text-xs font-bold">
-                           {idx + 1}
-                         </span>
-                         <span className="pt-0.5">{step}</span>
-                       </li>
-                     ))}
-                   </ul>
+                  {modalItem && (
+                    <StepChecklist
+                      language={language}
+                      item={modalItem}
+                      onChange={(step, patch) => handleTaskChange(modalItem.id, step, patch)}
+                      onProposeDates={() => handleProposeDates(modalItem)}
+                      proposing={proposingItemId === modalItem.id}
+                    />
+                  )}
                 </div>
               </div>
 
@@ -285,7 +648,7 @@ export const Home: React.FC<HomeProps> = ({
               <div className="space-y-3">
                 <h4 className="flex items-center gap-2 text-red-400 font-bold uppercase text-sm border-b border-dark-700 pb-2">
                   <ShieldAlert size={18} />
-                  {language === Language.VI ? 'Rủi Ro & Cảnh Báo' : 'Risks & Warnings'}
+                  {t('modal.risks')}
                 </h4>
                 <div className="bg-red-900/10 border border-red-900/30 p-4 rounded-lg text-red-200 text-sm leading-relaxed">
                   {selectedItem.details?.risks}
@@ -296,10 +659,10 @@ export const Home: React.FC<HomeProps> = ({
             {/* Modal Footer */}
             <div className="p-4 border-t border-dark-700 bg-dark-800 flex justify-end">
               <button 
-                onClick={() => setIsModalOpen(false)}
+                onClick={closeModal}
                 className="px-6 py-2 bg-dark-700 hover:bg-dark-600 text-white rounded-lg transition-colors font-medium"
               >
-                {language === Language.VI ? 'Đóng' : 'Close'}
+                {t('common.close')}
               </button>
             </div>
           </div>
@@ -309,33 +672,68 @@ export const Home: React.FC<HomeProps> = ({
       {/* Header Section */}
       <div className="text-center space-y-2 no-print">
         <h2 className="text-3xl md:text-4xl font-bold bg-gradient-to-r from-neon-green to-neon-purple bg-clip-text text-transparent">
-          {language === Language.VI ? 'Nhập Vấn Đề Của Bạn' : 'Input Your Life Issue'}
+          {t('home.title')}
         </h2>
         <p className="text-gray-400">
-          {language === Language.VI 
-            ? 'Xây dựng, luật pháp, công việc... Kèm hình ảnh/tài liệu nếu cần.' 
-            : 'Construction, law, work... Attach images/docs if needed.'}
+          {t('home.subtitle')}
         </p>
       </div>
 
       {/* Input Section */}
       <div className="space-y-3 no-print">
-        {/* Attachment Preview Pill */}
-        {attachment && (
-          <div className="flex items-center gap-2 text-sm animate-fade-in">
-            <div className="bg-dark-700 text-neon-green px-3 py-1 rounded-full flex items-center gap-2 border border-neon-green/30">
-              {attachment.type === 'file' ? <FileText size={14} /> : <LinkIcon size={14} />}
-              <span className="truncate max-w-[200px] font-mono">{attachment.name}</span>
-              <button 
-                onClick={() => setAttachment(null)}
-                className="hover:text-red-400 ml-1 transition-colors"
-              >
-                <X size={14} />
-              </button>
+        {/* Attachment Previews */}
+        {attachments.length > 0 && (
+          <div className="space-y-2 animate-fade-in">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {attachments.map((item) => (
+                <div key={item.id} className="bg-dark-700 text-neon-green pl-1 pr-3 py-1 rounded-full flex items-center gap-2 border border-neon-green/30">
+                  {item.type === 'file' && item.mimeType?.startsWith('image/') ? (
+                    <img
+                      src={`data:${item.mimeType};base64,${item.content}`}
+                      alt={item.name}
+                      className="w-6 h-6 rounded-full object-cover border border-neon-green/30"
+                    />
+                  ) : (
+                    <span className="w-6 h-6 flex items-center justify-center">
+                      {item.type === 'file' ? <FileText size={14} /> : <LinkIcon size={14} />}
+                    </span>
+                  )}
+                  <span className="truncate max-w-[200px] font-mono">{item.name}</span>
+                  {item.size !== undefined && (
+                    <span className="text-[10px] text-gray-400 font-mono">{formatBytes(item.size)}</span>
+                  )}
+                  {linkStatus[item.id] === 'loading' && <Loader2 size={12} className="animate-spin text-gray-400" />}
+                  {linkStatus[item.id] === 'done' && item.extract && (
+                    <span className="text-[10px] text-gray-400 font-mono" title={item.extract.text.slice(0, 300)}>
+                      <Check size={10} className="inline" /> {t('home.linkChars', { count: item.extract.text.length.toLocaleString() })}
+                    </span>
+                  )}
+                  {linkStatus[item.id] === 'failed' && (
+                    <span title={t('home.linkFetchFailed')}>
+                      <AlertCircle size={12} className="text-orange-400" />
+                    </span>
+                  )}
+                  <button 
+                    onClick={() => removeAttachment(item.id)}
+                    className="hover:text-red-400 ml-1 transition-colors"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-wider">
+              {t('home.attachmentsSummary', {
+                count: attachments.length,
+                used: formatBytes(totalAttachmentBytes(attachments)),
+                budget: formatBytes(MAX_TOTAL_ATTACHMENT_BYTES)
+              })}
             </div>
           </div>
         )}
 
+        <PersonaPicker language={language} value={persona} onChange={setPersona} disabled={isLoading} />
+
         <div className="relative group z-10">
           <div className="absolute -inset-0.5 bg-gradient-to-r from-neon-green to-neon-purple rounded-xl blur opacity-30 group-hover:opacity-60 transition duration-1000"></div>
           <div className="relative flex bg-dark-800 rounded-xl p-2 border border-dark-700 shadow-2xl items-center gap-2">
@@ -345,7 +743,7 @@ export const Home: React.FC<HomeProps> = ({
               <button 
                 onClick={() => setShowAttachMenu(!showAttachMenu)}
                 className={`p-2 rounded-lg transition-colors ${showAttachMenu ? 'bg-neon-purple text-white' : 'text-gray-400 hover:text-white hover:bg-dark-700'}`}
-                title={language === Language.VI ? "Đính kèm File/Link" : "Attach File/Link"}
+                title={t('home.attachTitle')}
               >
                 <Paperclip size={20} />
               </button>
@@ -358,6 +756,7 @@ export const Home: React.FC<HomeProps> = ({
                     ref={fileInputRef} 
                     className="hidden" 
                     accept="image/*,video/*,application/pdf"
+                    multiple
                     onChange={handleFileSelect}
                   />
                   <button 
@@ -365,14 +764,14 @@ export const Home: React.FC<HomeProps> = ({
                     className="flex items-center gap-3 px-4 py-3 hover:bg-dark-700 text-left text-sm text-gray-200 transition-colors"
                   >
                     <ImageIcon size={16} className="text-neon-pink" />
-                    {language === Language.VI ? 'Upload Media/PDF' : 'Upload Media/PDF'}
+                    {t('home.uploadMedia')}
                   </button>
                   <button 
                     onClick={() => { setShowLinkInput(true); setShowAttachMenu(false); }}
                     className="flex items-center gap-3 px-4 py-3 hover:bg-dark-700 text-left text-sm text-gray-200 transition-colors border-t border-dark-700"
                   >
                     <LinkIcon size={16} className="text-neon-yellow" />
-                    {language === Language.VI ? 'Gán Link URL' : 'Paste Link URL'}
+                    {t('home.pasteLink')}
                   </button>
                 </div>
               )}
@@ -383,20 +782,28 @@ export const Home: React.FC<HomeProps> = ({
               value={query}
               onChange={(e) => setQuery(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSearch(false)}
-              placeholder={language === Language.VI 
-                ? "Nhập vấn đề (vd: Luật đất đai 2025)..." 
-                : "Describe issue (ex: Land Law 2025)..."}
+              placeholder={t('home.placeholder')}
               className="flex-1 bg-transparent text-white placeholder-gray-500 px-2 py-2 outline-none font-mono min-w-0"
-              disabled={isLoading}
             />
-            <button
-              onClick={() => handleSearch(false)}
-              disabled={isLoading || (!query && !attachment)}
-              className="bg-dark-700 hover:bg-dark-600 text-white px-6 py-2 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed shrink-0 border border-dark-600"
-            >
-              {isLoading ? <Loader2 className="animate-spin" size={20} /> : <Send size={20} />}
-              <span className="hidden md:inline">{language === Language.VI ? 'Gửi' : 'Send'}</span>
-            </button>
+            {isLoading ? (
+              <button
+                onClick={() => cancelAnalysis('Stopped by user', true)}
+                title={t('home.stopHint')}
+                className="bg-dark-700 hover:bg-red-900/40 text-white px-6 py-2 rounded-lg transition-colors flex items-center gap-2 shrink-0 border border-dark-600 hover:border-red-500"
+              >
+                <Square size={20} />
+                <span className="hidden md:inline">{t('home.stop')}</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => handleSearch(false)}
+                disabled={isFetchingLinks || (!query && attachments.length === 0)}
+                className="bg-dark-700 hover:bg-dark-600 text-white px-6 py-2 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed shrink-0 border border-dark-600"
+              >
+                <Send size={20} />
+                <span className="hidden md:inline">{t('home.send')}</span>
+              </button>
+            )}
           </div>
         </div>
 
@@ -424,7 +831,7 @@ export const Home: React.FC<HomeProps> = ({
         <div className="bg-red-900/20 border border-red-500/50 p-4 rounded-lg flex items-start gap-3 text-red-200 animate-fade-in no-print">
           <AlertCircle className="shrink-0 mt-1" size={20} />
           <div>
-            <h4 className="font-bold">System Error</h4>
+            <h4 className="font-bold">{t('home.systemError')}</h4>
             <p className="text-sm opacity-80">{error}</p>
           </div>
         </div>
@@ -437,16 +844,22 @@ export const Home: React.FC<HomeProps> = ({
           {/* Navigation to Report Page */}
           <div className="bg-dark-800 p-4 rounded-lg border border-dark-700 flex justify-between items-center shadow-lg">
              <div className="flex flex-col">
-                <span className="text-xs text-gray-400 uppercase tracking-wider mb-1">Status: Analysis Complete</span>
+                <span className="text-xs text-gray-400 uppercase tracking-wider mb-1 flex items-center gap-2">
+                  {isStreaming ? (
+                    <><Loader2 size={12} className="animate-spin text-neon-green" /> {t('home.status.streaming')}</>
+                  ) : currentResult.incomplete ? (
+                    <span className="text-orange-400">{t('home.status.partial')}</span>
+                  ) : t('home.status.complete')}
+                </span>
                 <span className="text-white font-bold">
-                    {language === Language.VI ? 'Đã có báo cáo tổng hợp' : 'Executive Report Ready'}
+                    {t('home.reportReady')}
                 </span>
              </div>
              <button 
                 onClick={() => setPage('report')}
                 className="flex items-center gap-2 bg-neon-purple text-white px-4 py-2 rounded-lg hover:bg-neon-purple/80 transition-all font-bold shadow-neon"
              >
-                <span>{language === Language.VI ? 'Xem Báo Cáo' : 'View Report'}</span>
+                <span>{t('home.viewReport')}</span>
                 <ArrowRight size={18} />
              </button>
           </div>
@@ -460,17 +873,23 @@ export const Home: React.FC<HomeProps> = ({
               </div>
               <h3 className="text-neon-yellow font-mono font-bold flex items-center gap-2 mb-4">
                 <span className="bg-neon-yellow text-black px-2 py-0.5 rounded text-xs">CODE NOTE</span>
-                {language === Language.VI ? 'ĐÁNH GIÁ (CHÉM GIÓ)' : 'EXPERT ROAST'}
+                {t(commentaryLabelKey(currentResult.persona))}
               </h3>
-              <p className="text-gray-200 leading-relaxed whitespace-pre-wrap font-mono text-sm md:text-base border-l-4 border-neon-yellow pl-4 italic">
-                "{currentResult.roastCommentary}"
-              </p>
+              {currentResult.roastCommentary ? (
+                <p className="text-gray-200 leading-relaxed whitespace-pre-wrap font-mono text-sm md:text-base border-l-4 border-neon-yellow pl-4 italic">
+                  "{currentResult.roastCommentary}"
+                </p>
+              ) : isStreaming && (
+                <p className="text-gray-500 font-mono text-sm border-l-4 border-neon-yellow/30 pl-4 italic animate-pulse">
+                  {t('home.writingCommentary')}
+                </p>
+              )}
 
               {/* Source Citation */}
               <div className="mt-6 pt-4 border-t border-dark-700/50">
                 <h4 className="text-xs font-bold text-gray-500 uppercase mb-2 flex items-center gap-2">
                   <LinkIcon size={12} />
-                  {language === Language.VI ? 'Nguồn Dữ Liệu / Tham Khảo:' : 'Data Sources / References:'}
+                  {t('home.sources')}
                 </h4>
                 {currentResult.sources && currentResult.sources.length > 0 ? (
                   <ul className="space-y-2">
@@ -483,7 +902,12 @@ export const Home: React.FC<HomeProps> = ({
                     ))}
                   </ul>
                 ) : (
-                  <span className="text-xs text-gray-600 italic">{language === Language.VI ? 'Nguồn: Kiến thức tổng hợp' : 'Source: General Knowledge'}</span>
+                  <span className="text-xs text-gray-600 italic">{t('home.sourcesNone')}</span>
+                )}
+                {currentResult.mergedSources && currentResult.mergedSources.length > 0 && (
+                  <div className="mt-2 text-[10px] text-gray-500 flex items-center gap-1" title={currentResult.mergedSources.join('\n')}>
+                    <Merge size={10} /> {t('dedup.sourcesMerged', { count: currentResult.mergedSources.length })}
+                  </div>
                 )}
               </div>
             </div>
@@ -493,39 +917,50 @@ export const Home: React.FC<HomeProps> = ({
               <div className="flex items-center justify-between">
                 <h3 className="text-xl font-bold text-white flex items-center gap-2">
                   <span className="w-2 h-8 bg-neon-green rounded-full"></span>
-                  {language === Language.VI ? 'Danh Sách Vấn Đề Liên Quan' : 'Related Issues Log'}
+                  {t('home.issuesTitle')}
                 </h3>
                 <span className="text-xs font-mono text-gray-500 bg-dark-900 px-2 py-1 rounded border border-dark-700">
-                  count: {currentResult.suggestions.length}
+                  {t('home.count', { count: currentResult.suggestions.length })}
                 </span>
               </div>
+              <ProgressBar progress={resultProgress(currentResult)} label={t('checklist.analysisProgress')} />
 
               <div className="grid gap-4 md:grid-cols-2">
-                {currentResult.suggestions.map((item, index) => (
+                {orderForDisplay(currentResult.suggestions).map(({ item, index }) => (
                   <div 
                     key={item.id} 
                     onClick={() => handleItemClick(item)}
                     className={`bg-dark-800 p-4 rounded-lg border transition-all duration-300 group cursor-pointer relative overflow-hidden ${
-                      loadingItemId === item.id 
+                      loadingItemId === item.id || regeneratingItemId === item.id
                         ? 'border-neon-purple opacity-70' 
-                        : 'border-dark-700 hover:border-neon-purple/50 hover:bg-dark-700/50'
+                        : item.pinned
+                          ? 'border-neon-yellow/50 hover:border-neon-yellow hover:bg-dark-700/50'
+                          : 'border-dark-700 hover:border-neon-purple/50 hover:bg-dark-700/50'
                     }`}
                   >
-                    {loadingItemId === item.id && (
+                    {(loadingItemId === item.id || regeneratingItemId === item.id) && (
                       <div className="absolute inset-0 flex items-center justify-center bg-black/20 z-10">
                         <Loader2 className="animate-spin text-neon-purple" size={32} />
                       </div>
                     )}
                     
                     <div className="flex items-start justify-between mb-2">
-                      <span className="font-mono text-xs text-neon-purple opacity-50 group-hover:text-neon-green group-hover:opacity-100 transition-all">
+                      <span className="font-mono text-xs text-neon-purple opacity-50 group-hover:text-neon-green group-hover:opacity-100 transition-all flex items-center gap-1">
                         #{String(index + 1).padStart(2, '0')}
+                        {item.pinned && <Pin size={10} className="text-neon-yellow" />}
                       </span>
-                      {item.details && (
-                        <span className="text-xs bg-neon-green/10 text-neon-green px-2 py-0.5 rounded border border-neon-green/30 flex items-center gap-1">
-                          <Check size={10} /> {language === Language.VI ? 'Chi tiết' : 'Details'}
-                        </span>
-                      )}
+                      <div className="flex items-center gap-1">
+                        {attentionCount(item) > 0 && (
+                          <span title={t('deadlines.attention')} className="text-xs bg-red-500/10 text-red-400 px-2 py-0.5 rounded border border-red-500/30 flex items-center gap-1">
+                            <CalendarClock size={10} /> {attentionCount(item)}
+                          </span>
+                        )}
+                        {item.details && (
+                          <span className="text-xs bg-neon-green/10 text-neon-green px-2 py-0.5 rounded border border-neon-green/30 flex items-center gap-1">
+                            <Check size={10} /> {t('home.detailsBadge')}
+                          </span>
+                        )}
+                      </div>
                     </div>
                     <h4 className="font-bold text-white mb-2 group-hover:text-neon-purple transition-colors pr-6">
                       {item.title}
@@ -533,25 +968,110 @@ export const Home: React.FC<HomeProps> = ({
                     <p className="text-sm text-gray-400 leading-relaxed line-clamp-3">
                       {item.description}
                     </p>
+                    {item.merged && item.merged.length > 0 && (
+                      <div
+                        className="mt-2 text-[10px] text-gray-500 flex items-start gap-1"
+                        title={item.merged.map(m => `${m.title} (${Math.round(m.similarity * 100)}%)`).join('\n')}
+                      >
+                        <Merge size={10} className="shrink-0 mt-0.5" />
+                        <span className="line-clamp-2">
+                          {t('dedup.alsoSuggested', { count: item.merged.length })} {item.merged.map(m => `“${m.title}”`).join(', ')}
+                        </span>
+                      </div>
+                    )}
+                    {item.details && (
+                      <div className="mt-3">
+                        <ProgressBar progress={itemProgress(item)} />
+                      </div>
+                    )}
                     
-                    <div className="mt-4 pt-3 border-t border-dark-700 flex justify-end">
+                    <div className="mt-4 pt-3 border-t border-dark-700 flex justify-between items-center">
+                      {/* Card actions; clicks must not open the deep dive */}
+                      <div className="flex items-center gap-1 no-print" onClick={(e) => e.stopPropagation()}>
+                        <button
+                          onClick={() => handleTogglePin(item)}
+                          disabled={isStreaming}
+                          title={item.pinned ? t('suggestions.unpin') : t('suggestions.pin')}
+                          className={`p-1 rounded hover:bg-dark-600 disabled:opacity-40 ${item.pinned ? 'text-neon-yellow' : 'text-gray-500 hover:text-white'}`}
+                        >
+                          <Pin size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleRegenerate(item)}
+                          disabled={isStreaming || !!regeneratingItemId || !!item.pinned}
+                          title={t('suggestions.regenerate')}
+                          className="p-1 rounded text-gray-500 hover:text-white hover:bg-dark-600 disabled:opacity-40"
+                        >
+                          <RefreshCw size={14} className={regeneratingItemId === item.id ? 'animate-spin' : ''} />
+                        </button>
+                        <button
+                          onClick={() => handleDismiss(item)}
+                          disabled={isStreaming || regeneratingItemId === item.id}
+                          title={t('suggestions.dismiss')}
+                          className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-dark-600 disabled:opacity-40"
+                        >
+                          <EyeOff size={14} />
+                        </button>
+                      </div>
                       <span className="text-xs text-neon-purple group-hover:translate-x-1 transition-transform flex items-center gap-1 font-bold uppercase">
-                        {language === Language.VI ? 'Xem Chi Tiết' : 'View Deep Dive'} <ChevronRight size={14} />
+                        {t('home.viewDeepDive')} <ChevronRight size={14} />
                       </span>
                     </div>
                   </div>
                 ))}
+                {isStreaming && (
+                  <div className="bg-dark-800/50 p-4 rounded-lg border border-dashed border-dark-700 flex items-center justify-center gap-2 text-sm text-gray-500 animate-pulse">
+                    <Loader2 className="animate-spin" size={16} />
+                    {t('home.receivingNext')}
+                  </div>
+                )}
               </div>
 
+              {/* Dismissed cards, restorable; their titles keep steering later pages */}
+              {currentResult.dismissed && currentResult.dismissed.length > 0 && (
+                <div className="no-print">
+                  <button onClick={() => setShowDismissed(v => !v)} className="text-xs text-gray-500 hover:text-white flex items-center gap-1">
+                    {showDismissed ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    {t('suggestions.dismissedCount', { count: currentResult.dismissed.length })}
+                  </button>
+                  {showDismissed && (
+                    <ul className="mt-2 space-y-1">
+                      {currentResult.dismissed.map(item => (
+                        <li key={item.id} className="flex items-center justify-between gap-2 text-sm bg-dark-800/50 border border-dark-700 rounded px-3 py-2">
+                          <span className="text-gray-500 line-through truncate">{item.title}</span>
+                          {item.merged && item.merged.length > 0 && (
+                            <span className="text-[10px] text-gray-500 flex items-center gap-1 shrink-0" title={item.merged.map(m => m.title).join('\n')}>
+                              <Merge size={10} /> {t('dedup.repeats', { count: item.merged.length })}
+                            </span>
+                          )}
+                          <button onClick={() => handleRestoreDismissed(item)} className="text-xs text-neon-purple hover:underline flex items-center gap-1 shrink-0">
+                            <Undo2 size={12} /> {t('suggestions.restore')}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               <button
                 onClick={() => handleSearch(true)}
                 disabled={isLoading}
                 className="w-full py-4 bg-dark-800 border border-dashed border-gray-600 rounded-xl text-gray-400 hover:text-white hover:border-white hover:bg-dark-700 transition-all flex items-center justify-center gap-2 mt-4 no-print"
               >
                 {isLoading ? <Loader2 className="animate-spin" /> : <Plus />}
-                {language === Language.VI ? 'Tải thêm 10 vấn đề tiếp theo' : 'Load next 10 issues'}
+                {t('home.loadMore')}
               </button>
             </div>
+
+            {/* Follow-up Thread */}
+            <FollowUpThread
+              language={language}
+              result={currentResult}
+              onPatch={patchResult}
+              addLog={addLog}
+              disabled={isStreaming}
+            />
           </div>
         </div>
       )}
@@ -1,21 +1,52 @@
-import React, { useRef } from 'react';
-import { LogEntry, Language } from '../types';
-import { Terminal, AlertTriangle, CheckCircle, Info } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { LogEntry, Language, UsageRecord, ModelPrice } from '../types';
+import { Terminal, AlertTriangle, Info, Ban, Search, ChevronRight, ChevronDown, FileJson, FileSpreadsheet, FilterX } from 'lucide-react';
 import { PrintControls } from '../components/PrintControls';
+import { UsageDashboard } from '../components/UsageDashboard';
+import { createTranslator, getLocale } from '../i18n';
+import { LOG_CAPACITY } from '../services/logBuffer';
+import { LOG_TYPES, LogFilter, LogTimeRange, DEFAULT_LOG_FILTER, filterLogs, exportLogsJsonl, exportLogsCsv } from '../services/logQuery';
+
+const TIME_RANGES: LogTimeRange[] = ['all', '15m', '1h', '24h', '7d'];
 
 interface LogsProps {
   logs: LogEntry[];
   language: Language;
+  usage: UsageRecord[];
+  modelPrices: ModelPrice[];
+  onModelPricesChange: (prices: ModelPrice[]) => void;
 }
 
-export const Logs: React.FC<LogsProps> = ({ logs, language }) => {
+export const Logs: React.FC<LogsProps> = ({ logs, language, usage, modelPrices, onModelPricesChange }) => {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
   const contentRef = useRef<HTMLDivElement>(null);
+  const [filter, setFilter] = useState<LogFilter>(DEFAULT_LOG_FILTER);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const visible = filterLogs(logs, filter);
+  const isFiltered = filter.range !== 'all' || filter.search.trim() !== '' || filter.types.length !== LOG_TYPES.length;
+  const allExpanded = visible.some(l => l.details) && visible.every(l => !l.details || expanded.has(l.id));
+
+  const toggleType = (type: LogEntry['type']) =>
+    setFilter(prev => ({
+      ...prev,
+      types: prev.types.includes(type) ? prev.types.filter(x => x !== type) : [...prev.types, type],
+    }));
+
+  const toggleDetails = (id: string) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
 
   const getIcon = (type: LogEntry['type']) => {
     switch (type) {
       case 'error': return <AlertTriangle className="text-red-500" size={16} />;
       case 'warning': return <AlertTriangle className="text-yellow-500" size={16} />;
       case 'system': return <Terminal className="text-neon-purple" size={16} />;
+      case 'cancel': return <Ban className="text-gray-400" size={16} />;
       case 'info': default: return <Info className="text-blue-400" size={16} />;
     }
   };
@@ -24,40 +55,130 @@ export const Logs: React.FC<LogsProps> = ({ logs, language }) => {
     switch (type) {
       case 'error': return 'bg-red-900/10 border-red-900/30 text-red-200';
       case 'system': return 'bg-purple-900/10 border-purple-900/30 text-purple-200';
+      case 'cancel': return 'bg-dark-800 border-dark-600 text-gray-400 italic';
       default: return 'bg-dark-800 border-dark-700 text-gray-300';
     }
   };
 
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded border border-dark-600 hover:border-neon-purple text-xs text-gray-300 hover:text-white transition-colors disabled:opacity-40 disabled:hover:border-dark-600";
+
   return (
     <div className="max-w-4xl mx-auto p-4 md:p-8 h-full flex flex-col">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-white flex items-center gap-2">
           <Terminal className="text-neon-pink" />
-          {language === Language.VI ? 'Nhật Ký Hệ Thống' : 'System Logs'}
+          {t('logs.title')}
         </h2>
         <PrintControls contentRef={contentRef} language={language} />
       </div>
 
-      <div className="flex-1 bg-black rounded-lg border border-dark-700 p-4 overflow-y-auto font-mono text-sm shadow-inner custom-scrollbar">
+      <UsageDashboard
+        usage={usage}
+        modelPrices={modelPrices}
+        onModelPricesChange={onModelPricesChange}
+        language={language}
+      />
+
+      {/* Filters */}
+      <div className="bg-dark-800 rounded-lg border border-dark-700 p-3 mb-3 space-y-3 no-print">
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+              value={filter.search}
+              onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))}
+              placeholder={t('logs.search')}
+              className="w-full bg-dark-900 border border-dark-600 rounded pl-7 pr-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-neon-purple"
+            />
+          </div>
+          <select
+            value={filter.range}
+            onChange={(e) => setFilter(prev => ({ ...prev, range: e.target.value as LogTimeRange }))}
+            className="bg-dark-900 border border-dark-600 rounded px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-neon-purple"
+          >
+            {TIME_RANGES.map(range => (
+              <option key={range} value={range}>{t(`logs.range.${range}`)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-1">
+            {LOG_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => toggleType(type)}
+                className={`flex items-center gap-1 px-2 py-1 rounded border text-[10px] font-mono uppercase tracking-wider transition-colors ${
+                  filter.types.includes(type) ? 'border-neon-purple text-white bg-dark-700' : 'border-dark-600 text-gray-500'
+                }`}
+              >
+                {getIcon(type)} {type}
+              </button>
+            ))}
+            {isFiltered && (
+              <button onClick={() => setFilter(DEFAULT_LOG_FILTER)} className={buttonClass}>
+                <FilterX size={12} /> {t('logs.clearFilters')}
+              </button>
+            )}
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={() => setExpanded(allExpanded ? new Set() : new Set(visible.filter(l => l.details).map(l => l.id)))}
+              className={buttonClass}
+            >
+              {allExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              {allExpanded ? t('logs.collapseAll') : t('logs.expandAll')}
+            </button>
+            <button onClick={() => exportLogsJsonl(visible)} disabled={visible.length === 0} className={buttonClass} title={t('logs.exportHint')}>
+              <FileJson size={12} /> JSONL
+            </button>
+            <button onClick={() => exportLogsCsv(visible)} disabled={visible.length === 0} className={buttonClass} title={t('logs.exportHint')}>
+              <FileSpreadsheet size={12} /> CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="text-[10px] font-mono text-gray-500">
+          {t('logs.count', { shown: visible.length, total: logs.length, max: LOG_CAPACITY })}
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-[24rem] bg-black rounded-lg border border-dark-700 p-4 overflow-y-auto font-mono text-sm shadow-inner custom-scrollbar">
         {logs.length === 0 && (
           <div className="text-gray-600 text-center py-10">
-            -- No logs recorded yet --
+            {t('logs.empty')}
+          </div>
+        )}
+        {logs.length > 0 && visible.length === 0 && (
+          <div className="text-gray-600 text-center py-10">
+            {t('logs.noMatch')}
           </div>
         )}
         <div ref={contentRef} className="space-y-1 printable-content">
-          {logs.slice().reverse().map((log) => (
+          {visible.slice().reverse().map((log) => (
             <div key={log.id} className={`p-2 rounded border-l-2 flex gap-3 break-inside-avoid ${getColor(log.type)}`}>
-              <span className="text-gray-500 shrink-0">
-                [{new Date(log.timestamp).toLocaleTimeString()}]
+              <span className="text-gray-500 shrink-0" title={new Date(log.timestamp).toLocaleString(locale)}>
+                [{new Date(log.timestamp).toLocaleTimeString(locale)}]
               </span>
               <div className="mt-0.5 shrink-0">{getIcon(log.type)}</div>
-              <div className="break-all">
+              <div className="break-all min-w-0">
                 <span className="font-bold mr-2 uppercase text-xs tracking-wider opacity-75">{log.type}:</span>
                 {log.message}
                 {log.details && (
-                  <pre className="mt-1 text-xs opacity-60 overflow-x-auto whitespace-pre-wrap">
-                    {log.details}
-                  </pre>
+                  <>
+                    <button
+                      onClick={() => toggleDetails(log.id)}
+                      className="ml-2 inline-flex items-center text-[10px] uppercase tracking-wider opacity-60 hover:opacity-100 no-print"
+                    >
+                      {expanded.has(log.id) ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                      {t('logs.details')}
+                    </button>
+                    {expanded.has(log.id) && (
+                      <pre className="mt-1 text-xs opacity-60 overflow-x-auto whitespace-pre-wrap">
+                        {log.details}
+                      </pre>
+                    )}
+                  </>
                 )}
               </div>
             </div>
@@ -66,4 +187,4 @@ export const Logs: React.FC<LogsProps> = ({ logs, language }) => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
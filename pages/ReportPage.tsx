@@ -1,149 +1,155 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { Language, SearchResult, LogEntry, SuggestionItem } from '../types';
-import { analyzeSpecificItem } from '../services/geminiService';
-import { List, Zap, Link as LinkIcon, Cpu, Bot, Download, Copy, Printer, Check, Loader2, AlertTriangle } from 'lucide-react';
-import { jsPDF } from "jspdf";
-import html2canvas from "html2canvas";
+import React, { useEffect, useRef, useState } from 'react';
+import { Language, SearchResult, LogEntry, ModelPrice, UsageRecord, TaskStatus } from '../types';
+import { analyzeSpecificItem, detailRequestKey } from '../services/geminiService';
+import { DETAIL_QUEUE_GROUP, RequestCancelledError, isQueued, resumeGroup } from '../services/requestScheduler';
+import { QueueControls, isGroupRunning, useSchedulerSnapshot } from '../components/RequestQueueStatus';
+import { DEFAULT_PERSONA, personaLabelKey } from '../services/personas';
+import { appendUsage, sumUsage, formatCost, formatTokens } from '../services/usage';
+import { getTask, itemProgress, resultProgress } from '../services/checklist';
+import { dueState, fromDateKey } from '../services/deadlines';
+import { exportCalendar, calendarEventCount } from '../services/icsExport';
+import { ProgressBar } from '../components/ProgressBar';
+import { createTranslator, getLocale } from '../i18n';
+import { List, Zap, Link as LinkIcon, Cpu, Bot, Download, Copy, Printer, Check, Loader2, AlertTriangle, MessageSquare, FileType, Play, Coins, Share2, FileJson, X, CalendarDays, Square, SquareCheck, SquareDot, SquareMinus } from 'lucide-react';
+import { buildReportModel } from '../services/reportModel';
+import { exportReportPdf, PdfUnsupportedScriptError, pdfSupportsLanguage } from '../services/pdfExport';
+import { exportReportDocx } from '../services/docxExport';
+import { createShareLink, ShareLinkTooLargeError, MAX_SHARE_URL_LENGTH } from '../services/shareLink';
+import { exportJsonBundle } from '../services/bundleService';
+
+const TASK_ICONS: Record<TaskStatus, React.ReactNode> = {
+  todo: <Square size={14} className="text-gray-400" />,
+  in_progress: <SquareDot size={14} className="text-amber-600" />,
+  done: <SquareCheck size={14} className="text-emerald-600" />,
+  skipped: <SquareMinus size={14} className="text-gray-400" />,
+};
 
 interface ReportPageProps {
   language: Language;
   currentResult: SearchResult | null;
-  updateResult: (result: SearchResult) => void;
-  addToHistory: (result: SearchResult) => void;
+  resultSignal: AbortSignal; // Aborted when another analysis replaces currentResult
+  patchResult: (id: string, patch: (result: SearchResult) => SearchResult) => void;
+  modelPrices: ModelPrice[];
   addLog: (entry: LogEntry) => void;
 }
 
 export const ReportPage: React.FC<ReportPageProps> = ({ 
   language, 
   currentResult, 
-  updateResult, 
-  addToHistory, 
+  resultSignal,
+  patchResult, 
+  modelPrices,
   addLog 
 }) => {
-  const [isAutoGenerating, setIsAutoGenerating] = useState(false);
-  const [genProgress, setGenProgress] = useState({ current: 0, total: 0 });
-  const [statusMessage, setStatusMessage] = useState<string>('');
+  const t = createTranslator(language);
+  const locale = getLocale(language);
   const [copied, setCopied] = useState(false);
   const [isExportingPdf, setIsExportingPdf] = useState(false);
-  const reportRef = useRef<HTMLDivElement>(null);
-
-  // Fix: Track latest result in ref to avoid stale closures in async loop
-  const currentResultRef = useRef(currentResult);
-  useEffect(() => {
-    currentResultRef.current = currentResult;
-  }, [currentResult]);
-
-  // Auto-Generation Trigger on Mount or Update
+  const [isExportingDocx, setIsExportingDocx] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareNotice, setShareNotice] = useState<{ kind: 'copied' | 'tooLarge' | 'error'; length?: number } | null>(null);
+
+  // Deep dives run in the shared request queue, so they keep going when this page unmounts
+  const scheduler = useSchedulerSnapshot();
+  const detailQueue = scheduler.groups[DETAIL_QUEUE_GROUP];
+  const isAutoGenerating = isGroupRunning(detailQueue);
+  const isStopped = !!detailQueue?.stopped;
+  const missingCount = currentResult?.suggestions.filter(s => !s.details).length ?? 0;
+  const usageTotals = sumUsage(currentResult?.usage ?? [], modelPrices);
+
+  // Deep dives already queued by this page for the open analysis, including the ones that failed.
+  // Cleared when another analysis is opened or the queue is resumed, so failures retry once per trigger.
+  const attemptedRef = useRef<{ resultId: string; keys: Set<string> } | null>(null);
+  const wasStoppedRef = useRef(isStopped);
+
+  // Queue every missing deep dive when the page opens, when another analysis is opened and after
+  // the queue is resumed; not on every patch of the analysis.
+  // The signal of a replaced analysis is already aborted; its successor arrives on the next render.
   useEffect(() => {
-    if (currentResult && !isAutoGenerating) {
-       const missing = currentResult.suggestions.filter(s => !s.details);
-       if (missing.length > 0) {
-          triggerAutoGeneration(missing);
-       }
+    const resumed = wasStoppedRef.current && !isStopped;
+    wasStoppedRef.current = isStopped;
+    if (!currentResult || isStopped || resultSignal.aborted) return;
+    if (resumed || attemptedRef.current?.resultId !== currentResult.id) {
+      attemptedRef.current = { resultId: currentResult.id, keys: new Set() };
     }
+    queueMissingDetails(currentResult, resultSignal, attemptedRef.current.keys);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentResult]); // Keep dependency simple to trigger check on updates
+  }, [currentResult?.id, isStopped, resultSignal]);
 
-  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-  const triggerAutoGeneration = async (items: SuggestionItem[]) => {
-     if (isAutoGenerating) return;
-
-     setIsAutoGenerating(true);
-     setGenProgress({ current: 0, total: items.length });
-     
-     addLog({
+  const queueMissingDetails = (result: SearchResult, signal: AbortSignal, attempted: Set<string>) => {
+    const missing = result.suggestions.filter(s => {
+      const key = detailRequestKey(result.id, s.id);
+      return !s.details && !attempted.has(key) && !isQueued(key);
+    });
+    if (missing.length === 0) return;
+    missing.forEach(s => attempted.add(detailRequestKey(result.id, s.id)));
+
+    // Deep dives of this batch still waiting when the analysis is replaced
+    const pending = new Set(missing.map(s => s.id));
+    signal.addEventListener('abort', () => {
+      if (pending.size === 0) return;
+      addLog({
         id: crypto.randomUUID(),
         timestamp: Date.now(),
-        type: 'system',
-        message: 'Report Page: Auto-Generation Started',
-        details: `Queueing ${items.length} items with rate limiting...`
-     });
-     
-     for (let i = 0; i < items.length; i++) {
-        const item = items[i];
-        
-        // Rate Limiting: Wait 4s between requests to satisfy ~15 RPM free tier limit
-        if (i > 0) {
-            setStatusMessage(`Waiting for rate limit (Cooling down)...`);
-            await delay(4000); 
-        }
-
-        let success = false;
-        let retries = 0;
-        const maxRetries = 3;
-
-        setStatusMessage(`Analyzing item ${i + 1}/${items.length}: "${item.title}"...`);
-
-        while (!success && retries < maxRetries) {
-            try {
-               const queryContext = currentResultRef.current?.query || "";
-               const details = await analyzeSpecificItem(item.title, queryContext, language);
-               
-               // Use Ref to ensure we are patching the latest state
-               if (currentResultRef.current) {
-                  const newResult = {
-                     ...currentResultRef.current,
-                     suggestions: currentResultRef.current.suggestions.map(s => s.id === item.id ? { ...s, details } : s)
-                  };
-                  updateResult(newResult);
-               }
-               success = true;
-            } catch (e: any) {
-               const isRateLimit = e.message?.includes('429') || e.message?.includes('quota') || e.status === 429;
-               
-               if (isRateLimit) {
-                   retries++;
-                   const waitTime = 12000 + (retries * 2000); // Backoff: 12s, 14s, 16s
-                   const msg = `Rate Limit (429) hit. Cooling down ${waitTime/1000}s... (Retry ${retries}/${maxRetries})`;
-                   
-                   setStatusMessage(msg);
-                   addLog({
-                        id: crypto.randomUUID(),
-                        timestamp: Date.now(),
-                        type: 'warning',
-                        message: `Quota Exceeded for "${item.title}". Pausing...`,
-                        details: msg
-                   });
-                   
-                   await delay(waitTime); 
-               } else {
-                   console.error("Auto-gen error for", item.title, e);
-                   addLog({
-                        id: crypto.randomUUID(),
-                        timestamp: Date.now(),
-                        type: 'error',
-                        message: `Failed to generate: ${item.title}`,
-                        details: e.message
-                   });
-                   break; // Skip item on non-recoverable error
-               }
-            }
-        }
-        setGenProgress(prev => ({ ...prev, current: i + 1 }));
-     }
+        type: 'cancel',
+        message: 'Report Page: Auto-Generation Superseded',
+        details: `${pending.size} deep dives dropped for "${result.query}"`
+      });
+    }, { once: true });
+
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'system',
+      message: 'Report Page: Auto-Generation Started',
+      details: `Queueing ${missing.length} items (${scheduler.rpm} requests/min)`
+    });
 
-     setStatusMessage('');
-     setIsAutoGenerating(false);
-     addLog({
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
-        type: 'system',
-        message: 'Report Page: Generation Queue Complete'
-     });
+    for (const item of missing) {
+      const records: UsageRecord[] = [];
+      analyzeSpecificItem(item.title, result.query, language, result.persona, {
+        group: DETAIL_QUEUE_GROUP,
+        key: detailRequestKey(result.id, item.id),
+        priority: 'background',
+        signal,
+        usage: { resultId: result.id, suggestionId: item.id, records }
+      })
+        .finally(() => pending.delete(item.id))
+        .then(details => patchResult(result.id, latest => appendUsage({
+          ...latest,
+          suggestions: latest.suggestions.map(s => s.id === item.id ? { ...s, details } : s)
+        }, records)))
+        .catch((e: any) => {
+          if (e instanceof RequestCancelledError) return;
+          console.error("Auto-gen error for", item.title, e);
+          addLog({
+            id: crypto.randomUUID(),
+            timestamp: Date.now(),
+            type: 'error',
+            message: `Failed to generate: ${item.title}`,
+            details: e.message
+          });
+        });
+    }
   };
 
   const generateReportText = () => {
     if (!currentResult) return '';
-    const dateStr = new Date(currentResult.timestamp).toLocaleDateString();
-    const title = language === Language.VI ? "BÁO CÁO TỔNG HỢP VẤN ĐỀ" : "EXECUTIVE SUMMARY REPORT";
+    const dateStr = new Date(currentResult.timestamp).toLocaleDateString(locale);
+    const title = t('report.copyTitle');
     
     // Simple text generation for clipboard
     let text = `${title}\n-------------------\nQuery: ${currentResult.query}\nDate: ${dateStr}\n\n`;
     currentResult.suggestions.forEach((item, idx) => {
         text += `${idx + 1}. ${item.title}\n${item.description}\n`;
-        if (item.details) text += `Analysis: ${item.details.analysis}\nSteps: ${item.details.steps.join(', ')}\nRisk: ${item.details.risks}\n\n`;
+        if (item.details) text += `Analysis: ${item.details.analysis}\nSteps: ${item.details.steps.map((step, i) => getTask(item, i).status === 'done' ? `[x] ${step}` : step).join(', ')}\nRisk: ${item.details.risks}\n\n`;
     });
+    if (currentResult.thread && currentResult.thread.length > 0) {
+        text += `\n${t('report.section.followUp')}\n-------------------\n`;
+        currentResult.thread.forEach(msg => {
+            text += `${msg.role === 'user' ? 'Q' : 'A'}: ${msg.content}\n\n`;
+        });
+    }
     return text;
   };
 
@@ -154,109 +160,117 @@ export const ReportPage: React.FC<ReportPageProps> = ({
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleShare = async () => {
+    if (!currentResult) return;
+    setIsSharing(true);
+    setShareNotice(null);
+    try {
+      const url = await createShareLink(currentResult);
+      await navigator.clipboard.writeText(url);
+      setShareNotice({ kind: 'copied' });
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'info',
+        message: 'Share link copied',
+        details: `${url.length} characters`
+      });
+    } catch (err: any) {
+      if (err instanceof ShareLinkTooLargeError) {
+        setShareNotice({ kind: 'tooLarge', length: err.length });
+      } else {
+        setShareNotice({ kind: 'error' });
+      }
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: err instanceof ShareLinkTooLargeError ? 'warning' : 'error',
+        message: 'Share link not created',
+        details: err?.message
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
   const handlePrint = () => {
     window.print();
   };
 
   const handleDownloadPdf = async () => {
-    if (!reportRef.current) return;
+    if (!currentResult) return;
     setIsExportingPdf(true);
     try {
-      const originalElement = reportRef.current;
-      const clone = originalElement.cloneNode(true) as HTMLElement;
-      
-      // Setup consistent width for A4 rendering (approx 794px at 96dpi)
-      const A4_WIDTH_PX = 794; 
-      
-      const container = document.createElement('div');
-      Object.assign(container.style, {
-        position: 'fixed', top: '0', left: '0', zIndex: '-9999',
-        width: `${A4_WIDTH_PX}px`, backgroundColor: '#ffffff'
-      });
-      
-      Object.assign(clone.style, {
-        padding: '30px', 
-        boxSizing: 'border-box',
-        width: '100%', maxWidth: 'none', margin: '0',
-        backgroundColor: '#ffffff', color: '#000000',
-        boxShadow: 'none', borderRadius: '0',
-        fontFamily: 'Arial, sans-serif'
-      });
-
-      container.appendChild(clone);
-      document.body.appendChild(container);
-      
-      await new Promise(resolve => setTimeout(resolve, 200));
-
-      const canvas = await html2canvas(clone, {
-        scale: 2, 
-        useCORS: true, 
-        backgroundColor: '#ffffff',
-        logging: false, 
-        width: A4_WIDTH_PX, 
-        windowWidth: A4_WIDTH_PX
-      });
-
-      document.body.removeChild(container);
-
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      
-      const margin = 20; 
-      const contentWidth = pdfWidth - (margin * 2);
-      const contentHeight = pdfHeight - (margin * 2);
-
-      const scaleFactor = contentWidth / canvas.width;
-      const pageHeightInCanvasPx = contentHeight / scaleFactor;
-
-      let currentSourceY = 0;
-      
-      while (currentSourceY < canvas.height) {
-        if (currentSourceY > 0) {
-           pdf.addPage();
-        }
-
-        const sliceHeightPx = Math.min(pageHeightInCanvasPx, canvas.height - currentSourceY);
-        
-        const sliceCanvas = document.createElement('canvas');
-        sliceCanvas.width = canvas.width;
-        sliceCanvas.height = sliceHeightPx;
-        
-        const ctx = sliceCanvas.getContext('2d');
-        if (ctx) {
-            ctx.drawImage(
-                canvas, 
-                0, currentSourceY, canvas.width, sliceHeightPx, 
-                0, 0, canvas.width, sliceHeightPx 
-            );
-
-            const sliceImgData = sliceCanvas.toDataURL('image/png');
-            const pdfSliceHeight = sliceHeightPx * scaleFactor;
-
-            pdf.addImage(sliceImgData, 'PNG', margin, margin, contentWidth, pdfSliceHeight);
-        }
-
-        currentSourceY += pageHeightInCanvasPx;
+      await exportReportPdf(buildReportModel(currentResult, t, locale));
+    } catch (err: any) {
+      if (err instanceof PdfUnsupportedScriptError) {
+        addLog({
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          type: 'warning',
+          message: 'PDF Export Unavailable',
+          details: err.message
+        });
+        alert(t('common.pdfNoCjk'));
+        return;
       }
-      
-      pdf.save(`report-${language === Language.VI ? 'tong-hop' : 'summary'}-${Date.now()}.pdf`);
-    } catch (err) {
       console.error(err);
-      alert(language === Language.VI ? 'Lỗi tạo file PDF' : 'PDF generation failed.');
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'error',
+        message: 'PDF Export Failed',
+        details: err?.message
+      });
+      alert(t('report.pdfError'));
     } finally {
       setIsExportingPdf(false);
     }
   };
 
+  const handleDownloadDocx = async () => {
+    if (!currentResult) return;
+    setIsExportingDocx(true);
+    try {
+      await exportReportDocx(buildReportModel(currentResult, t, locale));
+    } catch (err: any) {
+      console.error(err);
+      addLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'error',
+        message: 'DOCX Export Failed',
+        details: err?.message
+      });
+      alert(t('report.docxError'));
+    } finally {
+      setIsExportingDocx(false);
+    }
+  };
+
+  const handleExportCalendar = () => {
+    if (!currentResult) return;
+    const count = calendarEventCount(currentResult);
+    if (count === 0) {
+      alert(t('deadlines.noDates'));
+      return;
+    }
+    exportCalendar(currentResult, t);
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'info',
+      message: 'Calendar exported',
+      details: `${count} dated steps`
+    });
+  };
+
   if (!currentResult) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-gray-500">
         <Zap size={64} className="mb-4 opacity-30" />
         <p className="text-xl text-center max-w-md">
-          {language === Language.VI 
-             ? 'Chưa có dữ liệu phân tích. Vui lòng quay lại trang "Phân Tích" và nhập vấn đề.' 
-             : 'No analysis data. Please go back to "Debugger" page and submit an issue.'}
+          {t('report.empty')}
         </p>
       </div>
     );
@@ -268,54 +282,115 @@ export const ReportPage: React.FC<ReportPageProps> = ({
       <div className="flex justify-between items-center bg-dark-800 p-3 rounded-lg border border-dark-700 no-print">
         <div className="text-sm font-bold text-gray-300 flex items-center gap-2">
            <Zap size={16} className="text-neon-yellow"/>
-           <span>{language === Language.VI ? 'Báo Cáo & Hồ Sơ (A4 Ready)' : 'Executive Report View'}</span>
+           <span>{t('report.toolbar')}</span>
         </div>
         <div className="flex gap-2">
-            <button onClick={handleCopyReport} className="btn-icon" title="Copy Text">
+            <button onClick={handleShare} disabled={isSharing} className="btn-icon" title={t('report.toolbar.share')}>
+                {isSharing ? <Loader2 size={18} className="animate-spin"/> : <Share2 size={18}/>}
+            </button>
+            <button onClick={handleCopyReport} className="btn-icon" title={t('report.toolbar.copy')}>
                 {copied ? <Check size={18} className="text-green-400"/> : <Copy size={18}/>}
             </button>
-            <button onClick={handleDownloadPdf} disabled={isExportingPdf} className="btn-icon" title="Download PDF with Padding">
+            <button onClick={handleDownloadPdf} disabled={isExportingPdf} className={`btn-icon ${pdfSupportsLanguage(language) ? '' : 'opacity-50'}`} title={pdfSupportsLanguage(language) ? t('report.toolbar.pdf') : t('common.pdfNoCjk')}>
                 {isExportingPdf ? <Loader2 size={18} className="animate-spin"/> : <Download size={18}/>}
             </button>
-            <button onClick={handlePrint} className="btn-icon" title="Print">
+            <button onClick={handleDownloadDocx} disabled={isExportingDocx} className="btn-icon" title={t('report.toolbar.docx')}>
+                {isExportingDocx ? <Loader2 size={18} className="animate-spin"/> : <FileType size={18}/>}
+            </button>
+            <button onClick={handleExportCalendar} className="btn-icon" title={t('report.toolbar.calendar')}>
+                <CalendarDays size={18}/>
+            </button>
+            <button onClick={handlePrint} className="btn-icon" title={t('report.toolbar.print')}>
                 <Printer size={18}/>
             </button>
         </div>
       </div>
 
+      {/* Share link result */}
+      {shareNotice && (
+         <div className={`flex items-start justify-between gap-3 p-3 rounded border text-sm no-print ${
+           shareNotice.kind === 'copied' ? 'bg-green-900/20 border-green-700/40 text-green-300' : 'bg-orange-900/20 border-orange-500/40 text-orange-200'
+         }`}>
+            <div className="space-y-2">
+              <div>
+                {shareNotice.kind === 'copied' && t('share.copied')}
+                {shareNotice.kind === 'error' && t('share.error')}
+                {shareNotice.kind === 'tooLarge' && t('share.tooLarge', { length: shareNotice.length ?? 0, max: MAX_SHARE_URL_LENGTH })}
+              </div>
+              {shareNotice.kind !== 'copied' && (
+                <button
+                  onClick={() => exportJsonBundle([currentResult])}
+                  className="flex items-center gap-1 text-xs font-bold uppercase hover:text-white"
+                >
+                  <FileJson size={14} /> {t('share.downloadBundle')}
+                </button>
+              )}
+            </div>
+            <button onClick={() => setShareNotice(null)} className="opacity-60 hover:opacity-100">
+              <X size={16} />
+            </button>
+         </div>
+      )}
+
       {/* Auto Gen Progress */}
-      {isAutoGenerating && (
+      {isAutoGenerating && detailQueue && (
          <div className="mb-4 space-y-2 no-print">
-           <div className="bg-dark-700 rounded-full h-4 overflow-hidden border border-dark-600 relative animate-pulse">
+           <div className={`bg-dark-700 rounded-full h-4 overflow-hidden border border-dark-600 relative ${detailQueue.paused ? '' : 'animate-pulse'}`}>
              <div 
-               className={`h-full transition-all duration-500 ease-out ${statusMessage.includes('Cooling') ? 'bg-orange-500' : 'bg-neon-green'}`}
-               style={{ width: `${(genProgress.current / genProgress.total) * 100}%` }}
+               className={`h-full transition-all duration-500 ease-out ${scheduler.rateLimited ? 'bg-orange-500' : 'bg-neon-green'}`}
+               style={{ width: `${(detailQueue.done / detailQueue.total) * 100}%` }}
              ></div>
            </div>
-           <div className="flex justify-between items-center text-[10px] font-mono uppercase tracking-wider">
-              <span className="text-neon-green font-bold">
-                 {statusMessage || (language === Language.VI ? 'ĐANG TẠO CHI TIẾT TỰ ĐỘNG...' : 'AUTO-GENERATING...')}
+           <div className="flex justify-between items-center text-[10px] font-mono uppercase tracking-wider gap-2">
+              <span className="text-neon-green font-bold truncate">
+                 {detailQueue.paused ? t('queue.paused') : scheduler.running[0]?.label || t('report.autoGenerating')}
               </span>
-              <span className="text-gray-400">{genProgress.current}/{genProgress.total}</span>
+              <div className="flex items-center gap-3 shrink-0">
+                {detailQueue.failed > 0 && <span className="text-red-400">{t('queue.failed', { count: detailQueue.failed })}</span>}
+                <span className="text-gray-400">{detailQueue.done}/{detailQueue.total}</span>
+                <QueueControls language={language} group={DETAIL_QUEUE_GROUP} state={detailQueue} />
+              </div>
            </div>
-           {statusMessage.includes('429') && (
+           {scheduler.rateLimited && (
               <div className="flex items-center gap-2 text-xs text-orange-400 bg-orange-900/20 p-2 rounded border border-orange-500/30">
                  <AlertTriangle size={12} />
-                 <span>Free Tier Limit Hit: Pausing to respect API quota...</span>
+                 <span>{t('report.freeTierHit')}</span>
               </div>
            )}
          </div>
       )}
+      {isStopped && missingCount > 0 && (
+         <div className="mb-4 flex items-center justify-between gap-2 text-xs text-orange-300 bg-orange-900/20 p-2 rounded border border-orange-500/30 no-print">
+            <span>{t('queue.cancelled', { count: missingCount })}</span>
+            <button onClick={() => resumeGroup(DETAIL_QUEUE_GROUP)} className="flex items-center gap-1 font-bold uppercase hover:text-white">
+              <Play size={12} /> {t('queue.resume')}
+            </button>
+         </div>
+      )}
+
+      {/* Usage of this analysis */}
+      {usageTotals.calls > 0 && (
+         <div className="mb-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs font-mono text-gray-400 bg-dark-800 p-2 rounded border border-dark-700 no-print">
+            <span className="flex items-center gap-1 text-gray-300 font-bold uppercase tracking-wider">
+              <Coins size={12} className="text-neon-yellow" /> {t('usage.thisAnalysis')}
+            </span>
+            <span>{t('usage.callCount', { count: usageTotals.calls })}</span>
+            <span>{t('usage.tokensInOut', { input: formatTokens(usageTotals.promptTokens, locale), output: formatTokens(usageTotals.outputTokens, locale) })}</span>
+            <span>{(usageTotals.latencyMs / 1000).toFixed(1)}s</span>
+            <span className="text-neon-green">{formatCost(usageTotals.cost, locale)}</span>
+            {usageTotals.unpriced > 0 && <span className="text-yellow-500">{t('usage.unpriced', { count: usageTotals.unpriced })}</span>}
+         </div>
+      )}
 
       {/* Report Content */}
-      <div className="bg-white text-black p-10 md:p-16 rounded shadow-2xl min-h-[800px] font-serif printable-content" ref={reportRef}>
+      <div className="bg-white text-black p-10 md:p-16 rounded shadow-2xl min-h-[800px] font-serif printable-content">
           {/* Header */}
           <div className="border-b-4 border-double border-black pb-6 mb-8 text-center">
             <h2 className="text-2xl md:text-3xl font-bold uppercase mb-2 tracking-wider text-blue-900">
-              {language === Language.VI ? 'BÁO CÁO TỔNG HỢP' : 'EXECUTIVE REPORT'}
+              {t('report.title')}
             </h2>
             <p className="text-gray-500 italic text-sm">
-              LifeDebugger generated content
+              {t('report.generatedBy')}
             </p>
           </div>
 
@@ -323,27 +398,52 @@ export const ReportPage: React.FC<ReportPageProps> = ({
           <div className="grid grid-cols-2 gap-4 mb-8 text-sm font-sans border-b border-gray-200 pb-4">
             <div>
               <span className="font-bold text-gray-500 block uppercase text-xs">
-                {language === Language.VI ? 'Vấn đề / Chủ đề' : 'Subject'}:
+                {t('report.subject')}:
               </span>
               <span className="font-bold text-lg text-black">{currentResult.query}</span>
             </div>
             <div className="text-right">
               <span className="font-bold text-gray-500 block uppercase text-xs">
-                {language === Language.VI ? 'Ngày báo cáo' : 'Date'}:
+                {t('report.date')}:
               </span>
-              <span className="text-black">{new Date(currentResult.timestamp).toLocaleDateString()}</span>
+              <span className="text-black">{new Date(currentResult.timestamp).toLocaleDateString(locale)}</span>
             </div>
+            <div className="col-span-2">
+              <span className="font-bold text-gray-500 block uppercase text-xs">
+                {t('report.persona')}:
+              </span>
+              <span className="text-black text-xs">
+                {t('report.personaLevel', {
+                  persona: t(personaLabelKey(currentResult.persona)),
+                  level: (currentResult.persona ?? DEFAULT_PERSONA).intensity
+                })}
+              </span>
+            </div>
+            {currentResult.attachments && currentResult.attachments.length > 0 && (
+              <div className="col-span-2">
+                <span className="font-bold text-gray-500 block uppercase text-xs">
+                  {t('report.attachments')}:
+                </span>
+                <span className="text-black text-xs font-mono">
+                  {currentResult.attachments
+                    .map(a => a.extract
+                      ? t('report.fetchedAt', { name: a.name ?? '', date: new Date(a.extract.fetchedAt).toLocaleString(locale) })
+                      : a.name)
+                    .join(' · ')}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Table of Contents */}
           <div className="mb-8 p-6 rounded border border-blue-100 break-inside-avoid">
               <h3 className="font-bold text-lg uppercase mb-4 border-b border-blue-100 pb-2 flex items-center gap-2 text-blue-900">
                  <List size={20} />
-                 {language === Language.VI ? 'MỤC LỤC' : 'TABLE OF CONTENTS'}
+                 {t('report.toc')}
               </h3>
               <ul className="space-y-1 text-sm font-sans">
-                 <li className="font-bold text-base text-blue-800">I. {language === Language.VI ? 'PHÂN TÍCH TỔNG QUAN' : 'GENERAL ANALYSIS'}</li>
-                 <li className="font-bold text-base mt-2 text-rose-800">II. {language === Language.VI ? 'BÁO CÁO CHI TIẾT' : 'DETAILED REPORT'}</li>
+                 <li className="font-bold text-base text-blue-800">I. {t('report.toc.analysis')}</li>
+                 <li className="font-bold text-base mt-2 text-rose-800">II. {t('report.toc.details')}</li>
                  <ul className="pl-6 space-y-1 text-gray-600 font-mono text-xs">
                     {currentResult.suggestions.map((item, idx) => (
                        <li key={item.id} className="truncate">
@@ -351,15 +451,18 @@ export const ReportPage: React.FC<ReportPageProps> = ({
                        </li>
                     ))}
                  </ul>
-                 <li className="font-bold text-base mt-2 text-purple-800">III. {language === Language.VI ? 'PROMPT & AI TƯ VẤN' : 'PROMPT & AI ADVICE'}</li>
-                 <li className="font-bold text-base mt-2 text-emerald-800">IV. {language === Language.VI ? 'NGUỒN TÀI LIỆU' : 'REFERENCES'}</li>
+                 <li className="font-bold text-base mt-2 text-purple-800">III. {t('report.toc.prompt')}</li>
+                 <li className="font-bold text-base mt-2 text-emerald-800">IV. {t('report.toc.references')}</li>
+                 {currentResult.thread && currentResult.thread.length > 0 && (
+                   <li className="font-bold text-base mt-2 text-pink-800">V. {t('report.toc.followUp')}</li>
+                 )}
               </ul>
           </div>
 
           {/* I. Analysis */}
           <div className="mb-8">
             <h3 className="font-bold uppercase border-l-4 border-blue-600 pl-3 mb-3 text-lg text-blue-900">
-              I. {language === Language.VI ? 'PHÂN TÍCH TỔNG QUAN & ĐÁNH GIÁ' : 'GENERAL ANALYSIS & EVALUATION'}
+              I. {t('report.section.analysis')}
             </h3>
             <div className="text-justify leading-relaxed text-gray-900 whitespace-pre-wrap pl-4 border-l border-gray-200">
                 {currentResult.roastCommentary}
@@ -369,8 +472,11 @@ export const ReportPage: React.FC<ReportPageProps> = ({
           {/* II. Detailed Report */}
           <div className="mb-8">
             <h3 className="font-bold uppercase border-l-4 border-rose-600 pl-3 mb-3 text-lg text-rose-900">
-              II. {language === Language.VI ? 'BÁO CÁO CHI TIẾT CÁC VẤN ĐỀ' : 'DETAILED REPORT OF ISSUES'}
+              II. {t('report.section.details')}
             </h3>
+            <div className="mb-4 max-w-sm">
+              <ProgressBar progress={resultProgress(currentResult)} label={t('checklist.analysisProgress')} tone="light" />
+            </div>
             <div className="space-y-6">
               {currentResult.suggestions.map((item, index) => (
                   <div key={item.id} className="break-inside-avoid border-b border-gray-100 pb-4">
@@ -385,25 +491,49 @@ export const ReportPage: React.FC<ReportPageProps> = ({
                       <div className="ml-4 pl-4 border-l border-gray-300 mt-2 text-sm text-gray-600">
                         <div className="flex gap-2 mb-2 items-center text-amber-700 border-b border-amber-100 pb-1 w-fit">
                           <Zap size={14}/>
-                          <span className="font-bold text-xs uppercase">Analysis & Guide</span>
+                          <span className="font-bold text-xs uppercase">{t('report.analysisGuide')}</span>
                         </div>
                         <p className="mb-3 whitespace-pre-wrap leading-relaxed text-gray-800">{item.details.analysis}</p>
                         <div className="mb-3">
-                          <span className="font-bold text-xs uppercase block mb-1 text-emerald-700">Actionable Steps:</span>
-                          <ul className="list-disc pl-5 space-y-1 text-gray-700">
-                            {item.details.steps.map((s,i) => <li key={i}>{s}</li>)}
+                          <div className="flex items-center gap-3 mb-1">
+                            <span className="font-bold text-xs uppercase text-emerald-700">{t('report.actionableSteps')}</span>
+                            <div className="flex-1 max-w-[200px]"><ProgressBar progress={itemProgress(item)} tone="light" /></div>
+                          </div>
+                          <ul className="space-y-1 text-gray-700">
+                            {item.details.steps.map((s, i) => {
+                              const task = getTask(item, i);
+                              return (
+                                <li key={i} className="flex gap-2">
+                                  <span className="shrink-0 pt-0.5" title={t(`checklist.status.${task.status}`)}>{TASK_ICONS[task.status]}</span>
+                                  <div>
+                                    <span className={task.status === 'skipped' ? 'line-through text-gray-400' : ''}>{s}</span>
+                                    {task.completedAt && (
+                                      <span className="ml-2 text-xs text-emerald-700">
+                                        {t('checklist.completedOn', { date: new Date(task.completedAt).toLocaleDateString(locale) })}
+                                      </span>
+                                    )}
+                                    {task.dueDate && !task.completedAt && (
+                                      <span className={`ml-2 text-xs ${dueState(task) === 'overdue' ? 'text-red-700 font-bold' : 'text-amber-700'}`}>
+                                        {t('deadlines.dueOn', { date: fromDateKey(task.dueDate).toLocaleDateString(locale) })}
+                                      </span>
+                                    )}
+                                    {task.notes && <p className="text-xs italic text-gray-500 whitespace-pre-wrap">{task.notes}</p>}
+                                  </div>
+                                </li>
+                              );
+                            })}
                           </ul>
                         </div>
                         <div className="text-red-700 mt-2">
-                          <span className="font-bold uppercase mr-1 text-xs border border-red-200 px-1 rounded">Risk:</span>
+                          <span className="font-bold uppercase mr-1 text-xs border border-red-200 px-1 rounded">{t('report.risk')}</span>
                           {item.details.risks}
                         </div>
                       </div>
                     ) : (
-                      isAutoGenerating && (
+                      isQueued(detailRequestKey(currentResult.id, item.id)) && (
                           <div className="ml-4 pl-4 mt-2 text-xs text-gray-400 animate-pulse italic flex items-center gap-2">
                             <Loader2 size={12} className="animate-spin"/>
-                            Waiting for analysis...
+                            {t('report.waiting')}
                           </div>
                       )
                     )}
@@ -416,20 +546,20 @@ export const ReportPage: React.FC<ReportPageProps> = ({
           <div className="mb-8 break-inside-avoid">
             <h3 className="font-bold uppercase border-l-4 border-purple-600 pl-3 mb-3 text-lg text-purple-900 flex items-center gap-2">
               <Cpu size={20} />
-              III. {language === Language.VI ? 'PROMPT & AI TƯ VẤN (DÀNH CHO CHUYÊN GIA)' : 'PROMPT ENGINEERING & AI ADVICE'}
+              III. {t('report.section.prompt')}
             </h3>
             <div className="pl-4 border-l border-gray-200 space-y-4">
                 <div className="flex gap-2 items-start">
                      <div className="mt-1"><Bot size={16} className="text-purple-700"/></div>
                      <div>
-                        <span className="font-bold text-sm text-purple-800 block uppercase">{language === Language.VI ? 'Mô hình AI Khuyên dùng:' : 'Recommended AI Model:'}</span>
+                        <span className="font-bold text-sm text-purple-800 block uppercase">{t('report.recommendedModel')}</span>
                         <span className="font-mono text-lg font-bold text-gray-900">{currentResult.bestModel || 'Gemini 1.5 Pro / Claude 3.5 Sonnet'}</span>
                      </div>
                 </div>
                 <div>
-                     <span className="font-bold text-sm text-purple-800 block uppercase mb-1">{language === Language.VI ? 'Câu lệnh mẫu tối ưu (Copy Prompt):' : 'Optimized System Prompt:'}</span>
+                     <span className="font-bold text-sm text-purple-800 block uppercase mb-1">{t('report.optimizedPrompt')}</span>
                      <div className="border border-purple-200 p-3 rounded font-mono text-xs text-gray-600 leading-relaxed bg-white select-all">
-                        {currentResult.promptSuggestion || "Analyzing prompt requirements..."}
+                        {currentResult.promptSuggestion || t('report.promptPending')}
                      </div>
                 </div>
             </div>
@@ -439,26 +569,52 @@ export const ReportPage: React.FC<ReportPageProps> = ({
           <div className="mb-8 p-6 rounded border border-emerald-100 break-inside-avoid">
             <h3 className="font-bold uppercase mb-4 text-sm text-emerald-800 flex items-center gap-2 border-b border-emerald-100 pb-2">
               <LinkIcon size={14} />
-              IV. {language === Language.VI ? 'NGUỒN TÀI LIỆU THAM KHẢO' : 'REFERENCES & SOURCES'}
+              IV. {t('report.section.references')}
             </h3>
             {currentResult.sources && currentResult.sources.length > 0 ? (
               <ul className="list-decimal pl-5 space-y-2 text-sm font-mono text-emerald-900">
                 {currentResult.sources.map((src, idx) => (
                   <li key={idx} className="break-all">
-                    <a href="#" className="hover:underline decoration-emerald-500">{src}</a>
+                    {/^https?:\/\//i.test(src) ? (
+                      <a href={src} target="_blank" rel="noopener noreferrer" className="hover:underline decoration-emerald-500">{src}</a>
+                    ) : (
+                      <span>{src}</span>
+                    )}
                   </li>
                 ))}
               </ul>
             ) : (
               <p className="text-sm italic text-gray-500">
-                  {language === Language.VI ? 'Tổng hợp từ kiến thức chung.' : 'General knowledge synthesis.'}
+                  {t('report.generalKnowledge')}
               </p>
             )}
           </div>
 
+          {/* V. Follow-up Q&A */}
+          {currentResult.thread && currentResult.thread.length > 0 && (
+            <div className="mb-8">
+              <h3 className="font-bold uppercase border-l-4 border-pink-600 pl-3 mb-3 text-lg text-pink-900 flex items-center gap-2">
+                <MessageSquare size={20} />
+                V. {t('report.section.followUp')}
+              </h3>
+              <div className="pl-4 border-l border-gray-200 space-y-3">
+                {currentResult.thread.map((msg) => (
+                  <div key={msg.id} className="break-inside-avoid">
+                    <span className={`font-bold text-xs uppercase block mb-1 ${msg.role === 'user' ? 'text-pink-700' : 'text-gray-500'}`}>
+                      {msg.role === 'user' ? t('report.question') : t('report.answer')}
+                    </span>
+                    <p className={`text-sm leading-relaxed whitespace-pre-wrap ${msg.role === 'user' ? 'font-bold text-gray-900' : 'text-gray-800'}`}>
+                      {msg.content}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="text-center pt-8 border-t border-gray-200 mt-auto">
             <p className="text-xs text-gray-400">
-                Report generated by LifeDebugger AI Analysis Tool.
+                {t('report.footer')}
             </p>
           </div>
       </div>
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { SearchResult, Language, LogEntry } from '../types';
+import { createTranslator, getLocale } from '../i18n';
+import { decodeSharePayload, toShareable, applySharedUpdate } from '../services/shareLink';
+import { planImport, resolveImport, ConflictStrategy } from '../services/bundleService';
+import { Share2, Loader2, AlertTriangle, Download, ChevronDown, ChevronRight, Link as LinkIcon, Eye } from 'lucide-react';
+
+interface SharedResultProps {
+  language: Language;
+  payload?: string;
+  history: SearchResult[];
+  onImport: (result: SearchResult) => void;
+  onOpen: (result: SearchResult) => void;
+  addLog: (entry: LogEntry) => void;
+}
+
+// Read-only view of an analysis received as a share link. Nothing is stored until the user imports it.
+export const SharedResult: React.FC<SharedResultProps> = ({ language, payload, history, onImport, onOpen, addLog }) => {
+  const t = createTranslator(language);
+  const locale = getLocale(language);
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    setError(null);
+    if (!payload) {
+      setError(t('shared.invalid'));
+      return;
+    }
+
+    decodeSharePayload(payload)
+      .then(decoded => {
+        if (!cancelled) setResult(decoded);
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        setError(t('shared.invalid'));
+        addLog({
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          type: 'error',
+          message: 'Share link could not be opened',
+          details: err.message
+        });
+      });
+
+    return () => { cancelled = true; };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [payload]);
+
+  // Ids are UUIDs: the same id means the same analysis, e.g. one shared by this browser. It is compared
+  // as it would be shared, so local bookkeeping alone does not count as a difference.
+  const existing = result ? history.find(h => h.id === result.id) : undefined;
+  const plan = result ? planImport([result], existing ? [toShareable(existing)] : []) : null;
+
+  // Same choices as a bundle import: keep mine, replace it or keep both
+  const handleImport = (strategy: ConflictStrategy) => {
+    if (!result || !plan) return;
+    const [imported] = resolveImport(plan, strategy);
+    if (!imported) {
+      if (existing) onOpen(existing);
+      return;
+    }
+    const written = existing && imported.id === existing.id ? applySharedUpdate(existing, imported) : imported;
+    onImport(written);
+    addLog({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      type: 'info',
+      message: 'Shared analysis imported',
+      details: `"${written.query}" (ID: ${written.id}${plan.conflicts.length > 0 ? `, conflict: ${strategy}` : ''})`
+    });
+    onOpen(written);
+  };
+
+  const toggle = (id: string) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  if (error) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-500 p-8 text-center">
+        <AlertTriangle size={64} className="mb-4 text-orange-400 opacity-70" />
+        <p className="text-xl max-w-md">{error}</p>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="h-full flex items-center justify-center text-gray-400 gap-2">
+        <Loader2 className="animate-spin" /> {t('shared.loading')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 md:p-8 space-y-6">
+      <div className="bg-neon-purple/10 border border-neon-purple/40 rounded-lg p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-gray-200">
+          <Share2 size={18} className="text-neon-purple shrink-0" />
+          {t('shared.banner')}
+        </div>
+        {plan && plan.conflicts.length > 0 ? (
+          <div className="flex flex-col items-stretch md:items-end gap-2 shrink-0">
+            <span className="text-xs text-neon-yellow md:text-right max-w-sm">{t('shared.conflict')}</span>
+            <div className="flex gap-2">
+              {(['skip', 'replace', 'copy'] as ConflictStrategy[]).map((strategy) => (
+                <button
+                  key={strategy}
+                  onClick={() => handleImport(strategy)}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-bold ${
+                    strategy === 'replace'
+                      ? 'bg-neon-purple text-white hover:bg-neon-purple/80 shadow-neon'
+                      : 'bg-dark-700 border border-dark-600 hover:bg-dark-600 text-gray-200'
+                  }`}
+                >
+                  {t(strategy === 'skip' ? 'history.conflictSkip' : strategy === 'replace' ? 'history.conflictReplace' : 'history.conflictCopy')}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : existing ? (
+          <button
+            onClick={() => onOpen(existing)}
+            className="flex items-center gap-2 bg-dark-700 border border-dark-600 hover:bg-dark-600 text-gray-200 px-4 py-2 rounded-lg text-sm font-bold shrink-0"
+          >
+            <Eye size={16} /> {t('shared.open')}
+          </button>
+        ) : (
+          // No conflict: every strategy imports it as is
+          <button
+            onClick={() => handleImport('skip')}
+            className="flex items-center gap-2 bg-neon-purple text-white px-4 py-2 rounded-lg hover:bg-neon-purple/80 text-sm font-bold shadow-neon shrink-0"
+          >
+            <Download size={16} /> {t('shared.import')}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <div className="text-xs text-neon-green font-mono mb-1">{new Date(result.timestamp).toLocaleString(locale)}</div>
+        <h2 className="text-2xl font-bold text-white">"{result.query}"</h2>
+      </div>
+
+      {result.roastCommentary && (
+        <div className="bg-dark-800 p-4 rounded-lg text-gray-300 italic border-l-4 border-neon-yellow whitespace-pre-wrap">
+          {result.roastCommentary}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {result.suggestions.map((item, idx) => (
+          <div key={item.id} className="bg-dark-800 rounded-lg border border-dark-700">
+            <button
+              onClick={() => item.details && toggle(item.id)}
+              className={`w-full text-left p-4 flex gap-3 ${item.details ? 'cursor-pointer' : 'cursor-default'}`}
+            >
+              <span className="text-neon-green font-mono text-sm shrink-0">{String(idx + 1).padStart(2, '0')}</span>
+              <div className="flex-1">
+                <div className="font-bold text-white">{item.title}</div>
+                <div className="text-sm text-gray-400 mt-1">{item.description}</div>
+              </div>
+              {item.details && (expanded.has(item.id) ? <ChevronDown size={18} className="text-gray-500" /> : <ChevronRight size={18} className="text-gray-500" />)}
+            </button>
+            {item.details && expanded.has(item.id) && (
+              <div className="px-4 pb-4 pl-12 space-y-4 text-sm">
+                <div>
+                  <div className="text-xs font-bold uppercase text-neon-green mb-1">{t('modal.analysis')}</div>
+                  <p className="text-gray-300 whitespace-pre-wrap">{item.details.analysis || t('modal.noAnalysis')}</p>
+                </div>
+                {item.details.steps.length > 0 && (
+                  <div>
+                    <div className="text-xs font-bold uppercase text-neon-yellow mb-1">{t('modal.steps')}</div>
+                    <ol className="list-decimal pl-5 space-y-1 text-gray-300">
+                      {item.details.steps.map((step, i) => <li key={i}>{step}</li>)}
+                    </ol>
+                  </div>
+                )}
+                {item.details.risks && (
+                  <div>
+                    <div className="text-xs font-bold uppercase text-red-400 mb-1">{t('modal.risks')}</div>
+                    <p className="text-red-200">{item.details.risks}</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {result.sources.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {result.sources.map((src, idx) => (
+            <span key={idx} className="text-xs bg-dark-700 text-neon-green px-2 py-1 rounded flex items-center gap-1 max-w-[260px] truncate">
+              <LinkIcon size={10} /> {src}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {result.thread && result.thread.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">{t('followUp.title')}</h3>
+          {result.thread.map(msg => (
+            <div key={msg.id} className={`p-3 rounded-lg text-sm whitespace-pre-wrap ${msg.role === 'user' ? 'bg-dark-700 text-gray-200' : 'bg-dark-800 border border-dark-700 text-gray-300'}`}>
+              {msg.content}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
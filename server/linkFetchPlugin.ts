@@ -0,0 +1,152 @@
+import type { Plugin, Connect } from 'vite';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+// Local fetch service for 'link' attachments. Browsers can't read most pages cross-origin,
+// so the dev/preview server downloads the URL and hands the raw HTML back to the app.
+export const LINK_FETCH_PATH = '/api/fetch-url';
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_BODY_BYTES = 3 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// The server listens on the LAN, so it must not become a proxy into it: loopback, private,
+// link-local (cloud metadata), CGNAT, multicast and reserved ranges are refused, on every hop.
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) BLOCKED.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) BLOCKED.addSubnet(network, prefix, 'ipv6');
+
+class BlockedAddressError extends Error {}
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges by BlockList
+const isBlockedAddress = (address: string) => BLOCKED.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Every address the host resolves to must be public. fetch resolves the name again, so a host that
+// changes its answer between the two lookups is not caught; enough for a dev server, not a public proxy.
+const assertPublicHost = async (url: URL) => {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) throw new BlockedAddressError(`Refusing to fetch ${url.hostname}: ${blocked} is not a public address`);
+};
+
+const isHttp = (url: URL) => url.protocol === 'http:' || url.protocol === 'https:';
+
+// Reads at most MAX_BODY_BYTES; null once the body is larger
+const readLimited = async (response: Response): Promise<Uint8Array | null> => {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > MAX_BODY_BYTES) {
+    await response.body?.cancel();
+    return null;
+  }
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > MAX_BODY_BYTES) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+};
+
+const sendJson = (res: Parameters<Connect.NextHandleFunction>[1], status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+const handleFetch: Connect.NextHandleFunction = async (req, res) => {
+  const target = new URL(req.url || '', 'http://localhost').searchParams.get('url');
+
+  let url: URL;
+  try {
+    url = new URL(target || '');
+  } catch {
+    sendJson(res, 400, { error: 'Missing or invalid "url" parameter' });
+    return;
+  }
+  if (!isHttp(url)) {
+    sendJson(res, 400, { error: `Unsupported protocol: ${url.protocol}` });
+    return;
+  }
+
+  try {
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    // Redirects are followed by hand, so each target is checked before it is requested
+    let current = url;
+    let response: Response;
+    for (let hops = 0; ; hops++) {
+      await assertPublicHost(current);
+      response = await fetch(current, {
+        redirect: 'manual',
+        signal,
+        headers: {
+          // Some law portals refuse requests without a browser-like UA
+          'User-Agent': 'Mozilla/5.0 (compatible; LifeDebugger/1.0; +link-extract)',
+          'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5',
+        },
+      });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      await response.body?.cancel();
+      if (hops >= MAX_REDIRECTS) {
+        sendJson(res, 502, { error: `Too many redirects (more than ${MAX_REDIRECTS})` });
+        return;
+      }
+      current = new URL(location, current);
+      if (!isHttp(current)) {
+        sendJson(res, 400, { error: `Redirect to unsupported protocol: ${current.protocol}` });
+        return;
+      }
+    }
+
+    const body = await readLimited(response);
+    if (!body) {
+      sendJson(res, 413, { error: `Page too large (over ${MAX_BODY_BYTES} bytes)` });
+      return;
+    }
+
+    sendJson(res, response.ok ? 200 : 502, {
+      url: url.toString(),
+      finalUrl: current.toString(),
+      status: response.status,
+      contentType: response.headers.get('content-type') || '',
+      body: new TextDecoder('utf-8').decode(body),
+    });
+  } catch (error: any) {
+    if (error instanceof BlockedAddressError) {
+      sendJson(res, 403, { error: error.message });
+      return;
+    }
+    sendJson(res, 502, { error: error?.message || 'Fetch failed' });
+  }
+};
+
+export const linkFetchPlugin = (): Plugin => ({
+  name: 'lifedebugger-link-fetch',
+  configureServer(server) {
+    server.middlewares.use(LINK_FETCH_PATH, handleFetch);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(LINK_FETCH_PATH, handleFetch);
+  },
+});
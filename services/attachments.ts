@@ -0,0 +1,54 @@
+import { Attachment, AttachmentRecord } from "../types";
+
+// Inline requests are capped at 20MB and base64 adds ~33%, so keep the raw total under 15MB
+export const MAX_TOTAL_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+export const totalAttachmentBytes = (attachments: Attachment[]) =>
+  attachments.reduce((sum, a) => sum + (a.size || 0), 0);
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const readFileAsAttachment = (file: File): Promise<Attachment> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      resolve({
+        id: crypto.randomUUID(),
+        type: 'file',
+        content: base64String.split(',')[1],
+        mimeType: file.type,
+        name: file.name,
+        size: file.size
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const createLinkAttachment = (url: string): Attachment => ({
+  id: crypto.randomUUID(),
+  type: 'link',
+  content: url,
+  name: url
+});
+
+export const toAttachmentRecord = (attachment: Attachment): AttachmentRecord => ({
+  id: attachment.id,
+  type: attachment.type,
+  name: attachment.name,
+  mimeType: attachment.mimeType,
+  size: attachment.size,
+  url: attachment.type === 'link' ? attachment.content : undefined,
+  extract: attachment.extract
+});
+
+// Union by id, keeping the order in which attachments were first analyzed
+export const mergeAttachmentRecords = (existing: AttachmentRecord[] = [], added: AttachmentRecord[]) => [
+  ...existing,
+  ...added.filter(a => !existing.some(e => e.id === a.id))
+];
@@ -0,0 +1,152 @@
+import JSZip from "jszip";
+import { SearchResult } from "../types";
+import { Translator } from "../i18n";
+import { InvalidResultError, RESULT_SCHEMA_VERSION, normalizeExternalResult } from "./storageService";
+import { buildReportModel } from "./reportModel";
+import { renderReportMarkdown } from "./markdownExport";
+import { downloadBlob } from "./download";
+
+// Portable history bundles. A JSON bundle is the lossless format; the Markdown bundle is a zip
+// with one readable report per analysis plus the same JSON bundle, so it can be imported too.
+
+const BUNDLE_FORMAT = "lifedebugger-history";
+// Version of the bundle envelope. Result shapes are versioned separately by RESULT_SCHEMA_VERSION.
+export const BUNDLE_VERSION = 1;
+const BUNDLE_ENTRY = "bundle.json";
+
+export interface HistoryBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  resultSchemaVersion: number;
+  results: SearchResult[];
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+export const createBundle = (results: SearchResult[]): HistoryBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  resultSchemaVersion: RESULT_SCHEMA_VERSION,
+  results,
+});
+
+const stamp = () => new Date().toISOString().slice(0, 10);
+
+const slugify = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/gi, "d")
+    .toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "analysis";
+
+export const exportJsonBundle = (results: SearchResult[]) => {
+  const json = JSON.stringify(createBundle(results), null, 2);
+  downloadBlob(new Blob([json], { type: "application/json" }), `lifedebugger-history-${stamp()}.json`);
+};
+
+export const exportMarkdownBundle = async (results: SearchResult[], t: Translator, locale: string) => {
+  const zip = new JSZip();
+  const folder = zip.folder(`lifedebugger-history-${stamp()}`)!;
+  results.forEach((result, idx) => {
+    const markdown = renderReportMarkdown(buildReportModel(result, t, locale));
+    folder.file(`${String(idx + 1).padStart(2, "0")}-${slugify(result.query)}.md`, markdown);
+  });
+  folder.file(BUNDLE_ENTRY, JSON.stringify(createBundle(results), null, 2));
+  const blob = await zip.generateAsync({ type: "blob" });
+  downloadBlob(blob, `lifedebugger-history-${stamp()}.zip`);
+};
+
+export interface ParsedBundle {
+  results: SearchResult[];
+  rejected: string[]; // One reason per result that failed validation and was left out
+}
+
+export const parseBundle = (raw: unknown): ParsedBundle => {
+  const bundle = raw as Partial<HistoryBundle> | null;
+  if (!bundle || typeof bundle !== "object" || bundle.format !== BUNDLE_FORMAT) {
+    throw new BundleError("Not a LifeDebugger history bundle");
+  }
+  if (typeof bundle.version !== "number" || bundle.version > BUNDLE_VERSION) {
+    throw new BundleError(`Unsupported bundle version ${bundle.version}`);
+  }
+  if (!Array.isArray(bundle.results)) {
+    throw new BundleError("Bundle has no results");
+  }
+  const fromVersion = typeof bundle.resultSchemaVersion === "number" ? bundle.resultSchemaVersion : 0;
+  if (fromVersion > RESULT_SCHEMA_VERSION) {
+    throw new BundleError(`Bundle was written by a newer app (result schema ${fromVersion})`);
+  }
+
+  // Same checks as share links: one bad result is left out instead of failing the whole bundle
+  const parsed: ParsedBundle = { results: [], rejected: [] };
+  bundle.results.forEach((raw, idx) => {
+    try {
+      parsed.results.push(normalizeExternalResult(raw, fromVersion));
+    } catch (error) {
+      if (!(error instanceof InvalidResultError)) throw error;
+      parsed.rejected.push(`Result #${idx + 1}: ${error.message}`);
+    }
+  });
+  if (parsed.results.length === 0 && parsed.rejected.length > 0) {
+    throw new BundleError(`None of the ${parsed.rejected.length} results are valid. ${parsed.rejected.join("; ")}`);
+  }
+  return parsed;
+};
+
+// Accepts a JSON bundle or a Markdown bundle zip (which carries bundle.json)
+export const readBundleFile = async (file: File): Promise<ParsedBundle> => {
+  let text: string;
+  if (file.name.toLowerCase().endsWith(".zip")) {
+    const zip = await JSZip.loadAsync(file);
+    const entry = Object.values(zip.files).find(f => !f.dir && f.name.split("/").pop() === BUNDLE_ENTRY);
+    if (!entry) throw new BundleError(`${BUNDLE_ENTRY} not found in ${file.name}`);
+    text = await entry.async("string");
+  } else {
+    text = await file.text();
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BundleError(`${file.name} is not valid JSON`);
+  }
+  return parseBundle(raw);
+};
+
+export type ConflictStrategy = 'skip' | 'replace' | 'copy';
+
+export interface ImportPlan {
+  fresh: SearchResult[]; // Ids not in history yet
+  conflicts: SearchResult[]; // Same id as an existing analysis, different content
+  unchanged: number; // Already in history exactly as in the bundle
+  rejected: string[]; // Left out by parseBundle, carried along for the import notice
+}
+
+export const planImport = (incoming: SearchResult[], existing: SearchResult[], rejected: string[] = []): ImportPlan => {
+  const byId = new Map(existing.map(r => [r.id, r]));
+  const plan: ImportPlan = { fresh: [], conflicts: [], unchanged: 0, rejected };
+  for (const result of incoming) {
+    const current = byId.get(result.id);
+    if (!current) plan.fresh.push(result);
+    else if (JSON.stringify(current) === JSON.stringify(result)) plan.unchanged++;
+    else plan.conflicts.push(result);
+  }
+  return plan;
+};
+
+// Results to write into history for the chosen conflict strategy
+export const resolveImport = (plan: ImportPlan, strategy: ConflictStrategy): SearchResult[] => {
+  switch (strategy) {
+    case 'skip':
+      return plan.fresh;
+    case 'replace':
+      return [...plan.fresh, ...plan.conflicts];
+    case 'copy':
+      return [...plan.fresh, ...plan.conflicts.map(r => ({ ...r, id: crypto.randomUUID() }))];
+  }
+};
@@ -0,0 +1,71 @@
+import { SearchResult, StepTask, SuggestionItem, TaskStatus } from "../types";
+
+// Deep-dive steps as trackable tasks. Tasks are stored sparsely on the suggestion and matched
+// to ItemDetails.steps by index; a step without a task is still to do.
+
+export const TASK_STATUSES: TaskStatus[] = ['todo', 'in_progress', 'done', 'skipped'];
+
+export interface Progress {
+  resolved: number; // Done or skipped
+  done: number;
+  total: number;
+}
+
+export type TaskPatch = Partial<Pick<StepTask, 'status' | 'notes' | 'dueDate' | 'reminderDays'>>;
+
+export const getTask = (item: SuggestionItem, step: number): StepTask =>
+  item.tasks?.find(task => task.step === step) ?? { step, status: 'todo', updatedAt: 0 };
+
+export const isResolved = (status: TaskStatus) => status === 'done' || status === 'skipped';
+
+// Stores `task` as is, replacing the one for the same step
+export const setTask = (item: SuggestionItem, task: StepTask): SuggestionItem => {
+  const others = (item.tasks ?? []).filter(existing => existing.step !== task.step);
+  return { ...item, tasks: [...others, task].sort((a, b) => a.step - b.step) };
+};
+
+// completedAt follows the status: stamped on the way into 'done', cleared on the way out.
+// Any due date the user sets (or re-sets unchanged) confirms it; a model reason only survives while the date does.
+export const updateTask = (item: SuggestionItem, step: number, patch: TaskPatch, now = Date.now()): SuggestionItem => {
+  const previous = getTask(item, step);
+  const merged = { ...previous, ...patch };
+  const dueChanged = 'dueDate' in patch && patch.dueDate !== previous.dueDate;
+  const next: StepTask = {
+    step,
+    status: merged.status,
+    notes: merged.notes?.trim() ? merged.notes : undefined,
+    completedAt: merged.status === 'done' ? (previous.status === 'done' ? previous.completedAt : now) : undefined,
+    dueDate: merged.dueDate || undefined,
+    reminderDays: merged.dueDate ? merged.reminderDays : undefined,
+    dueProposed: 'dueDate' in patch ? undefined : previous.dueProposed,
+    dueReason: dueChanged ? undefined : previous.dueReason,
+    updatedAt: now,
+  };
+  return setTask(item, next);
+};
+
+export const patchItemTask = (result: SearchResult, itemId: string, step: number, patch: TaskPatch): SearchResult => ({
+  ...result,
+  suggestions: result.suggestions.map(item => item.id === itemId ? updateTask(item, step, patch) : item),
+});
+
+// Items without a deep dive have no steps yet and count for nothing
+export const itemProgress = (item: SuggestionItem): Progress => {
+  const total = item.details?.steps.length ?? 0;
+  let resolved = 0;
+  let done = 0;
+  for (let step = 0; step < total; step++) {
+    const { status } = getTask(item, step);
+    if (isResolved(status)) resolved++;
+    if (status === 'done') done++;
+  }
+  return { resolved, done, total };
+};
+
+export const resultProgress = (result: SearchResult): Progress =>
+  result.suggestions.map(itemProgress).reduce(
+    (sum, p) => ({ resolved: sum.resolved + p.resolved, done: sum.done + p.done, total: sum.total + p.total }),
+    { resolved: 0, done: 0, total: 0 }
+  );
+
+export const progressPercent = ({ resolved, total }: Progress) => total === 0 ? 0 : Math.round((resolved / total) * 100);
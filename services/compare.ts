@@ -0,0 +1,133 @@
+import { SearchResult, SuggestionItem } from "../types";
+import { itemSimilarity, normalizeText } from "./similarity";
+
+// Alignment and diffs for the compare view. "before" is the older analysis, "after" the newer one.
+
+export type CompareStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export type ItemChange = 'title' | 'description' | 'analysis' | 'steps' | 'risks';
+
+export interface ComparedItem {
+  status: CompareStatus;
+  before?: SuggestionItem;
+  after?: SuggestionItem;
+  similarity: number; // 0 for added/removed items
+  changes: ItemChange[];
+}
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Below this score two suggestions are treated as different items
+export const MATCH_THRESHOLD = 0.45;
+
+// Whitespace, case and accents do not count as changes
+const sameText = (a: string | undefined, b: string | undefined) =>
+  normalizeText(a ?? "").replace(/\s+/g, " ").trim() === normalizeText(b ?? "").replace(/\s+/g, " ").trim();
+
+const sameList = (a: string[] = [], b: string[] = []) =>
+  a.length === b.length && a.every((item, idx) => sameText(item, b[idx]));
+
+const changesBetween = (before: SuggestionItem, after: SuggestionItem): ItemChange[] => {
+  const changes: ItemChange[] = [];
+  if (!sameText(before.title, after.title)) changes.push('title');
+  if (!sameText(before.description, after.description)) changes.push('description');
+  // A deep dive that exists on one side only is not a change; there is nothing to compare it with
+  if (before.details && after.details) {
+    if (!sameText(before.details.analysis, after.details.analysis)) changes.push('analysis');
+    if (!sameList(before.details.steps, after.details.steps)) changes.push('steps');
+    if (!sameText(before.details.risks, after.details.risks)) changes.push('risks');
+  }
+  return changes;
+};
+
+// Greedy one-to-one matching, best pairs first. Rows follow the newer analysis; removed items
+// are placed after the item that preceded them in the older one.
+export const alignSuggestions = (before: SuggestionItem[], after: SuggestionItem[]): ComparedItem[] => {
+  const pairs: { b: number; a: number; score: number }[] = [];
+  before.forEach((left, b) => after.forEach((right, a) => {
+    const score = itemSimilarity(left, right);
+    if (score >= MATCH_THRESHOLD) pairs.push({ b, a, score });
+  }));
+  pairs.sort((x, y) => y.score - x.score);
+
+  const matchOfAfter = new Map<number, { b: number; score: number }>();
+  const matchedBefore = new Set<number>();
+  for (const pair of pairs) {
+    if (matchOfAfter.has(pair.a) || matchedBefore.has(pair.b)) continue;
+    matchOfAfter.set(pair.a, { b: pair.b, score: pair.score });
+    matchedBefore.add(pair.b);
+  }
+
+  const rows: (ComparedItem & { beforeIdx?: number })[] = after.map((item, a) => {
+    const match = matchOfAfter.get(a);
+    if (!match) return { status: 'added', after: item, similarity: 0, changes: [] };
+    const changes = changesBetween(before[match.b], item);
+    return {
+      status: changes.length > 0 ? 'changed' : 'unchanged',
+      before: before[match.b],
+      after: item,
+      similarity: match.score,
+      changes,
+      beforeIdx: match.b,
+    };
+  });
+
+  before.forEach((item, b) => {
+    if (matchedBefore.has(b)) return;
+    let insertAt = 0;
+    rows.forEach((row, idx) => {
+      if (row.beforeIdx !== undefined && row.beforeIdx < b) insertAt = idx + 1;
+    });
+    rows.splice(insertAt, 0, { status: 'removed', before: item, similarity: 0, changes: [], beforeIdx: b });
+  });
+
+  return rows.map(({ beforeIdx, ...row }) => row);
+};
+
+// Line diff from the longest common subsequence
+export const diffLines = (before: string[], after: string[]): DiffLine[] => {
+  const n = before.length;
+  const m = after.length;
+  // lcs[i][j]: common length of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = sameText(before[i], after[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (sameText(before[i], after[j])) {
+      out.push({ type: 'equal', text: after[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: 'removed', text: before[i++] });
+    } else {
+      out.push({ type: 'added', text: after[j++] });
+    }
+  }
+  while (i < n) out.push({ type: 'removed', text: before[i++] });
+  while (j < m) out.push({ type: 'added', text: after[j++] });
+  return out;
+};
+
+// Risks are free text; compare them sentence by sentence
+export const splitSentences = (text: string): string[] =>
+  text.split(/\n+|(?<=[.!?。！？])\s+/).map(s => s.trim()).filter(Boolean);
+
+export const summarizeComparison = (rows: ComparedItem[]): Record<CompareStatus, number> => {
+  const counts: Record<CompareStatus, number> = { unchanged: 0, changed: 0, added: 0, removed: 0 };
+  rows.forEach(row => counts[row.status]++);
+  return counts;
+};
+
+// Older analysis first
+export const orderForComparison = (a: SearchResult, b: SearchResult): [SearchResult, SearchResult] =>
+  a.timestamp <= b.timestamp ? [a, b] : [b, a];
@@ -0,0 +1,74 @@
+import { GeminiDeadlineSchema, SearchResult, StepTask, SuggestionItem } from "../types";
+import { getTask, isResolved, setTask } from "./checklist";
+
+// Due dates and reminders on checklist steps. Dates are local calendar days ("YYYY-MM-DD"),
+// not timestamps, so a deadline does not move when the device changes time zone.
+
+export type DueState = 'overdue' | 'remind' | 'upcoming';
+
+// Choices offered for reminders, in days before the due date
+export const REMINDER_OPTIONS = [0, 1, 3, 7, 14];
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (key: string, days: number): string => {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// Whole days from `now` to the due date; negative once it has passed
+export const daysUntil = (dueDate: string, now = new Date()): number =>
+  Math.round((fromDateKey(dueDate).getTime() - fromDateKey(toDateKey(now)).getTime()) / 86_400_000);
+
+// Resolved steps and steps without a date have no due state
+export const dueState = (task: StepTask, now = new Date()): DueState | null => {
+  if (!task.dueDate || isResolved(task.status)) return null;
+  const days = daysUntil(task.dueDate, now);
+  if (days < 0) return 'overdue';
+  if (task.reminderDays !== undefined && days <= task.reminderDays) return 'remind';
+  return 'upcoming';
+};
+
+// Fills in model proposals for steps that have no due date yet; dates the user set are kept
+export const applyProposedDeadlines = (item: SuggestionItem, proposal: GeminiDeadlineSchema, now = new Date()): SuggestionItem => {
+  const today = toDateKey(now);
+  return proposal.deadlines.reduce((next, { step, daysFromNow, reason }) => {
+    const task = getTask(next, step - 1);
+    if (task.dueDate) return next;
+    return setTask(next, {
+      ...task,
+      dueDate: addDays(today, daysFromNow),
+      dueProposed: true,
+      dueReason: reason.trim() || undefined,
+      updatedAt: now.getTime(),
+    });
+  }, item);
+};
+
+export interface DueStep {
+  item: SuggestionItem;
+  step: number;
+  text: string;
+  task: StepTask;
+}
+
+// Every dated step of an analysis, earliest first
+export const datedSteps = (result: SearchResult): DueStep[] =>
+  result.suggestions
+    .flatMap(item => (item.details?.steps ?? []).map((text, step) => ({ item, step, text, task: getTask(item, step) })))
+    .filter(entry => !!entry.task.dueDate)
+    .sort((a, b) => a.task.dueDate!.localeCompare(b.task.dueDate!));
+
+// Steps of one item that need attention now
+export const attentionCount = (item: SuggestionItem, now = new Date()): number =>
+  (item.details?.steps ?? []).filter((_, step) => {
+    const state = dueState(getTask(item, step), now);
+    return state === 'overdue' || state === 'remind';
+  }).length;
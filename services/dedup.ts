@@ -0,0 +1,113 @@
+import { SuggestionItem } from "../types";
+import { normalizeText, textSimilarity } from "./similarity";
+
+// Duplicate detection for "load more" pages. New suggestions that repeat a card already shown
+// (or one the user dismissed) are folded into that card's `merged` list instead of growing the
+// grid; repeated sources are dropped and remembered.
+
+// Title similarity at or above which two suggestions count as the same item. Stricter than the
+// compare view's alignment threshold: a false merge hides a suggestion.
+export const DUPLICATE_THRESHOLD = 0.7;
+
+// Non-URL sources (laws, book titles) only merge when nearly identical
+const SOURCE_DUPLICATE_THRESHOLD = 0.9;
+
+export interface SuggestionMerge {
+  title: string; // The incoming duplicate
+  into: string; // Title of the card it was folded into
+  similarity: number;
+  dismissed: boolean; // The card it repeats was dismissed
+}
+
+export interface DedupResult {
+  suggestions: SuggestionItem[];
+  dismissed: SuggestionItem[];
+  merges: SuggestionMerge[];
+}
+
+const titleKey = (title: string) => normalizeText(title).replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+const duplicateScore = (a: SuggestionItem, b: SuggestionItem) =>
+  titleKey(a.title) === titleKey(b.title) ? 1 : textSimilarity(a.title, b.title);
+
+// Best match at or above the threshold, if any
+const findDuplicate = (item: SuggestionItem, candidates: SuggestionItem[]): { index: number; score: number } | null => {
+  let best: { index: number; score: number } | null = null;
+  for (let index = 0; index < candidates.length; index++) {
+    const score = duplicateScore(item, candidates[index]);
+    if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) best = { index, score };
+  }
+  return best;
+};
+
+const mergeInto = (target: SuggestionItem, item: SuggestionItem, similarity: number, now: number): SuggestionItem => ({
+  ...target,
+  merged: [...(target.merged ?? []), { title: item.title, description: item.description, similarity, mergedAt: now }],
+});
+
+// Appends `incoming` to `existing`, folding duplicates of existing, dismissed or earlier incoming
+// cards into them. Pure, so streaming can re-run it on every partial page.
+export const mergeSuggestions = (
+  existing: SuggestionItem[],
+  dismissed: SuggestionItem[],
+  incoming: SuggestionItem[],
+  now = Date.now()
+): DedupResult => {
+  const suggestions = [...existing];
+  const dismissedOut = [...dismissed];
+  const merges: SuggestionMerge[] = [];
+
+  for (const item of incoming) {
+    const active = findDuplicate(item, suggestions);
+    const rejected = active ? null : findDuplicate(item, dismissedOut);
+    if (active) {
+      const target = suggestions[active.index];
+      suggestions[active.index] = mergeInto(target, item, active.score, now);
+      merges.push({ title: item.title, into: target.title, similarity: active.score, dismissed: false });
+    } else if (rejected) {
+      const target = dismissedOut[rejected.index];
+      dismissedOut[rejected.index] = mergeInto(target, item, rejected.score, now);
+      merges.push({ title: item.title, into: target.title, similarity: rejected.score, dismissed: true });
+    } else {
+      suggestions.push(item);
+    }
+  }
+
+  return { suggestions, dismissed: dismissedOut, merges };
+};
+
+// URLs compare without scheme, "www.", tracking parameters, fragment and trailing slash
+export const sourceKey = (source: string): string => {
+  const trimmed = source.trim();
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol === "http:" || url.protocol === "https:") {
+      [...url.searchParams.keys()].filter(key => key.startsWith("utm_")).forEach(key => url.searchParams.delete(key));
+      const query = url.searchParams.toString();
+      return `${url.hostname.replace(/^www\./, "")}${url.pathname.replace(/\/+$/, "")}${query ? `?${query}` : ""}`.toLowerCase();
+    }
+  } catch {
+    // Not a URL
+  }
+  return normalizeText(trimmed).replace(/\s+/g, " ").replace(/[\s.,;:]+$/, "");
+};
+
+const isUrl = (source: string) => /^https?:\/\//i.test(source.trim());
+
+// Appends new sources that are not repeats; `dropped` lists the repeats as they arrived
+export const mergeSources = (existing: string[], incoming: string[]): { sources: string[]; dropped: string[] } => {
+  const sources = [...existing];
+  const dropped: string[] = [];
+  for (const source of incoming) {
+    if (!source.trim()) continue;
+    const key = sourceKey(source);
+    const repeat = sources.some(known => {
+      const knownKey = sourceKey(known);
+      if (knownKey === key) return true;
+      return !isUrl(known) && !isUrl(source) && textSimilarity(known, source) >= SOURCE_DUPLICATE_THRESHOLD;
+    });
+    if (repeat) dropped.push(source);
+    else sources.push(source);
+  }
+  return { sources, dropped };
+};
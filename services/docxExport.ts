@@ -0,0 +1,238 @@
+import {
+  AlignmentType,
+  Bookmark,
+  BorderStyle,
+  Document,
+  Footer,
+  HeadingLevel,
+  InternalHyperlink,
+  LevelFormat,
+  Packer,
+  PageNumber,
+  Paragraph,
+  TextRun,
+} from "docx";
+import { ReportModel, ReportSectionId, reportIssues } from "./reportModel";
+import { downloadBlob } from "./download";
+
+// Editable Word export of the report model. Uses the built-in Title/Heading styles so the
+// document outline, navigation pane and Word's own TOC work as usual.
+
+const FONT = "Times New Roman";
+
+const SECTION_COLORS: Record<ReportSectionId, string> = {
+  analysis: "1E3A8A",
+  details: "9F1239",
+  prompt: "581C87",
+  references: "065F46",
+  followUp: "831843",
+};
+
+const COLORS = {
+  muted: "6B7280",
+  body: "374151",
+  amber: "B45309",
+  emerald: "047857",
+  red: "B91C1C",
+};
+
+// Numbering definitions: issue steps restart per issue through `instance`
+const STEPS_LIST = "report-steps";
+const SOURCES_LIST = "report-sources";
+
+// Word bookmark names allow letters, digits and underscores only
+const bookmarkId = (anchor: string) => anchor.replace(/[^A-Za-z0-9_]/g, "_");
+
+const label = (text: string, color: string) =>
+  new Paragraph({
+    spacing: { before: 120, after: 40 },
+    children: [new TextRun({ text: text.toUpperCase(), bold: true, size: 18, color })],
+  });
+
+// Model text keeps the model's line breaks
+const body = (text: string, options: { color?: string; bold?: boolean; italics?: boolean; font?: string; size?: number; indent?: number } = {}) =>
+  new Paragraph({
+    spacing: { after: 120 },
+    alignment: AlignmentType.JUSTIFIED,
+    indent: options.indent ? { left: options.indent } : undefined,
+    children: text.split("\n").map((line, idx) => new TextRun({
+      text: line,
+      break: idx > 0 ? 1 : undefined,
+      color: options.color,
+      bold: options.bold,
+      italics: options.italics,
+      font: options.font,
+      size: options.size,
+    })),
+  });
+
+export const buildReportDocx = (model: ReportModel): Document => {
+  const issues = reportIssues(model);
+  const children: Paragraph[] = [];
+
+  // Header
+  children.push(
+    new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, children: [new TextRun(model.title)] }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 240 },
+      border: { bottom: { style: BorderStyle.DOUBLE, size: 6, color: "000000", space: 8 } },
+      children: [new TextRun({ text: model.subtitle, italics: true, color: COLORS.muted, size: 20 })],
+    }),
+  );
+
+  // Meta info
+  for (const field of model.meta) {
+    children.push(
+      new Paragraph({ children: [new TextRun({ text: field.label.toUpperCase(), bold: true, size: 16, color: COLORS.muted })] }),
+      new Paragraph({ spacing: { after: 120 }, children: [new TextRun({ text: field.value, bold: true })] }),
+    );
+  }
+
+  // Table of contents with internal links to the section and issue bookmarks
+  children.push(new Paragraph({
+    heading: HeadingLevel.HEADING_1,
+    spacing: { before: 360 },
+    children: [new TextRun({ text: model.tocTitle, color: SECTION_COLORS.analysis })],
+  }));
+  for (const section of model.sections) {
+    children.push(new Paragraph({
+      spacing: { before: 80 },
+      children: [new InternalHyperlink({
+        anchor: bookmarkId(section.anchor),
+        children: [new TextRun({ text: `${section.numeral}. ${section.tocTitle}`, bold: true, color: SECTION_COLORS[section.id] })],
+      })],
+    }));
+    if (section.id === 'details') {
+      for (const issue of issues) {
+        children.push(new Paragraph({
+          indent: { left: 360 },
+          children: [new InternalHyperlink({
+            anchor: bookmarkId(issue.anchor),
+            children: [new TextRun({ text: `${issue.number}. ${issue.title}`, size: 20, color: COLORS.body })],
+          })],
+        }));
+      }
+    }
+  }
+
+  // Sections, each on a new page
+  for (const section of model.sections) {
+    const color = SECTION_COLORS[section.id];
+    children.push(new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      pageBreakBefore: true,
+      children: [new Bookmark({
+        id: bookmarkId(section.anchor),
+        children: [new TextRun({ text: `${section.numeral}. ${section.title}`, color })],
+      })],
+    }));
+
+    for (const block of section.blocks) {
+      switch (block.kind) {
+        case 'paragraph':
+          children.push(body(block.text, { color: block.muted ? COLORS.muted : undefined, italics: block.muted }));
+          break;
+        case 'field':
+          children.push(
+            label(block.label, color),
+            block.mono
+              ? body(block.value, { font: "Courier New", size: 18, color: COLORS.body })
+              : body(block.value, { bold: true, size: 26 }),
+          );
+          break;
+        case 'list':
+          block.items.forEach(item => children.push(new Paragraph({
+            numbering: { reference: SOURCES_LIST, level: 0 },
+            children: [new TextRun({ text: item, color: COLORS.emerald })],
+          })));
+          break;
+        case 'message':
+          children.push(
+            label(block.label, block.fromUser ? color : COLORS.muted),
+            body(block.text, { bold: block.fromUser }),
+          );
+          break;
+        case 'issue': {
+          const { issue } = block;
+          children.push(
+            new Paragraph({
+              heading: HeadingLevel.HEADING_2,
+              keepNext: true,
+              children: [new Bookmark({
+                id: bookmarkId(issue.anchor),
+                children: [new TextRun({ text: `${issue.number}. ${issue.title}`, color })],
+              })],
+            }),
+            body(issue.description, { color: COLORS.body }),
+          );
+          if (issue.details) {
+            children.push(
+              label(model.labels.analysisGuide, COLORS.amber),
+              body(issue.details.analysis, { indent: 360 }),
+              label(model.labels.actionableSteps + (issue.details.progress ? ` · ${issue.details.progress}` : ""), COLORS.emerald),
+              ...issue.details.steps.map(step => new Paragraph({
+                numbering: { reference: STEPS_LIST, level: 0, instance: issue.number },
+                children: [new TextRun(step)],
+              })),
+              label(model.labels.risk, COLORS.red),
+              body(issue.details.risks, { color: COLORS.red, indent: 360 }),
+            );
+          } else {
+            children.push(body(model.labels.waiting, { color: COLORS.muted, italics: true, indent: 360 }));
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  children.push(new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { before: 480 },
+    children: [new TextRun({ text: model.footer, size: 16, color: COLORS.muted })],
+  }));
+
+  const numberedLevel = {
+    level: 0,
+    format: LevelFormat.DECIMAL,
+    text: "%1.",
+    alignment: AlignmentType.START,
+    style: { paragraph: { indent: { left: 720, hanging: 360 } } },
+  };
+
+  return new Document({
+    creator: "LifeDebugger",
+    title: `${model.title} - ${model.meta[0]?.value ?? ""}`,
+    styles: {
+      default: {
+        document: { run: { font: FONT, size: 22 } },
+        title: { run: { font: FONT, size: 40, bold: true, color: SECTION_COLORS.analysis } },
+        heading1: { run: { font: FONT, size: 30, bold: true }, paragraph: { spacing: { before: 240, after: 160 } } },
+        heading2: { run: { font: FONT, size: 24, bold: true }, paragraph: { spacing: { before: 240, after: 80 } } },
+      },
+    },
+    numbering: {
+      config: [
+        { reference: STEPS_LIST, levels: [numberedLevel] },
+        { reference: SOURCES_LIST, levels: [numberedLevel] },
+      ],
+    },
+    sections: [{
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [new TextRun({ children: [PageNumber.CURRENT, " / ", PageNumber.TOTAL_PAGES], size: 16, color: COLORS.muted })],
+          })],
+        }),
+      },
+      children,
+    }],
+  });
+};
+
+export const exportReportDocx = async (model: ReportModel): Promise<void> => {
+  const blob = await Packer.toBlob(buildReportDocx(model));
+  downloadBlob(blob, `${model.fileName}.docx`);
+};
@@ -1,169 +1,418 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Language, GeminiResponseSchema, Attachment, GeminiDetailSchema } from "../types";
+import { Language, GeminiResponseSchema, Attachment, GeminiDetailSchema, GeminiDeadlineSchema, GeminiSuggestionSchema, SearchResult, SuggestionItem, PersonaSettings, UsageRecord } from "../types";
+import { getProvider, ContentPart, GenerationRequest, StreamSummary, TokenUsage } from "./providers";
+import { parsePartialJson } from "./partialJson";
+import { issueSchema, detailSchema, followUpSchema, deadlineSchema, suggestionSchema } from "./providers/schemas";
+import { DEFAULT_PERSONA, getPersona } from "./personas";
+import { schedule, RequestPriority, RequestCancelledError } from "./requestScheduler";
+import { publishUsage } from "./usage";
+import { buildPreviousContext } from "./suggestions";
+import {
+  ResponseKind, ValidationIssue, ValidationResult, ResponseValidationError, EXPECTED_SUGGESTIONS,
+  validateIssueResponse, validateDetailResponse, validateFollowUpResponse, validateDeadlineResponse, validateSuggestionResponse, logValidation,
+} from "./responseValidation";
 
-const getSystemInstruction = (lang: Language) => {
-  // Language Logic: Default to Vietnamese for conversation, but keep Technical Terms in English.
-  const langInstruction = lang === Language.VI 
-    ? "Speak predominantly in VIETNAMESE. However, for technical terms, legal terms, or industry standards, keep them in ENGLISH or use format 'Vietnamese (English Term)'."
-    : "Speak in English.";
+// How a call is queued by the request scheduler. Defaults to an interactive request with no group.
+export interface RequestOptions {
+  priority?: RequestPriority;
+  group?: string;
+  key?: string;
+  signal?: AbortSignal; // Rejects with RequestCancelledError when aborted
+  usage?: UsageTarget;
+}
+
+// Where the token usage of a call is attributed. `records` collects it for the caller to store on the result.
+export interface UsageTarget {
+  resultId?: string;
+  suggestionId?: string;
+  records?: UsageRecord[];
+}
+
+const queueOptions = ({ usage, ...queue }: RequestOptions) => queue;
+
+// Per-language output rules for each instruction. Non-English languages keep technical terms in English.
+const LANGUAGE_RULES: Record<Language, { main: string; detail: string; followUp: string }> = {
+  [Language.VI]: {
+    main: "Speak predominantly in VIETNAMESE. However, for technical terms, legal terms, or industry standards, keep them in ENGLISH or use format 'Vietnamese (English Term)'.",
+    detail: "Write in VIETNAMESE. Keep technical headers or specialized terms in English.",
+    followUp: "Answer in VIETNAMESE. Keep technical or legal terms in English where helpful.",
+  },
+  [Language.EN]: {
+    main: "Speak in English.",
+    detail: "Write in English.",
+    followUp: "Answer in English.",
+  },
+  [Language.JA]: {
+    main: "Speak predominantly in JAPANESE. For technical terms, legal terms, or industry standards, keep them in ENGLISH or use format 'Japanese (English Term)'.",
+    detail: "Write in JAPANESE. Keep technical headers or specialized terms in English.",
+    followUp: "Answer in JAPANESE. Keep technical or legal terms in English where helpful.",
+  },
+  [Language.KO]: {
+    main: "Speak predominantly in KOREAN. For technical terms, legal terms, or industry standards, keep them in ENGLISH or use format 'Korean (English Term)'.",
+    detail: "Write in KOREAN. Keep technical headers or specialized terms in English.",
+    followUp: "Answer in KOREAN. Keep technical or legal terms in English where helpful.",
+  },
+  [Language.FR]: {
+    main: "Speak predominantly in FRENCH. For technical terms, legal terms, or industry standards, keep them in ENGLISH or use format 'French (English Term)'.",
+    detail: "Write in FRENCH. Keep technical headers or specialized terms in English.",
+    followUp: "Answer in FRENCH. Keep technical or legal terms in English where helpful.",
+  },
+};
+
+const getLanguageRules = (lang: Language) => LANGUAGE_RULES[lang] ?? LANGUAGE_RULES[Language.EN];
+
+const getSystemInstruction = (lang: Language, persona: PersonaSettings = DEFAULT_PERSONA) => {
+  const definition = getPersona(persona);
+  const langInstruction = getLanguageRules(lang).main;
 
   const baseInstruction = `
-    You are a "Life Debugger" AI. Your persona is a cynical, highly experienced, slightly rude, but extremely knowledgeable senior consultant/developer.
+    You are a "Life Debugger" AI. Your persona is ${definition.main}
     
     LANGUAGE RULE: ${langInstruction}
 
     Task 1: Analyze the user's input (which could be about law, life, construction, work, etc.) AND any attached images, documents, or links.
     Task 2: Provide 10 strictly related issues/suggestions/steps related to the input.
-    Task 3: Provide a "ROAST" or "CODE NOTE". This section should be humorous, critical, slang-heavy (use internet slang, dev slang), and unfiltered.
+    Task 3: ${definition.commentaryTask[persona.intensity]} Put it in the "roast" field.
     Task 4: List the "SOURCES" or "DATA ORIGIN".
     Task 5: PROMPT ENGINEERING. Write a highly optimized "System Prompt" that the user can copy to use with another AI to get the absolute best result for this specific problem.
     Task 6: RECOMMEND AI. Suggest which AI model (e.g., Claude 3.5 Sonnet, GPT-4o, Gemini 1.5 Pro) is BEST for this specific task and WHY.
 
     Format requirements:
-    - Use distinct Vietnamese internet slang like "vãi chưởng", "ảo ma", "hành chính hành là chính" where appropriate in the ROAST section.
-    - Be open-minded. You don't need to be 100% legally accurate, just logically sound and entertaining.
+    ${definition.formatRules}
+    - Be open-minded. You don't need to be 100% legally accurate, just logically sound${persona.id === 'roast' ? " and entertaining" : ""}.
   `;
   return baseInstruction;
 };
 
-const getDetailSystemInstruction = (lang: Language) => {
-  const langInstruction = lang === Language.VI 
-    ? "Write in VIETNAMESE. Keep technical headers or specialized terms in English."
-    : "Write in English.";
+const getDetailSystemInstruction = (lang: Language, persona: PersonaSettings = DEFAULT_PERSONA) => {
+  const langInstruction = getLanguageRules(lang).detail;
 
   return `
     You are a specialized expert deep-diving into a SPECIFIC issue.
-    Persona: Professional but sharp, practical, no-nonsense.
+    ${getPersona(persona).detail[persona.intensity]}
     Language Rule: ${langInstruction}
     
     Task: Provide a detailed breakdown of the specific issue provided.
     1. Deep Analysis: Explain WHY this is an issue and the core concepts.
     2. Actionable Steps: Concrete checklist or workflow to solve it.
-    3. Risks: What happens if they ignore this? (Warn them sternly).
+    3. Risks: What happens if they ignore this?${persona.intensity > 1 ? " (Warn them sternly)." : ""}
   `;
 };
 
-// Defined schema for structured output (Main Search)
-const responseSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    suggestions: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          description: { type: Type.STRING },
-        },
-        required: ["title", "description"],
-      },
-    },
-    roast: {
-      type: Type.STRING,
-      description: "A humorous, critical, rude, open-minded paragraph evaluating the situation.",
-    },
-    sources: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: "List of data sources, files analyzed, or laws referenced.",
-    },
-    promptSuggestion: {
-        type: Type.STRING,
-        description: "An optimized prompt string for the user to copy/paste.",
-    },
-    bestModel: {
-        type: Type.STRING,
-        description: "The name of the recommended AI model for this task (e.g., 'Claude 3.5 Sonnet for Reasoning').",
+const getFollowUpSystemInstruction = (lang: Language, persona: PersonaSettings = DEFAULT_PERSONA) => {
+  const langInstruction = getLanguageRules(lang).followUp;
+
+  return `
+    You are the same "Life Debugger" consultant continuing a conversation about an analysis you already produced.
+    ${getPersona(persona).detail[persona.intensity]}
+    Language Rule: ${langInstruction}
+
+    Task: Answer the user's follow-up question using the original issue, the related issues and the deep dives provided as context.
+    - Refer to related issues by their number when relevant.
+    - If the question goes beyond the context, say so and answer from general knowledge.
+    - Keep it concise: short paragraphs or a short list.
+  `;
+};
+
+const getRegenerateSystemInstruction = (lang: Language, persona: PersonaSettings = DEFAULT_PERSONA) => {
+  const definition = getPersona(persona);
+  return `
+    You are a "Life Debugger" AI. Your persona is ${definition.main}
+
+    LANGUAGE RULE: ${getLanguageRules(lang).main}
+
+    Task: The user rejected one issue/suggestion from your list. Replace it with ONE new issue that is strictly
+    related to the input, with a title and a short description.
+    - Do not repeat or rephrase any issue already listed, the rejected one, or any the user dismissed.
+    - Prefer directions the user pinned.
+
+    Format requirements:
+    ${definition.formatRules}
+  `;
+};
+
+const getDeadlineSystemInstruction = (lang: Language) => `
+    You are a meticulous planning assistant. You read a checklist and estimate when each step must be done.
+    Language Rule: ${getLanguageRules(lang).detail}
+
+    Task: For each step that has an explicit time limit ("within 30 days", "before the permit expires") or a
+    customary one for this kind of procedure, give the number of days from today until it should be done.
+    - Skip steps without any time pressure; do not invent urgency.
+    - Assume the user starts today. When a limit depends on an unknown date, assume the clock starts today.
+    - In "reason", quote or cite what the date is based on in one short sentence.
+  `;
+
+const buildIssueRequest = (
+  query: string,
+  lang: Language,
+  attachments: Attachment[] = [],
+  previousContext: string = "",
+  persona: PersonaSettings = DEFAULT_PERSONA
+): GenerationRequest => {
+  // Build the Prompt
+  let textPrompt = `
+    Input Query: "${query}"
+    Context/Previous Items: ${previousContext ? "This is a request for the NEXT 10 items. Previous were: " + previousContext : "This is a fresh request."}
+  `;
+
+  const parts: ContentPart[] = [];
+
+  // Handle Attachments
+  for (const attachment of attachments) {
+    if (attachment.type === 'link' && attachment.extract) {
+      // Page text fetched by the local link service goes in as its own context part
+      parts.push({
+        text: `[CONTEXT: LINKED PAGE]\nURL: ${attachment.content}\nTitle: ${attachment.extract.title}\nFetched: ${new Date(attachment.extract.fetchedAt).toISOString()}\n---\n${attachment.extract.text}`
+      });
+      textPrompt += `\n\n[CONTEXT] Analyze the linked page content provided above (${attachment.content}).`;
+    } else if (attachment.type === 'link') {
+      textPrompt += `\n\n[CONTEXT] Analyze this Link/URL context: ${attachment.content}`;
+    } else if (attachment.type === 'file' && attachment.mimeType) {
+      textPrompt += `\n\n[CONTEXT] Analyze the attached file (${attachment.name}).`;
+      parts.push({
+        inlineData: {
+          mimeType: attachment.mimeType,
+          data: attachment.content // Base64 string
+        }
+      });
     }
-  },
-  required: ["suggestions", "roast", "sources", "promptSuggestion", "bestModel"],
-};
-
-// Schema for Detail View
-const detailSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    analysis: { type: Type.STRING, description: "Detailed deep-dive analysis of the specific item." },
-    steps: { 
-      type: Type.ARRAY, 
-      items: { type: Type.STRING }, 
-      description: "Step-by-step guide or workflow." 
+  }
+
+  // Push the text prompt
+  parts.push({ text: textPrompt });
+
+  return {
+    tag: { kind: 'issue', query, language: lang },
+    systemInstruction: getSystemInstruction(lang, persona),
+    parts, // Multimodal input
+    schema: issueSchema,
+    schemaName: "issue_analysis",
+    temperature: 0.8,
+  };
+};
+
+// Calls without usage metadata (e.g. replay) are not counted
+const trackUsage = (
+  request: GenerationRequest,
+  model: string,
+  usage: TokenUsage | undefined,
+  startedAt: number,
+  target: UsageTarget | undefined
+) => {
+  if (!usage) return;
+  const record: UsageRecord = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    kind: request.tag.kind,
+    provider: getProvider().id,
+    model,
+    ...usage,
+    latencyMs: Date.now() - startedAt,
+    resultId: target?.resultId,
+    suggestionId: target?.suggestionId,
+  };
+  target?.records?.push(record);
+  publishUsage(record);
+};
+
+const requestText = async (request: GenerationRequest, target?: UsageTarget): Promise<string> => {
+  const startedAt = Date.now();
+  const result = await getProvider().generate(request);
+  trackUsage(request, result.model, result.usage, startedAt, target);
+  return result.text;
+};
+
+const scheduleText = (request: GenerationRequest, label: string, options: RequestOptions): Promise<string> =>
+  schedule((signal) => requestText({ ...request, signal }, options.usage), { label, ...queueOptions(options) });
+
+// Same request again, with the problems of the unusable reply spelled out
+const correctionRequest = (request: GenerationRequest, issues: ValidationIssue[]): GenerationRequest => ({
+  ...request,
+  parts: [
+    ...request.parts,
+    {
+      text: `Your previous reply could not be used: ${issues.filter(i => !i.repaired).map(i => `${i.path} ${i.problem}`).join("; ")}. ` +
+        `Reply again with ONLY a complete JSON document matching the response schema.`
     },
-    risks: { type: Type.STRING, description: "Potential risks, penalties, or consequences." }
-  },
-  required: ["analysis", "steps", "risks"]
+  ],
+});
+
+// Validates a reply and asks once more when it is unusable. Repairs and failures are logged.
+const acceptValidated = async <T>(
+  kind: ResponseKind,
+  subject: string,
+  text: string,
+  validate: (text: string) => ValidationResult<T>,
+  request: GenerationRequest,
+  options: RequestOptions
+): Promise<T> => {
+  let result = validate(text);
+
+  if (!result.value) {
+    logValidation(kind, subject, 'retrying', result.issues);
+    const retryText = await scheduleText(correctionRequest(request, result.issues), `${subject} (re-ask)`, options);
+    result = validate(retryText);
+    if (!result.value) {
+      logValidation(kind, subject, 'failed', result.issues);
+      throw new ResponseValidationError(kind, result.issues);
+    }
+  }
+
+  if (result.issues.length > 0) logValidation(kind, subject, 'repaired', result.issues);
+  return result.value;
+};
+
+// A reply with fewer suggestions than asked for gets one follow-up request for the rest
+const topUpSuggestions = async (
+  response: GeminiResponseSchema,
+  query: string,
+  lang: Language,
+  attachments: Attachment[],
+  previousContext: string,
+  persona: PersonaSettings,
+  options: RequestOptions
+): Promise<GeminiResponseSchema> => {
+  const missing = EXPECTED_SUGGESTIONS - response.suggestions.length;
+  if (missing <= 0) return response;
+
+  const titles = response.suggestions.map(s => s.title).join(", ");
+  const request = buildIssueRequest(query, lang, attachments, [previousContext, titles].filter(Boolean).join(", "), persona);
+  try {
+    const text = await scheduleText(request, `Analysis: "${query}" (top-up)`, options);
+    const extra = validateIssueResponse(text).value?.suggestions ?? [];
+    return { ...response, suggestions: [...response.suggestions, ...extra.slice(0, missing)] };
+  } catch (error) {
+    if (error instanceof RequestCancelledError) throw error;
+    // The partial list is still a valid answer
+    console.error("AI Provider Top-up Error:", error);
+    return response;
+  }
 };
 
 export const analyzeIssue = async (
   query: string,
   lang: Language,
-  attachment?: Attachment | null,
-  previousContext: string = ""
+  attachments: Attachment[] = [],
+  previousContext: string = "",
+  persona: PersonaSettings = DEFAULT_PERSONA,
+  options: RequestOptions = {}
 ): Promise<GeminiResponseSchema> => {
   try {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) throw new Error("API_KEY not found in environment");
+    const request = buildIssueRequest(query, lang, attachments, previousContext, persona);
+    const subject = `Analysis: "${query}"`;
+    const text = await scheduleText(request, subject, options);
+    const response = await acceptValidated('issue', subject, text, validateIssueResponse, request, options);
+    return await topUpSuggestions(response, query, lang, attachments, previousContext, persona, options);
+  } catch (error) {
+    if (!(error instanceof RequestCancelledError)) console.error("AI Provider Error:", error);
+    throw error;
+  }
+};
 
-    const ai = new GoogleGenAI({ apiKey });
+// Raised when a stream dies half-way. `partial` holds everything finished before that point.
+export class StreamInterruptedError extends Error {
+  partial: Partial<GeminiResponseSchema>;
+  status?: number;
 
-    // Build the Prompt
-    let textPrompt = `
-      Input Query: "${query}"
-      Context/Previous Items: ${previousContext ? "This is a request for the NEXT 10 items. Previous were: " + previousContext : "This is a fresh request."}
-    `;
+  constructor(message: string, partial: Partial<GeminiResponseSchema>, status?: number) {
+    super(message);
+    this.name = 'StreamInterruptedError';
+    this.partial = partial;
+    this.status = status;
+  }
+}
+
+// Returns the raw text; a document that ends early is left to validation to repair
+const streamIssue = async (
+  request: GenerationRequest,
+  onPartial: (partial: Partial<GeminiResponseSchema>) => void,
+  target?: UsageTarget
+): Promise<string> => {
+  const provider = getProvider();
+  if (!provider.generateStream) {
+    return requestText(request, target);
+  }
 
-    const parts: any[] = [];
-
-    // Handle Attachments
-    if (attachment) {
-      if (attachment.type === 'link') {
-        textPrompt += `\n\n[CONTEXT] Analyze this Link/URL context: ${attachment.content}`;
-      } else if (attachment.type === 'file' && attachment.mimeType) {
-        textPrompt += `\n\n[CONTEXT] Analyze the attached file (${attachment.name}).`;
-        parts.push({
-          inlineData: {
-            mimeType: attachment.mimeType,
-            data: attachment.content // Base64 string
-          }
-        });
+  const startedAt = Date.now();
+  let text = "";
+  let partial: Partial<GeminiResponseSchema> = {};
+  let lastSnapshot = "";
+  let summary: StreamSummary | undefined;
+
+  try {
+    // Iterated by hand because the usage comes back as the generator's return value
+    const stream = provider.generateStream(request);
+    for (let next = await stream.next(); ; next = await stream.next()) {
+      // Nothing may reach the caller once it stopped waiting
+      request.signal?.throwIfAborted();
+      if (next.done) {
+        summary = next.value || undefined;
+        break;
       }
-    }
+      text += next.value;
+      // A prefix that is not JSON yet (a code fence, a stray sentence) only skips this update;
+      // the full text is validated and repaired once the stream ends
+      let parsed: Partial<GeminiResponseSchema> | undefined;
+      try {
+        parsed = parsePartialJson<Partial<GeminiResponseSchema>>(text).value;
+      } catch {
+        continue;
+      }
+      if (!parsed || typeof parsed !== 'object') continue;
 
-    // Push the text prompt
-    parts.push({ text: textPrompt });
+      // Only notify when something new finished, not on every token
+      const snapshot = JSON.stringify(parsed);
+      if (snapshot !== lastSnapshot) {
+        lastSnapshot = snapshot;
+        partial = parsed;
+        onPartial(partial);
+      }
+    }
+  } catch (error: any) {
+    if (request.signal?.aborted) throw error;
+    console.error("AI Provider Stream Error:", error);
+    throw new StreamInterruptedError(error?.message || "Stream interrupted", partial, error?.status);
+  }
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: parts }, // Multimodal input
-      config: {
-        systemInstruction: getSystemInstruction(lang),
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.8, 
-      },
-    });
+  trackUsage(request, summary?.model ?? provider.model, summary?.usage, startedAt, target);
+  return text;
+};
 
-    const text = response.text;
-    if (!text) throw new Error("Empty response from Gemini");
+// Streamed variant of analyzeIssue: `onPartial` fires whenever another suggestion or field is finished
+export const analyzeIssueStream = async (
+  query: string,
+  lang: Language,
+  onPartial: (partial: Partial<GeminiResponseSchema>) => void,
+  attachments: Attachment[] = [],
+  previousContext: string = "",
+  persona: PersonaSettings = DEFAULT_PERSONA,
+  options: RequestOptions = {}
+): Promise<GeminiResponseSchema> => {
+  const request = buildIssueRequest(query, lang, attachments, previousContext, persona);
+  const subject = `Analysis: "${query}"`;
+  const text = await schedule((signal) => streamIssue({ ...request, signal }, onPartial, options.usage), {
+    label: subject,
+    ...queueOptions(options),
+    // Once suggestions were shown, keep them rather than restarting the stream
+    retryable: (error) => !(error instanceof StreamInterruptedError && (error.partial.suggestions?.length ?? 0) > 0),
+  });
 
-    return JSON.parse(text) as GeminiResponseSchema;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
-  }
+  const response = await acceptValidated('issue', subject, text, validateIssueResponse, request, options);
+  const completed = await topUpSuggestions(response, query, lang, attachments, previousContext, persona, options);
+  onPartial(completed);
+  return completed;
 };
 
+// Queue key for a deep dive, so the report page and a click on the card share one request
+export const detailRequestKey = (resultId: string, itemId: string) => `detail:${resultId}:${itemId}`;
+
 export const analyzeSpecificItem = async (
   itemTitle: string,
   parentQuery: string,
-  lang: Language
+  lang: Language,
+  persona: PersonaSettings = DEFAULT_PERSONA,
+  options: RequestOptions = {}
 ): Promise<GeminiDetailSchema> => {
   try {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) throw new Error("API_KEY not found");
-
-    const ai = new GoogleGenAI({ apiKey });
-
     const prompt = `
       Original Main Issue: "${parentQuery}"
       Specific Item to Expand: "${itemTitle}"
@@ -174,23 +423,145 @@ export const analyzeSpecificItem = async (
       3. A risk assessment (what goes wrong if ignored).
     `;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        systemInstruction: getDetailSystemInstruction(lang),
-        responseMimeType: "application/json",
-        responseSchema: detailSchema,
-        temperature: 0.7,
+    const request: GenerationRequest = {
+      tag: { kind: 'detail', query: parentQuery, language: lang, itemTitle },
+      systemInstruction: getDetailSystemInstruction(lang, persona),
+      parts: [{ text: prompt }],
+      schema: detailSchema,
+      schemaName: "issue_detail",
+      temperature: 0.7,
+    };
+    const subject = `Detail: "${itemTitle}"`;
+    const text = await scheduleText(request, subject, options);
+
+    return await acceptValidated('detail', subject, text, validateDetailResponse, request, options);
+  } catch (error) {
+    if (!(error instanceof RequestCancelledError)) console.error("AI Provider Detail Error:", error);
+    throw error;
+  }
+}
+
+// One new card in place of `item`. Pinned and dismissed cards of `result` steer the replacement.
+export const regenerateSuggestion = async (
+  result: SearchResult,
+  item: SuggestionItem,
+  lang: Language,
+  options: RequestOptions = {}
+): Promise<GeminiSuggestionSchema> => {
+  try {
+    const prompt = `
+      Input Query: "${result.query}"
+      Issue to replace: "${item.title}" (${item.description})
+      Context/Previous Items: ${buildPreviousContext(result)}
+    `;
+
+    const request: GenerationRequest = {
+      tag: { kind: 'regenerate', query: result.query, language: lang, itemTitle: item.title },
+      systemInstruction: getRegenerateSystemInstruction(lang, result.persona),
+      parts: [{ text: prompt }],
+      schema: suggestionSchema,
+      schemaName: "replacement_suggestion",
+      temperature: 0.9,
+    };
+    const subject = `Regenerate: "${item.title}"`;
+    const text = await scheduleText(request, subject, options);
+
+    return await acceptValidated('regenerate', subject, text, validateSuggestionResponse, request, options);
+  } catch (error) {
+    if (!(error instanceof RequestCancelledError)) console.error("AI Provider Regenerate Error:", error);
+    throw error;
+  }
+};
+
+// Asks the model for due dates of the steps of a deep dive. Steps without a time limit are left out.
+export const proposeDeadlines = async (
+  item: SuggestionItem,
+  parentQuery: string,
+  lang: Language,
+  options: RequestOptions = {}
+): Promise<GeminiDeadlineSchema> => {
+  const steps = item.details?.steps ?? [];
+  if (steps.length === 0) return { deadlines: [] };
+
+  try {
+    const prompt = `
+      Today: ${new Date().toISOString().slice(0, 10)}
+      Original Main Issue: "${parentQuery}"
+      Specific Item: "${item.title}"
+
+      Steps:
+      ${steps.map((step, idx) => `${idx + 1}. ${step}`).join("\n      ")}
+    `;
+
+    const request: GenerationRequest = {
+      tag: { kind: 'deadlines', query: parentQuery, language: lang, itemTitle: item.title },
+      systemInstruction: getDeadlineSystemInstruction(lang),
+      parts: [{ text: prompt }],
+      schema: deadlineSchema,
+      schemaName: "step_deadlines",
+      temperature: 0.2,
+    };
+    const subject = `Deadlines: "${item.title}"`;
+    const text = await scheduleText(request, subject, options);
+
+    return await acceptValidated('deadlines', subject, text, (reply) => validateDeadlineResponse(reply, steps.length), request, options);
+  } catch (error) {
+    if (!(error instanceof RequestCancelledError)) console.error("AI Provider Deadline Error:", error);
+    throw error;
+  }
+};
+
+// Deep dives can be long; a trimmed version is enough context for a chat answer
+const MAX_CONTEXT_ANALYSIS_CHARS = 800;
+
+export const askFollowUp = async (
+  result: SearchResult,
+  question: string,
+  lang: Language,
+  options: RequestOptions = {}
+): Promise<string> => {
+  try {
+    const issues = result.suggestions.map((s, idx) => {
+      let entry = `${idx + 1}. ${s.title}: ${s.description}`;
+      if (s.details) {
+        entry += `\n   Deep dive: ${s.details.analysis.slice(0, MAX_CONTEXT_ANALYSIS_CHARS)}`;
+        entry += `\n   Steps: ${s.details.steps.join(" | ")}`;
+        entry += `\n   Risks: ${s.details.risks}`;
       }
-    });
+      return entry;
+    }).join("\n");
 
-    const text = response.text;
-    if (!text) throw new Error("Empty detail response");
-    
-    return JSON.parse(text) as GeminiDetailSchema;
+    const conversation = (result.thread || [])
+      .map(m => `${m.role === 'user' ? "USER" : "ASSISTANT"}: ${m.content}`)
+      .join("\n");
+
+    const prompt = `
+      Original Main Issue: "${result.query}"
+      Your earlier assessment: ${result.roastCommentary}
+
+      Related issues:
+      ${issues}
+
+      Conversation so far:
+      ${conversation || "(none)"}
+
+      New follow-up question: "${question}"
+    `;
+
+    const request: GenerationRequest = {
+      tag: { kind: 'followup', query: result.query, language: lang, question },
+      systemInstruction: getFollowUpSystemInstruction(lang, result.persona),
+      parts: [{ text: prompt }],
+      schema: followUpSchema,
+      schemaName: "follow_up_answer",
+      temperature: 0.7,
+    };
+    const subject = `Follow-up: "${question}"`;
+    const text = await scheduleText(request, subject, options);
+
+    return (await acceptValidated('followup', subject, text, validateFollowUpResponse, request, options)).answer;
   } catch (error) {
-    console.error("Gemini Detail API Error:", error);
+    if (!(error instanceof RequestCancelledError)) console.error("AI Provider Follow-up Error:", error);
     throw error;
   }
-}
\ No newline at end of file
+};
@@ -0,0 +1,60 @@
+import { SearchResult } from "../types";
+import { normalizeText } from "./similarity";
+
+// Search, filtering and sorting for the History page
+
+export type HistorySort = 'newest' | 'oldest' | 'mostItems' | 'fewestItems';
+
+export interface HistoryFilter {
+  search: string;
+  tag: string | null;
+  starredOnly: boolean;
+  sort: HistorySort;
+}
+
+export const DEFAULT_HISTORY_FILTER: HistoryFilter = { search: '', tag: null, starredOnly: false, sort: 'newest' };
+
+const searchableText = (result: SearchResult) =>
+  normalizeText([
+    result.query,
+    result.roastCommentary,
+    ...result.suggestions.flatMap(s => [s.title, s.description]),
+    ...(result.tags ?? []),
+  ].join("\n"));
+
+const SORTERS: Record<HistorySort, (a: SearchResult, b: SearchResult) => number> = {
+  newest: (a, b) => b.timestamp - a.timestamp,
+  oldest: (a, b) => a.timestamp - b.timestamp,
+  mostItems: (a, b) => b.suggestions.length - a.suggestions.length || b.timestamp - a.timestamp,
+  fewestItems: (a, b) => a.suggestions.length - b.suggestions.length || b.timestamp - a.timestamp,
+};
+
+export const queryHistory = (history: SearchResult[], filter: HistoryFilter): SearchResult[] => {
+  const terms = normalizeText(filter.search).split(/\s+/).filter(Boolean);
+  return history
+    .filter(result => {
+      if (filter.starredOnly && !result.starred) return false;
+      if (filter.tag && !result.tags?.includes(filter.tag)) return false;
+      if (terms.length === 0) return true;
+      const text = searchableText(result);
+      return terms.every(term => text.includes(term));
+    })
+    .sort(SORTERS[filter.sort]);
+};
+
+// Every tag in use, most used first
+export const collectTags = (history: SearchResult[]): string[] => {
+  const counts = new Map<string, number>();
+  history.forEach(result => result.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+const MAX_TAG_LENGTH = 32;
+
+// Adds a tag unless an equal one (ignoring case) is already there
+export const addTag = (tags: string[] | undefined, raw: string): string[] => {
+  const tag = raw.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+  const current = tags ?? [];
+  if (!tag || current.some(t => t.toLowerCase() === tag.toLowerCase())) return current;
+  return [...current, tag];
+};
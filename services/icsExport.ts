@@ -0,0 +1,112 @@
+import { SearchResult, TaskStatus } from "../types";
+import { Translator } from "../i18n";
+import { isResolved } from "./checklist";
+import { addDays, datedSteps } from "./deadlines";
+import { downloadBlob } from "./download";
+
+// iCalendar (RFC 5545) export of the dated checklist steps of an analysis: one all-day event per
+// step, with an alarm for the step's reminder. UIDs are stable, so importing the file again
+// updates the events instead of duplicating them.
+
+const PRODUCT_ID = "-//LifeDebugger//Action plan//EN";
+
+// Skipped steps stay in the calendar, marked as cancelled, so a re-import removes them
+const EVENT_STATUS: Record<TaskStatus, string> = {
+  todo: "CONFIRMED",
+  in_progress: "CONFIRMED",
+  done: "CONFIRMED",
+  skipped: "CANCELLED",
+};
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/\r?\n/g, "\\n").replace(/[;,]/g, match => `\\${match}`);
+
+// Lines are folded at 75 octets; continuation lines start with a space. Never splits a UTF-8 sequence.
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const dateValue = (key: string) => key.replace(/-/g, "");
+
+const timestampValue = (time: number) => new Date(time).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// All-day events start at midnight; reminders go off at 09:00, `days` days before
+const reminderTrigger = (days: number) =>
+  days === 0 ? "PT9H" : `-P${days > 1 ? `${days - 1}D` : ""}T15H`;
+
+const SUMMARY_LENGTH = 120;
+
+const summaryOf = (text: string) => text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1)}…` : text;
+
+export const buildCalendar = (result: SearchResult, t: Translator, now = Date.now()): string => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(result.query)}`,
+  ];
+
+  for (const { item, step, text, task } of datedSteps(result)) {
+    const description = [
+      `${item.title} — ${t('modal.steps')} ${step + 1}`,
+      text,
+      `${t('checklist.statusLabel')}: ${t(`checklist.status.${task.status}`)}`,
+      task.notes,
+      task.dueReason && `${t('deadlines.reason')}: ${task.dueReason}`,
+      `${t('report.subject')}: ${result.query}`,
+    ].filter(Boolean).join("\n");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${result.id}-${item.id}-${step}@lifedebugger`,
+      `DTSTAMP:${timestampValue(now)}`,
+      `LAST-MODIFIED:${timestampValue(task.updatedAt || now)}`,
+      `DTSTART;VALUE=DATE:${dateValue(task.dueDate!)}`,
+      `DTEND;VALUE=DATE:${dateValue(addDays(task.dueDate!, 1))}`,
+      `SUMMARY:${escapeText(`${task.status === 'done' ? "✓ " : ""}${summaryOf(text)}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `STATUS:${EVENT_STATUS[task.status]}`,
+      "TRANSP:TRANSPARENT",
+    );
+    // Finished steps need no reminder
+    if (task.reminderDays !== undefined && !isResolved(task.status)) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(summaryOf(text))}`,
+        `TRIGGER:${reminderTrigger(task.reminderDays)}`,
+        "END:VALARM",
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+// Number of events exportCalendar would write
+export const calendarEventCount = (result: SearchResult) => datedSteps(result).length;
+
+export const exportCalendar = (result: SearchResult, t: Translator) => {
+  const blob = new Blob([buildCalendar(result, t)], { type: "text/calendar;charset=utf-8" });
+  downloadBlob(blob, `lifedebugger-plan-${result.timestamp}.ics`);
+};
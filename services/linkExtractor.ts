@@ -0,0 +1,78 @@
+import { LinkExtract } from "../types";
+
+// Served by server/linkFetchPlugin.ts (npm run dev / npm run preview)
+const LINK_FETCH_ENDPOINT = "/api/fetch-url";
+
+// Enough for a long decree without blowing up the prompt
+const MAX_EXTRACT_CHARS = 20000;
+const MIN_CONTENT_CHARS = 200;
+
+// Known content containers first (thuvienphapluat.vn, common CMS), generic fallbacks after
+const CONTENT_SELECTORS = [
+  "#divContentDoc",
+  ".content1",
+  "#ctl00_Content_ThongTinVB_pnlDocContent",
+  "article",
+  "main",
+  "[role='main']",
+  "#content",
+  ".content",
+];
+
+const BOILERPLATE_SELECTORS = [
+  "script", "style", "noscript", "iframe", "svg", "canvas", "form", "button",
+  "nav", "header", "footer", "aside",
+  "[role='navigation']", "[role='banner']", "[role='contentinfo']",
+  ".menu", ".breadcrumb", ".sidebar", ".ads", ".advertisement", ".share", ".social", ".comment", ".comments",
+];
+
+const BLOCK_TAGS = "p, div, br, li, tr, h1, h2, h3, h4, h5, h6, section, blockquote, pre, table";
+
+const cache = new Map<string, LinkExtract>();
+
+export const extractReadableText = (html: string): { title: string; text: string } => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const title = (doc.querySelector("h1")?.textContent || doc.title || "").trim();
+
+  doc.querySelectorAll(BOILERPLATE_SELECTORS.join(",")).forEach((el) => el.remove());
+
+  const root =
+    CONTENT_SELECTORS
+      .map((selector) => doc.querySelector(selector))
+      .find((el) => (el?.textContent || "").trim().length >= MIN_CONTENT_CHARS) || doc.body;
+
+  // Detached documents have no layout, so mark block boundaries by hand before reading textContent
+  root.querySelectorAll(BLOCK_TAGS).forEach((el) => el.append(doc.createTextNode("\n")));
+
+  const text = (root.textContent || "")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line, i, lines) => line || (i > 0 && lines[i - 1]))
+    .join("\n")
+    .trim();
+
+  return {
+    title,
+    text: text.length > MAX_EXTRACT_CHARS ? `${text.slice(0, MAX_EXTRACT_CHARS)}\n[...truncated]` : text,
+  };
+};
+
+export const fetchLinkContent = async (url: string): Promise<LinkExtract> => {
+  const cached = cache.get(url);
+  if (cached) return cached;
+
+  const response = await fetch(`${LINK_FETCH_ENDPOINT}?url=${encodeURIComponent(url)}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.body) {
+    throw new Error(data?.error || `Link fetch failed (${response.status})`);
+  }
+
+  const extracted = data.contentType.includes("html")
+    ? extractReadableText(data.body)
+    : { title: url, text: String(data.body).slice(0, MAX_EXTRACT_CHARS) };
+  if (!extracted.text) throw new Error("No readable text found on the page");
+
+  const result: LinkExtract = { ...extracted, fetchedAt: Date.now() };
+  cache.set(url, result);
+  return result;
+};
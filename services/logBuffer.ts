@@ -0,0 +1,48 @@
+// Fixed-capacity ring buffer for the in-memory log. A long auto-generation session writes several
+// entries per deep dive; past the capacity the oldest entries are evicted instead of growing the list.
+
+export const LOG_CAPACITY = 2000;
+
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0; // Index of the oldest item
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  get length() {
+    return this.count;
+  }
+
+  // Returns the evicted item once the buffer is full
+  push(item: T): T | undefined {
+    if (this.count < this.capacity) {
+      this.items[(this.start + this.count) % this.capacity] = item;
+      this.count++;
+      return undefined;
+    }
+    const evicted = this.items[this.start];
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+    return evicted;
+  }
+
+  // Replaces the contents, keeping the newest `capacity` items; returns the ones that did not fit
+  reset(items: T[]): T[] {
+    const overflow = Math.max(0, items.length - this.capacity);
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+    items.slice(overflow).forEach(item => this.push(item));
+    return items.slice(0, overflow);
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    const out: T[] = [];
+    for (let i = 0; i < this.count; i++) out.push(this.items[(this.start + i) % this.capacity] as T);
+    return out;
+  }
+}
@@ -0,0 +1,18 @@
+import { LogEntry } from "../types";
+
+// Lets services outside the React tree write to the system log. App subscribes and forwards
+// entries to its addLog, so they are shown on the Logs page and persisted like any other entry.
+
+type LogListener = (entry: LogEntry) => void;
+
+const listeners = new Set<LogListener>();
+
+export const publishLog = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+  const full: LogEntry = { id: crypto.randomUUID(), timestamp: Date.now(), ...entry };
+  listeners.forEach(listener => listener(full));
+};
+
+export const subscribeLogs = (listener: LogListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,65 @@
+import { LogEntry } from "../types";
+import { downloadBlob } from "./download";
+
+// Filtering and export for the Logs page
+
+export type LogType = LogEntry['type'];
+
+export const LOG_TYPES: LogType[] = ['info', 'warning', 'error', 'system', 'cancel'];
+
+export type LogTimeRange = 'all' | '15m' | '1h' | '24h' | '7d';
+
+const RANGE_MS: Record<Exclude<LogTimeRange, 'all'>, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface LogFilter {
+  types: LogType[];
+  range: LogTimeRange;
+  search: string;
+}
+
+export const DEFAULT_LOG_FILTER: LogFilter = { types: LOG_TYPES, range: 'all', search: '' };
+
+// Every whitespace-separated term must appear in the message or the details, case-insensitively
+export const filterLogs = (logs: LogEntry[], filter: LogFilter, now: number = Date.now()): LogEntry[] => {
+  const since = filter.range === 'all' ? 0 : now - RANGE_MS[filter.range];
+  const terms = filter.search.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return logs.filter(log => {
+    if (!filter.types.includes(log.type) || log.timestamp < since) return false;
+    if (terms.length === 0) return true;
+    const haystack = `${log.message}\n${log.details ?? ''}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const toJsonLines = (logs: LogEntry[]): string =>
+  logs.map(log => JSON.stringify({ ...log, time: new Date(log.timestamp).toISOString() })).join("\n") + "\n";
+
+// RFC 4180: quote every field, double embedded quotes
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export const toCsv = (logs: LogEntry[]): string => {
+  const header = ['id', 'time', 'type', 'message', 'details'];
+  const rows = logs.map(log => [
+    log.id,
+    new Date(log.timestamp).toISOString(),
+    log.type,
+    log.message,
+    log.details ?? '',
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+};
+
+const stamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+
+export const exportLogsJsonl = (logs: LogEntry[]) =>
+  downloadBlob(new Blob([toJsonLines(logs)], { type: "application/x-ndjson" }), `lifedebugger-logs-${stamp()}.jsonl`);
+
+// BOM so spreadsheet apps read the file as UTF-8
+export const exportLogsCsv = (logs: LogEntry[]) =>
+  downloadBlob(new Blob(["\uFEFF", toCsv(logs)], { type: "text/csv;charset=utf-8" }), `lifedebugger-logs-${stamp()}.csv`);
@@ -0,0 +1,65 @@
+import { ReportModel, reportIssues } from "./reportModel";
+
+// Markdown rendering of the report model, used for human-readable history bundles
+
+// Heading ids follow the anchors of the report model so the TOC links work on GitHub-like renderers
+const anchorTag = (anchor: string) => `<a id="${anchor}"></a>`;
+
+const quote = (text: string) => text.split("\n").map(line => `> ${line}`).join("\n");
+
+export const renderReportMarkdown = (model: ReportModel): string => {
+  const out: string[] = [];
+
+  out.push(`# ${model.title}`, "", `_${model.subtitle}_`, "");
+  for (const field of model.meta) {
+    out.push(`- **${field.label}:** ${field.value}`);
+  }
+  out.push("");
+
+  out.push(`## ${model.tocTitle}`, "");
+  const issues = reportIssues(model);
+  for (const section of model.sections) {
+    out.push(`- [${section.numeral}. ${section.tocTitle}](#${section.anchor})`);
+    if (section.id === 'details') {
+      for (const issue of issues) out.push(`  - [${issue.number}. ${issue.title}](#${issue.anchor})`);
+    }
+  }
+  out.push("");
+
+  for (const section of model.sections) {
+    out.push(`## ${anchorTag(section.anchor)}${section.numeral}. ${section.title}`, "");
+
+    for (const block of section.blocks) {
+      switch (block.kind) {
+        case 'paragraph':
+          out.push(block.muted ? `_${block.text}_` : block.text, "");
+          break;
+        case 'field':
+          out.push(`**${block.label}**`, "");
+          out.push(block.mono ? "```\n" + block.value + "\n```" : block.value, "");
+          break;
+        case 'list':
+          block.items.forEach((item, idx) => out.push(`${idx + 1}. ${item}`));
+          out.push("");
+          break;
+        case 'message':
+          out.push(`**${block.label}**`, "", block.fromUser ? quote(block.text) : block.text, "");
+          break;
+        case 'issue': {
+          const { issue } = block;
+          out.push(`### ${anchorTag(issue.anchor)}${issue.number}. ${issue.title}`, "", issue.description, "");
+          if (issue.details) {
+            out.push(`**${model.labels.analysisGuide}**`, "", issue.details.analysis, "");
+            out.push(`**${model.labels.actionableSteps}**${issue.details.progress ? ` (${issue.details.progress})` : ""}`, "");
+            issue.details.steps.forEach((step, idx) => out.push(`${idx + 1}. ${step}`));
+            out.push("", `**${model.labels.risk}** ${issue.details.risks}`, "");
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  out.push("---", "", `_${model.footer}_`, "");
+  return out.join("\n");
+};
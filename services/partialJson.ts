@@ -0,0 +1,146 @@
+// Incremental JSON parsing for streamed model output.
+// Parses the longest usable prefix of a JSON document:
+// - objects keep the properties whose values are finished (plus partially filled nested containers)
+// - arrays keep only finished items, so a half-written suggestion never shows up
+// - unfinished strings, numbers and literals are dropped
+
+export interface PartialJson<T = unknown> {
+  value: T | undefined;
+  complete: boolean; // true when the whole document was closed
+}
+
+interface Node {
+  value: unknown;
+  complete: boolean;
+}
+
+// Thrown internally when the text ends inside a scalar
+class Truncated extends Error {}
+
+export const parsePartialJson = <T = unknown>(text: string): PartialJson<T> => {
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const parseString = (): string => {
+    i++; // opening quote
+    let out = '';
+    while (i < text.length) {
+      const c = text[i];
+      if (c === '"') {
+        i++;
+        return out;
+      }
+      if (c === '\\') {
+        if (i + 1 >= text.length) throw new Truncated();
+        const esc = text[i + 1];
+        if (esc === 'u') {
+          if (i + 6 > text.length) throw new Truncated();
+          out += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+          i += 6;
+          continue;
+        }
+        const map: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+        out += map[esc] ?? esc;
+        i += 2;
+        continue;
+      }
+      out += c;
+      i++;
+    }
+    throw new Truncated();
+  };
+
+  const parseLiteral = (): unknown => {
+    const rest = text.slice(i);
+    const match = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(rest);
+    if (match && match[0].length < rest.length) {
+      i += match[0].length;
+      return JSON.parse(match[0]);
+    }
+    // A literal touching the end of the text may still be growing ("12" -> "123", "tr" -> "true")
+    const isPrefix = /^-?\d*(\.\d*)?([eE][+-]?\d*)?$/.test(rest) || ['true', 'false', 'null'].some(w => w.startsWith(rest));
+    if (match || isPrefix) throw new Truncated();
+    throw new SyntaxError(`Unexpected token "${text[i]}" at position ${i}`);
+  };
+
+  const parseArray = (): Node => {
+    i++; // [
+    const items: unknown[] = [];
+    while (true) {
+      skipWhitespace();
+      if (i >= text.length) return { value: items, complete: false };
+      if (text[i] === ']') {
+        i++;
+        return { value: items, complete: true };
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      let node: Node;
+      try {
+        node = parseValue();
+      } catch (e) {
+        if (e instanceof Truncated) return { value: items, complete: false };
+        throw e;
+      }
+      if (!node.complete) return { value: items, complete: false };
+      items.push(node.value);
+    }
+  };
+
+  const parseObject = (): Node => {
+    i++; // {
+    const obj: Record<string, unknown> = {};
+    while (true) {
+      skipWhitespace();
+      if (i >= text.length) return { value: obj, complete: false };
+      if (text[i] === '}') {
+        i++;
+        return { value: obj, complete: true };
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      if (text[i] !== '"') throw new SyntaxError(`Expected property name at position ${i}`);
+
+      let key: string;
+      let node: Node;
+      try {
+        key = parseString();
+        skipWhitespace();
+        if (i >= text.length) return { value: obj, complete: false };
+        if (text[i] !== ':') throw new SyntaxError(`Expected ":" at position ${i}`);
+        i++;
+        node = parseValue();
+      } catch (e) {
+        if (e instanceof Truncated) return { value: obj, complete: false };
+        throw e;
+      }
+      obj[key] = node.value;
+      if (!node.complete) return { value: obj, complete: false };
+    }
+  };
+
+  const parseValue = (): Node => {
+    skipWhitespace();
+    if (i >= text.length) throw new Truncated();
+    const c = text[i];
+    if (c === '{') return parseObject();
+    if (c === '[') return parseArray();
+    if (c === '"') return { value: parseString(), complete: true };
+    return { value: parseLiteral(), complete: true };
+  };
+
+  try {
+    const node = parseValue();
+    return { value: node.value as T, complete: node.complete };
+  } catch (e) {
+    if (e instanceof Truncated) return { value: undefined, complete: false };
+    throw e;
+  }
+};
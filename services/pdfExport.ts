@@ -0,0 +1,352 @@
+import { jsPDF } from "jspdf";
+import { Language } from "../types";
+import { ReportModel, ReportSectionId, reportIssues } from "./reportModel";
+import dejaVuSansUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import dejaVuSansBoldUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url";
+
+// Text-based PDF export. Everything is drawn as real text with an embedded Unicode font,
+// so output is sharp, searchable and never sliced through a line.
+
+// DejaVu Sans covers Latin (incl. Vietnamese), Greek and Cyrillic. It ships with the app as a
+// bundled asset, so export works offline and under a strict CSP. CJK glyphs are not included.
+const FONT_FAMILY = "DejaVuSans";
+const FONT_FILES = {
+  normal: "DejaVuSans.ttf",
+  bold: "DejaVuSans-Bold.ttf",
+};
+type FontStyle = keyof typeof FONT_FILES;
+const FONT_URLS: Record<FontStyle, string> = {
+  normal: dejaVuSansUrl,
+  bold: dejaVuSansBoldUrl,
+};
+
+// Kana, CJK ideographs, Hangul and full-width forms would come out as empty boxes
+const UNSUPPORTED_SCRIPT = /[\u1100-\u11ff\u3000-\u30ff\u3130-\u318f\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+// Thrown before anything is drawn when the text needs glyphs the embedded font does not have
+export class PdfUnsupportedScriptError extends Error {
+  constructor() {
+    super("PDF export has no font for Japanese or Korean text");
+    this.name = 'PdfUnsupportedScriptError';
+  }
+}
+
+// UI languages whose own labels the font cannot draw
+export const pdfSupportsLanguage = (language: Language) => language !== Language.JA && language !== Language.KO;
+
+const assertSupportedScript = (text: string) => {
+  if (UNSUPPORTED_SCRIPT.test(text)) throw new PdfUnsupportedScriptError();
+};
+
+// A4 in mm
+const MARGIN = 20;
+const FOOTER_OFFSET = 10; // Distance of the page number from the bottom edge
+const LINE_HEIGHT_FACTOR = 1.4;
+const PT_TO_MM = 25.4 / 72;
+
+const SECTION_COLORS: Record<ReportSectionId, string> = {
+  analysis: "#1e3a8a",
+  details: "#9f1239",
+  prompt: "#581c87",
+  references: "#065f46",
+  followUp: "#831843",
+};
+
+const COLORS = {
+  text: "#111827",
+  muted: "#6b7280",
+  body: "#374151",
+  amber: "#b45309",
+  emerald: "#047857",
+  red: "#b91c1c",
+};
+
+let fontCache: Promise<Record<FontStyle, string>> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+// Loaded once per session; a failed load is retried on the next export
+const loadFonts = (): Promise<Record<FontStyle, string>> => {
+  if (!fontCache) {
+    fontCache = Promise.all(
+      (Object.keys(FONT_FILES) as FontStyle[]).map(async (style) => {
+        const response = await fetch(FONT_URLS[style]);
+        if (!response.ok) throw new Error(`Font load failed (${response.status}): ${FONT_FILES[style]}`);
+        return [style, toBase64(await response.arrayBuffer())] as const;
+      })
+    ).then(entries => Object.fromEntries(entries) as Record<FontStyle, string>);
+    fontCache.catch(() => { fontCache = null; });
+  }
+  return fontCache;
+};
+
+const createDocument = async (): Promise<jsPDF> => {
+  const fonts = await loadFonts();
+  const pdf = new jsPDF("p", "mm", "a4");
+  for (const style of Object.keys(FONT_FILES) as FontStyle[]) {
+    pdf.addFileToVFS(FONT_FILES[style], fonts[style]);
+    pdf.addFont(FONT_FILES[style], FONT_FAMILY, style);
+  }
+  pdf.setFont(FONT_FAMILY, "normal");
+  return pdf;
+};
+
+interface TextStyle {
+  size: number; // pt
+  bold?: boolean;
+  color?: string;
+  indent?: number; // mm from the left margin
+  after?: number; // mm of space after the block
+}
+
+interface Position {
+  page: number;
+  y: number;
+}
+
+const lineHeight = (size: number) => size * PT_TO_MM * LINE_HEIGHT_FACTOR;
+
+// Cursor-based layout on top of jsPDF: wraps text to the content width and breaks pages between lines
+const createWriter = (pdf: jsPDF) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const bottom = pageHeight - MARGIN;
+  let y = MARGIN;
+
+  const applyStyle = (style: TextStyle) => {
+    pdf.setFont(FONT_FAMILY, style.bold ? "bold" : "normal");
+    pdf.setFontSize(style.size);
+    pdf.setTextColor(style.color ?? COLORS.text);
+  };
+
+  const page = () => pdf.getCurrentPageInfo().pageNumber;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+
+  const wrap = (text: string, style: TextStyle, width = contentWidth - (style.indent ?? 0)): string[] => {
+    applyStyle(style);
+    return pdf.splitTextToSize(text, width) as string[];
+  };
+
+  const text = (value: string, style: TextStyle) => {
+    const lh = lineHeight(style.size);
+    for (const paragraph of value.split("\n")) {
+      const lines = paragraph.trim() ? wrap(paragraph, style) : [""];
+      for (const line of lines) {
+        ensureSpace(lh);
+        applyStyle(style);
+        pdf.text(line, MARGIN + (style.indent ?? 0), y, { baseline: "top" });
+        y += lh;
+      }
+    }
+    y += style.after ?? 0;
+  };
+
+  // Hanging indent: wrapped lines align with the text after the marker
+  const listItem = (marker: string, value: string, style: TextStyle) => {
+    const indent = style.indent ?? 0;
+    applyStyle(style);
+    const markerWidth = pdf.getTextWidth(marker + " ");
+    const lines = wrap(value, style, contentWidth - indent - markerWidth);
+    const lh = lineHeight(style.size);
+    lines.forEach((line, idx) => {
+      ensureSpace(lh);
+      applyStyle(style);
+      if (idx === 0) pdf.text(marker, MARGIN + indent, y, { baseline: "top" });
+      pdf.text(line, MARGIN + indent + markerWidth, y, { baseline: "top" });
+      y += lh;
+    });
+    y += style.after ?? 0;
+  };
+
+  const rule = (color: string, width = 0.3, after = 4) => {
+    pdf.setDrawColor(color);
+    pdf.setLineWidth(width);
+    pdf.line(MARGIN, y, pageWidth - MARGIN, y);
+    y += after;
+  };
+
+  const space = (mm: number) => {
+    y += mm;
+  };
+
+  const position = (): Position => ({ page: page(), y });
+
+  return {
+    pageWidth, pageHeight, contentWidth, bottom,
+    applyStyle, newPage, ensureSpace, wrap, text, listItem, rule, space, position,
+  };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+const drawPageNumbers = (pdf: jsPDF, writer: Writer, label: (page: number, total: number) => string, footer?: string) => {
+  const total = pdf.getNumberOfPages();
+  for (let i = 1; i <= total; i++) {
+    pdf.setPage(i);
+    writer.applyStyle({ size: 8, color: COLORS.muted });
+    const baseline = writer.pageHeight - FOOTER_OFFSET;
+    if (footer) pdf.text(footer, MARGIN, baseline);
+    pdf.text(label(i, total), writer.pageWidth - MARGIN, baseline, { align: "right" });
+  }
+};
+
+interface TocEntry {
+  anchor: string;
+  label: string;
+  level: 0 | 1;
+  color: string;
+  slot?: Position; // Where the entry is drawn
+}
+
+const TOC_STYLE: Record<0 | 1, TextStyle> = {
+  0: { size: 11, bold: true },
+  1: { size: 9, indent: 6, color: COLORS.body },
+};
+
+export const exportReportPdf = async (model: ReportModel): Promise<void> => {
+  assertSupportedScript(JSON.stringify(model));
+  const pdf = await createDocument();
+  pdf.setDocumentProperties({ title: `${model.title} - ${model.meta[0]?.value ?? ""}`, creator: "LifeDebugger" });
+  const w = createWriter(pdf);
+
+  // Cover: title, meta
+  w.text(model.title, { size: 20, bold: true, color: SECTION_COLORS.analysis, after: 1 });
+  w.text(model.subtitle, { size: 9, color: COLORS.muted, after: 3 });
+  w.rule("#000000", 0.8, 6);
+  for (const field of model.meta) {
+    w.text(field.label.toUpperCase(), { size: 8, bold: true, color: COLORS.muted });
+    w.text(field.value, { size: 11, after: 3 });
+  }
+  w.space(4);
+
+  // Table of contents: slots are reserved now and filled once target pages are known
+  const issues = reportIssues(model);
+  const entries: TocEntry[] = model.sections.flatMap(section => [
+    { anchor: section.anchor, label: `${section.numeral}. ${section.tocTitle}`, level: 0 as const, color: SECTION_COLORS[section.id] },
+    ...(section.id === 'details'
+      ? issues.map(issue => ({ anchor: issue.anchor, label: `${issue.number}. ${issue.title}`, level: 1 as const, color: COLORS.body }))
+      : []),
+  ]);
+
+  w.ensureSpace(lineHeight(14) * 3);
+  w.text(model.tocTitle, { size: 14, bold: true, color: SECTION_COLORS.analysis, after: 1 });
+  w.rule("#dbeafe");
+  for (const entry of entries) {
+    const lh = lineHeight(TOC_STYLE[entry.level].size) + (entry.level === 0 ? 1.5 : 0.5);
+    w.ensureSpace(lh);
+    entry.slot = w.position();
+    w.space(lh);
+  }
+
+  // Body: every section starts on a new page
+  const destinations: Record<string, Position> = {};
+
+  for (const section of model.sections) {
+    w.newPage();
+    destinations[section.anchor] = w.position();
+    const color = SECTION_COLORS[section.id];
+    w.text(`${section.numeral}. ${section.title}`, { size: 15, bold: true, color, after: 1 });
+    w.rule(color, 0.6, 5);
+
+    for (const block of section.blocks) {
+      switch (block.kind) {
+        case 'paragraph':
+          w.text(block.text, { size: 10.5, color: block.muted ? COLORS.muted : COLORS.text, after: 4 });
+          break;
+        case 'field':
+          w.ensureSpace(lineHeight(9) + lineHeight(10.5) * 2);
+          w.text(block.label, { size: 9, bold: true, color });
+          w.text(block.value, { size: block.mono ? 9 : 12, bold: !block.mono, color: block.mono ? COLORS.body : COLORS.text, after: 5 });
+          break;
+        case 'list':
+          block.items.forEach((item, idx) => w.listItem(`${idx + 1}.`, item, { size: 10, color: COLORS.emerald, after: 1.5 }));
+          break;
+        case 'message':
+          w.ensureSpace(lineHeight(9) + lineHeight(10.5) * 2);
+          w.text(block.label, { size: 9, bold: true, color: block.fromUser ? color : COLORS.muted });
+          w.text(block.text, { size: 10.5, bold: block.fromUser, after: 4 });
+          break;
+        case 'issue': {
+          const { issue } = block;
+          // Keep the heading together with the start of its description
+          const titleLines = w.wrap(`${issue.number}. ${issue.title}`, { size: 12, bold: true });
+          w.ensureSpace(titleLines.length * lineHeight(12) + lineHeight(10.5) * 2);
+          destinations[issue.anchor] = w.position();
+          w.text(`${issue.number}. ${issue.title}`, { size: 12, bold: true, color, after: 1 });
+          w.text(issue.description, { size: 10.5, color: COLORS.body, after: 2 });
+          if (issue.details) {
+            w.ensureSpace(lineHeight(9) + lineHeight(10) * 2);
+            w.text(model.labels.analysisGuide.toUpperCase(), { size: 9, bold: true, color: COLORS.amber, indent: 4 });
+            w.text(issue.details.analysis, { size: 10, indent: 4, after: 2 });
+            w.ensureSpace(lineHeight(9) + lineHeight(10) * 2);
+            w.text(model.labels.actionableSteps.toUpperCase() + (issue.details.progress ? ` · ${issue.details.progress}` : ""), { size: 9, bold: true, color: COLORS.emerald, indent: 4 });
+            issue.details.steps.forEach(step => w.listItem("•", step, { size: 10, color: COLORS.body, indent: 6, after: 0.5 }));
+            w.space(1.5);
+            w.ensureSpace(lineHeight(9) + lineHeight(10) * 2);
+            w.text(model.labels.risk.toUpperCase(), { size: 9, bold: true, color: COLORS.red, indent: 4 });
+            w.text(issue.details.risks, { size: 10, color: COLORS.red, indent: 4 });
+          } else {
+            w.text(model.labels.waiting, { size: 9, color: COLORS.muted, indent: 4 });
+          }
+          w.space(6);
+          break;
+        }
+      }
+    }
+  }
+
+  // Fill the reserved TOC slots with clickable entries and matching bookmarks
+  let detailsOutline: unknown = null;
+  for (const entry of entries) {
+    const target = destinations[entry.anchor];
+    if (!entry.slot || !target) continue;
+    const style = { ...TOC_STYLE[entry.level], color: entry.color };
+    const x = MARGIN + (style.indent ?? 0);
+    const numberWidth = 12;
+
+    pdf.setPage(entry.slot.page);
+    let [label] = w.wrap(entry.label, style, w.contentWidth - (style.indent ?? 0) - numberWidth);
+    if (label !== entry.label) label = label.replace(/\s*\S*$/, "") + "…";
+    w.applyStyle(style);
+    pdf.text(label, x, entry.slot.y, { baseline: "top" });
+    pdf.text(String(target.page), w.pageWidth - MARGIN, entry.slot.y, { baseline: "top", align: "right" });
+    pdf.link(x, entry.slot.y, w.pageWidth - MARGIN - x, lineHeight(style.size), { pageNumber: target.page, top: target.y });
+
+    const bookmark = pdf.outline.add(entry.level === 0 ? null : detailsOutline, entry.label, { pageNumber: target.page });
+    if (entry.anchor === 'section-details') detailsOutline = bookmark;
+  }
+
+  drawPageNumbers(pdf, w, model.pageLabel, model.footer);
+  pdf.save(`${model.fileName}.pdf`);
+};
+
+// Plain text export for pages without a report model (docs, logs, history)
+export const exportTextPdf = async (
+  text: string,
+  fileName: string,
+  pageLabel: (page: number, total: number) => string
+): Promise<void> => {
+  assertSupportedScript(text + pageLabel(1, 1));
+  const pdf = await createDocument();
+  const w = createWriter(pdf);
+  w.text(text, { size: 10, color: COLORS.text });
+  drawPageNumbers(pdf, w, pageLabel);
+  pdf.save(`${fileName}.pdf`);
+};
@@ -0,0 +1,86 @@
+import { GoogleGenAI, Type, Schema, GenerateContentParameters, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { AIProvider, GenerationRequest, GenerationResult, JsonSchema, ProviderError, StreamSummary, TokenUsage } from "./types";
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+// Gemini uses its own OpenAPI-flavoured Schema with upper-case Type enums
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  ...(schema.description && { description: schema.description }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+  }),
+  ...(schema.required && { required: schema.required }),
+});
+
+const toUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined =>
+  metadata && {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    // Thinking tokens are billed as output
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    totalTokens: metadata.totalTokenCount ?? 0,
+  };
+
+const toProviderError = (error: any) =>
+  new ProviderError(error?.message || "Gemini request failed", error?.status);
+
+export const createGeminiProvider = (apiKey: string | undefined, model: string = DEFAULT_MODEL): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    if (!apiKey) throw new Error("API_KEY not found in environment");
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  const buildParams = (request: GenerationRequest): GenerateContentParameters => ({
+    model,
+    contents: { parts: request.parts }, // Multimodal input
+    config: {
+      systemInstruction: request.systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: toGeminiSchema(request.schema),
+      temperature: request.temperature,
+      abortSignal: request.signal,
+    },
+  });
+
+  return {
+    id: 'gemini',
+    model,
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      const response = await getClient().models.generateContent(buildParams(request)).catch((error) => {
+        throw toProviderError(error);
+      });
+
+      return { text: response.text ?? "", model, usage: toUsage(response.usageMetadata) };
+    },
+    async *generateStream(request: GenerationRequest): AsyncGenerator<string, StreamSummary> {
+      let usage: TokenUsage | undefined;
+      try {
+        const stream = await getClient().models.generateContentStream(buildParams(request));
+        for await (const chunk of stream) {
+          request.signal?.throwIfAborted();
+          // Every chunk carries the running totals; the last one is final
+          usage = toUsage(chunk.usageMetadata) ?? usage;
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+      return { model, usage };
+    },
+  };
+};
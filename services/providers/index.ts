@@ -0,0 +1,45 @@
+import { AIProvider, ProviderConfig, ProviderId } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createOllamaProvider } from "./ollamaProvider";
+import { createReplayProvider, replayFaultsFromEnv, withFixtureRecording } from "./replayProvider";
+
+export * from "./types";
+
+// Defaults come from .env.local (see vite.config.ts); Gemini stays the default backend
+const envConfig = (): ProviderConfig => ({
+  id: (process.env.AI_PROVIDER as ProviderId) || 'gemini',
+  model: process.env.AI_MODEL || undefined,
+  baseUrl: process.env.AI_BASE_URL || undefined,
+  apiKey: process.env.AI_API_KEY || undefined,
+});
+
+export const createProvider = (config: ProviderConfig): AIProvider => {
+  switch (config.id) {
+    case 'replay':
+      return createReplayProvider({ faults: replayFaultsFromEnv() });
+    case 'openai':
+      return createOpenAICompatibleProvider(config.apiKey, config.model, config.baseUrl);
+    case 'ollama':
+      return createOllamaProvider(config.model, config.baseUrl);
+    case 'gemini':
+    default:
+      return createGeminiProvider(config.apiKey || process.env.API_KEY, config.model);
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    const provider = createProvider(envConfig());
+    activeProvider = process.env.AI_RECORD_FIXTURES === 'true' && provider.id !== 'replay'
+      ? withFixtureRecording(provider)
+      : provider;
+  }
+  return activeProvider;
+};
+
+export const setProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,73 @@
+import { AIProvider, GenerationRequest, GenerationResult, ProviderError, StreamSummary, TokenUsage } from "./types";
+import { readLines } from "./streaming";
+
+// Local Ollama server (native /api/chat). Structured output takes the JSON schema as-is via `format`.
+const DEFAULT_BASE_URL = "http://localhost:11434";
+const DEFAULT_MODEL = "llama3.1";
+
+// Counts come with the final message (`done: true`)
+const toUsage = (data: any): TokenUsage | undefined =>
+  data.prompt_eval_count === undefined && data.eval_count === undefined ? undefined : {
+    promptTokens: data.prompt_eval_count ?? 0,
+    outputTokens: data.eval_count ?? 0,
+    totalTokens: (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0),
+  };
+
+export const createOllamaProvider = (
+  model: string = DEFAULT_MODEL,
+  baseUrl: string = DEFAULT_BASE_URL
+): AIProvider => {
+  const post = async (request: GenerationRequest, stream: boolean): Promise<Response> => {
+    const text = request.parts
+      .map((part) => ('text' in part ? part.text : ''))
+      .filter(Boolean)
+      .join('\n\n');
+    // Vision models accept raw base64 images; other attachment types are dropped
+    const images = request.parts.flatMap((part) =>
+      'inlineData' in part && part.inlineData.mimeType.startsWith('image/') ? [part.inlineData.data] : []
+    );
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        stream,
+        format: request.schema,
+        options: { temperature: request.temperature },
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          { role: 'user', content: text, ...(images.length > 0 && { images }) },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new ProviderError(`Ollama request failed (${response.status}): ${body}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    id: 'ollama',
+    model,
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      const data = await (await post(request, false)).json();
+      return { text: data.message?.content ?? "", model: data.model ?? model, usage: toUsage(data) };
+    },
+    async *generateStream(request: GenerationRequest): AsyncGenerator<string, StreamSummary | void> {
+      const response = await post(request, true);
+      if (!response.body) throw new ProviderError("Ollama stream has no body");
+
+      // Newline-delimited JSON, one message fragment per line
+      for await (const line of readLines(response.body)) {
+        const data = JSON.parse(line);
+        if (data.error) throw new ProviderError(`Ollama stream failed: ${data.error}`);
+        if (data.message?.content) yield data.message.content;
+        if (data.done) return { model: data.model ?? model, usage: toUsage(data) };
+      }
+    },
+  };
+};
@@ -0,0 +1,114 @@
+import { AIProvider, ContentPart, GenerationRequest, GenerationResult, JsonSchema, ProviderError, StreamSummary, TokenUsage } from "./types";
+import { readLines } from "./streaming";
+
+// Works with OpenAI and any server exposing /chat/completions (llama.cpp server, LM Studio, vLLM, OpenRouter...)
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+// Strict structured outputs require every object to be closed and every property required
+const toStrictSchema = (schema: JsonSchema): Record<string, unknown> => {
+  if (schema.type === 'object' && schema.properties) {
+    return {
+      type: 'object',
+      ...(schema.description && { description: schema.description }),
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, toStrictSchema(value)])
+      ),
+      required: Object.keys(schema.properties),
+      additionalProperties: false,
+    };
+  }
+  if (schema.type === 'array' && schema.items) {
+    return {
+      type: 'array',
+      ...(schema.description && { description: schema.description }),
+      items: toStrictSchema(schema.items),
+    };
+  }
+  return { ...schema };
+};
+
+const toUsage = (usage: any): TokenUsage | undefined =>
+  usage && {
+    promptTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+  };
+
+// Images travel as data URLs; other binaries (PDF, video) are not accepted by chat completions
+const toMessageContent = (parts: ContentPart[]) =>
+  parts.map((part) => {
+    if ('text' in part) return { type: 'text', text: part.text };
+    if (part.inlineData.mimeType.startsWith('image/')) {
+      return {
+        type: 'image_url',
+        image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+      };
+    }
+    return { type: 'text', text: `[Attachment of type ${part.inlineData.mimeType} omitted: not supported by this provider]` };
+  });
+
+export const createOpenAICompatibleProvider = (
+  apiKey: string | undefined,
+  model: string = DEFAULT_MODEL,
+  baseUrl: string = DEFAULT_BASE_URL
+): AIProvider => {
+  const post = async (request: GenerationRequest, stream: boolean): Promise<Response> => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        // Adds a final chunk with the token counts (ignored by servers that do not support it)
+        ...(stream && { stream_options: { include_usage: true } }),
+        temperature: request.temperature,
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          { role: 'user', content: toMessageContent(request.parts) },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.schemaName, strict: true, schema: toStrictSchema(request.schema) },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new ProviderError(`OpenAI-compatible request failed (${response.status}): ${body}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai',
+    model,
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      const data = await (await post(request, false)).json();
+      return { text: data.choices?.[0]?.message?.content ?? "", model: data.model ?? model, usage: toUsage(data.usage) };
+    },
+    async *generateStream(request: GenerationRequest): AsyncGenerator<string, StreamSummary> {
+      const response = await post(request, true);
+      if (!response.body) throw new ProviderError("OpenAI-compatible stream has no body");
+
+      const summary: StreamSummary = { model };
+      // Server-sent events: "data: {...}" lines, terminated by "data: [DONE]"
+      for await (const line of readLines(response.body)) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') break;
+        const data = JSON.parse(payload);
+        if (data.model) summary.model = data.model;
+        if (data.usage) summary.usage = toUsage(data.usage);
+        const delta = data.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+      return summary;
+    },
+  };
+};
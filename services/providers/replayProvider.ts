@@ -0,0 +1,166 @@
+import { AIProvider, GenerationRequest, GenerationResult, ProviderError, RequestTag } from "./types";
+import { GeminiDeadlineSchema, GeminiDetailSchema, GeminiFollowUpSchema, GeminiResponseSchema, GeminiSuggestionSchema, Language } from "../../types";
+
+// Offline provider: serves recorded responses from fixtures/replay/*.json, keyed by query + language.
+// Fixtures can script failures to exercise retry/backoff paths without a key or quota.
+
+// 'disconnect' only differs from 'malformed' when streaming: the stream errors out half-way
+export type ReplayFault = '429' | 'empty' | 'malformed' | 'disconnect';
+
+export interface ReplayFixture {
+  query: string;
+  language: Language;
+  issue?: GeminiResponseSchema;
+  details?: Record<string, GeminiDetailSchema>; // Keyed by item title; "*" is the fallback
+  followUps?: Record<string, GeminiFollowUpSchema>; // Keyed by question; "*" is the fallback
+  deadlines?: Record<string, GeminiDeadlineSchema>; // Keyed by item title; "*" is the fallback
+  replacements?: Record<string, GeminiSuggestionSchema>; // Keyed by the title being replaced; "*" is the fallback
+  // Consumed in order, one per call of that kind: ["429", "429"] fails twice then succeeds
+  faults?: { issue?: ReplayFault[]; detail?: ReplayFault[]; followup?: ReplayFault[]; deadlines?: ReplayFault[]; regenerate?: ReplayFault[] };
+}
+
+const MODEL = "replay";
+const STREAM_CHUNK_SIZE = 48;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+const normalize = (text: string) => text.normalize("NFC").trim().toLowerCase();
+const fixtureKey = (query: string, language: Language) => `${language}::${normalize(query)}`;
+
+const loadFixtures = (): Map<string, ReplayFixture> => {
+  const modules = import.meta.glob<ReplayFixture>("../../fixtures/replay/*.json", { eager: true, import: "default" });
+  return new Map(Object.values(modules).map((f) => [fixtureKey(f.query, f.language), f]));
+};
+
+const parseFaults = (raw: string | undefined): ReplayFault[] =>
+  (raw || "")
+    .split(",")
+    .map((f) => f.trim())
+    .filter((f): f is ReplayFault => ['429', 'empty', 'malformed', 'disconnect'].includes(f));
+
+// Behaves like an aborted fetch when the request is cancelled mid-wait
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+export const createReplayProvider = (
+  options: { latencyMs?: number; faults?: ReplayFault[] } = {}
+): AIProvider => {
+  const fixtures = loadFixtures();
+  const latencyMs = options.latencyMs ?? 300;
+  // Global faults (AI_REPLAY_FAULTS) apply to the next calls of any kind, before fixture faults
+  const globalFaults = [...(options.faults ?? [])];
+  const callCounts = new Map<string, number>();
+
+  const nextFault = (tag: RequestTag, fixture: ReplayFixture | undefined): ReplayFault | undefined => {
+    if (globalFaults.length > 0) return globalFaults.shift();
+
+    const counterKey = `${tag.kind}::${fixtureKey(tag.query, tag.language)}::${tag.itemTitle ?? tag.question ?? ""}`;
+    const call = callCounts.get(counterKey) ?? 0;
+    callCounts.set(counterKey, call + 1);
+    return fixture?.faults?.[tag.kind]?.[call];
+  };
+
+  const findPayload = (tag: RequestTag, fixture: ReplayFixture | undefined): unknown => {
+    if (!fixture) return undefined;
+    if (tag.kind === 'issue') return fixture.issue;
+    if (tag.kind === 'followup') return fixture.followUps?.[tag.question ?? ""] ?? fixture.followUps?.["*"];
+    if (tag.kind === 'deadlines') return fixture.deadlines?.[tag.itemTitle ?? ""] ?? fixture.deadlines?.["*"];
+    if (tag.kind === 'regenerate') return fixture.replacements?.[tag.itemTitle ?? ""] ?? fixture.replacements?.["*"];
+    return fixture.details?.[tag.itemTitle ?? ""] ?? fixture.details?.["*"];
+  };
+
+  // Resolves the full response text for a call, applying the next scripted fault
+  const respond = async (request: GenerationRequest): Promise<{ text: string; fault?: ReplayFault }> => {
+    const { tag } = request;
+    const fixture = fixtures.get(fixtureKey(tag.query, tag.language));
+
+    await delay(latencyMs, request.signal);
+
+    const fault = nextFault(tag, fixture);
+    if (fault === '429') {
+      throw new ProviderError("Replay: simulated 429 RESOURCE_EXHAUSTED (quota exceeded)", 429);
+    }
+    if (fault === 'empty') {
+      return { text: "", fault };
+    }
+
+    const payload = findPayload(tag, fixture);
+    if (!payload) {
+      throw new ProviderError(
+        `Replay: no fixture recorded for ${tag.kind} "${tag.itemTitle ?? tag.question ?? tag.query}" (${tag.language})`,
+        404
+      );
+    }
+    return { text: JSON.stringify(payload), fault };
+  };
+
+  // Cut the document mid-way, like a truncated generation
+  const truncate = (text: string) => text.slice(0, Math.floor(text.length / 2));
+
+  return {
+    id: 'replay',
+    model: MODEL,
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      const { text, fault } = await respond(request);
+      const broken = fault === 'malformed' || fault === 'disconnect';
+      return { text: broken ? truncate(text) : text, model: MODEL };
+    },
+    async *generateStream(request: GenerationRequest): AsyncGenerator<string> {
+      const { text, fault } = await respond(request);
+      const broken = fault === 'malformed' || fault === 'disconnect';
+      const body = broken ? truncate(text) : text;
+
+      for (let pos = 0; pos < body.length; pos += STREAM_CHUNK_SIZE) {
+        await delay(STREAM_CHUNK_DELAY_MS, request.signal);
+        yield body.slice(pos, pos + STREAM_CHUNK_SIZE);
+      }
+      if (fault === 'disconnect') {
+        throw new ProviderError("Replay: simulated stream disconnect");
+      }
+    },
+  };
+};
+
+export const replayFaultsFromEnv = () => parseFaults(process.env.AI_REPLAY_FAULTS);
+
+// Wraps a live provider and prints each response as a ready-to-save fixture in the console
+export const withFixtureRecording = (inner: AIProvider): AIProvider => {
+  const recorded = new Map<string, ReplayFixture>();
+
+  return {
+    id: inner.id,
+    model: inner.model,
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      const result = await inner.generate(request);
+      const { tag } = request;
+
+      try {
+        const key = fixtureKey(tag.query, tag.language);
+        const fixture = recorded.get(key) ?? { query: tag.query, language: tag.language };
+        const payload = JSON.parse(result.text);
+        if (tag.kind === 'issue') {
+          fixture.issue = payload;
+        } else if (tag.kind === 'followup') {
+          fixture.followUps = { ...fixture.followUps, [tag.question ?? "*"]: payload };
+        } else if (tag.kind === 'deadlines') {
+          fixture.deadlines = { ...fixture.deadlines, [tag.itemTitle ?? "*"]: payload };
+        } else if (tag.kind === 'regenerate') {
+          fixture.replacements = { ...fixture.replacements, [tag.itemTitle ?? "*"]: payload };
+        } else {
+          fixture.details = { ...fixture.details, [tag.itemTitle ?? "*"]: payload };
+        }
+        recorded.set(key, fixture);
+        console.info(`[replay] fixture for "${tag.query}" (${tag.language}):\n${JSON.stringify(fixture, null, 2)}`);
+      } catch {
+        // Unparseable responses are not worth recording
+      }
+
+      return result;
+    },
+  };
+};
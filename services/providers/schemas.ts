@@ -0,0 +1,85 @@
+import { JsonSchema } from "./types";
+
+// One card (mirrors GeminiSuggestionSchema); also the reply to a regenerate request
+export const suggestionSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    description: { type: "string" },
+  },
+  required: ["title", "description"],
+};
+
+// Main search: 10 suggestions + roast + sources + prompt advice (mirrors GeminiResponseSchema)
+export const issueSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    suggestions: {
+      type: "array",
+      items: suggestionSchema,
+    },
+    roast: {
+      type: "string",
+      description: "A humorous, critical, rude, open-minded paragraph evaluating the situation.",
+    },
+    sources: {
+      type: "array",
+      items: { type: "string" },
+      description: "List of data sources, files analyzed, or laws referenced.",
+    },
+    promptSuggestion: {
+      type: "string",
+      description: "An optimized prompt string for the user to copy/paste.",
+    },
+    bestModel: {
+      type: "string",
+      description: "The name of the recommended AI model for this task (e.g., 'Claude 3.5 Sonnet for Reasoning').",
+    },
+  },
+  required: ["suggestions", "roast", "sources", "promptSuggestion", "bestModel"],
+};
+
+// Detail view (mirrors GeminiDetailSchema)
+export const detailSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    analysis: { type: "string", description: "Detailed deep-dive analysis of the specific item." },
+    steps: {
+      type: "array",
+      items: { type: "string" },
+      description: "Step-by-step guide or workflow.",
+    },
+    risks: { type: "string", description: "Potential risks, penalties, or consequences." },
+  },
+  required: ["analysis", "steps", "risks"],
+};
+
+// Due dates proposed for deep-dive steps (mirrors GeminiDeadlineSchema)
+export const deadlineSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    deadlines: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          step: { type: "integer", description: "1-based number of the step." },
+          daysFromNow: { type: "integer", description: "Days from today until the step should be done." },
+          reason: { type: "string", description: "The rule or wording the date is based on." },
+        },
+        required: ["step", "daysFromNow", "reason"],
+      },
+      description: "Only steps with an explicit or customary time limit.",
+    },
+  },
+  required: ["deadlines"],
+};
+
+// Follow-up chat answer (mirrors GeminiFollowUpSchema). Wrapped in JSON so every backend takes the same path.
+export const followUpSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    answer: { type: "string", description: "Answer to the follow-up question, in plain text with line breaks." },
+  },
+  required: ["answer"],
+};
@@ -0,0 +1,26 @@
+// Splits a fetch() body into text lines, for SSE (OpenAI) and NDJSON (Ollama) streams
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield line;
+        newline = buffer.indexOf('\n');
+      }
+    }
+    const rest = (buffer + decoder.decode()).trim();
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
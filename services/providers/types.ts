@@ -0,0 +1,83 @@
+import { Language } from "../../types";
+
+// Provider-neutral contract between geminiService (prompts + parsing) and the AI backends (transport + schema adaptation).
+
+// Minimal JSON Schema subset used by the response schemas. Each provider adapts it to its own dialect.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+// Same shape as Gemini's Part so prompts can be built once for every backend
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+// What the request is about, independent of the prompt text. Used to key recorded fixtures.
+export interface RequestTag {
+  kind: 'issue' | 'detail' | 'followup' | 'deadlines' | 'regenerate';
+  query: string;
+  language: Language;
+  itemTitle?: string; // For 'detail', 'deadlines' and 'regenerate' (the card being replaced)
+  question?: string; // Only for 'followup'
+}
+
+export interface GenerationRequest {
+  tag: RequestTag;
+  systemInstruction: string;
+  parts: ContentPart[];
+  schema: JsonSchema;
+  schemaName: string; // Used by backends that require a named schema (OpenAI)
+  temperature: number;
+  signal?: AbortSignal; // Stops the HTTP request or stream when aborted
+}
+
+// Token counts as reported by the backend
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface GenerationResult {
+  text: string; // Raw JSON text; parsing stays in geminiService
+  model: string;
+  usage?: TokenUsage; // Missing when the backend reports none
+}
+
+// Return value of a finished stream
+export interface StreamSummary {
+  model: string;
+  usage?: TokenUsage;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'replay';
+
+export interface ProviderConfig {
+  id: ProviderId;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface AIProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  generate(request: GenerationRequest): Promise<GenerationResult>;
+  // Yields raw text chunks of the JSON document as they are generated, then returns the usage
+  generateStream?(request: GenerationRequest): AsyncGenerator<string, StreamSummary | void>;
+}
+
+// Carries the HTTP status so callers can detect rate limits (429) the same way for every backend
+export class ProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,188 @@
+import { SearchResult, SuggestionItem } from "../types";
+import { Translator } from "../i18n";
+import { DEFAULT_PERSONA, personaLabelKey } from "./personas";
+import { getTask, itemProgress, resultProgress } from "./checklist";
+import { fromDateKey } from "./deadlines";
+
+// Format-neutral description of the executive report. Exporters (PDF, ...) render this
+// instead of scraping the on-screen DOM.
+
+export type ReportSectionId = 'analysis' | 'details' | 'prompt' | 'references' | 'followUp';
+
+export interface ReportIssue {
+  anchor: string; // Stable link target, e.g. "issue-3"
+  number: number;
+  title: string;
+  description: string;
+  details?: {
+    analysis: string;
+    steps: string[]; // Annotated with checklist status, completion date and notes
+    risks: string;
+    progress?: string; // e.g. "3/5 steps resolved"; missing when nothing was tracked
+  };
+}
+
+export type ReportBlock =
+  | { kind: 'paragraph'; text: string; muted?: boolean }
+  | { kind: 'field'; label: string; value: string; mono?: boolean }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'issue'; issue: ReportIssue }
+  | { kind: 'message'; label: string; text: string; fromUser: boolean };
+
+export interface ReportSection {
+  id: ReportSectionId;
+  anchor: string;
+  numeral: string;
+  title: string; // Heading in the body
+  tocTitle: string; // Shorter label for the table of contents
+  blocks: ReportBlock[];
+}
+
+export interface ReportModel {
+  title: string;
+  subtitle: string;
+  fileName: string; // Without extension
+  meta: { label: string; value: string }[];
+  tocTitle: string;
+  sections: ReportSection[];
+  labels: {
+    analysisGuide: string;
+    actionableSteps: string;
+    risk: string;
+    waiting: string;
+  };
+  footer: string;
+  pageLabel: (page: number, total: number) => string;
+}
+
+const NUMERALS = ['I', 'II', 'III', 'IV', 'V'];
+
+const DEFAULT_BEST_MODEL = 'Gemini 1.5 Pro / Claude 3.5 Sonnet';
+
+export const buildReportModel = (result: SearchResult, t: Translator, locale: string): ReportModel => {
+  const persona = result.persona ?? DEFAULT_PERSONA;
+
+  const meta = [
+    { label: t('report.subject'), value: result.query },
+    { label: t('report.date'), value: new Date(result.timestamp).toLocaleDateString(locale) },
+    { label: t('report.persona'), value: t('report.personaLevel', { persona: t(personaLabelKey(persona)), level: persona.intensity }) },
+  ];
+  if (result.attachments && result.attachments.length > 0) {
+    meta.push({
+      label: t('report.attachments'),
+      value: result.attachments
+        .map(a => a.extract
+          ? t('report.fetchedAt', { name: a.name ?? '', date: new Date(a.extract.fetchedAt).toLocaleString(locale) })
+          : a.name ?? '')
+        .join(' · ')
+    });
+  }
+
+  // Untouched steps read as plain text, so reports of untracked analyses look as before
+  const stepText = (item: SuggestionItem, step: string, idx: number) => {
+    const task = getTask(item, idx);
+    const marks: string[] = [];
+    if (task.completedAt) {
+      marks.push(t('checklist.completedOn', { date: new Date(task.completedAt).toLocaleDateString(locale) }));
+    } else if (task.status !== 'todo') {
+      marks.push(t(`checklist.status.${task.status}`));
+    }
+    if (task.dueDate && !task.completedAt) {
+      marks.push(t('deadlines.dueOn', { date: fromDateKey(task.dueDate).toLocaleDateString(locale) }));
+    }
+    if (marks.length === 0 && !task.notes) return step;
+    return `${step}${marks.length ? ` [${marks.join(", ")}]` : ""}${task.notes ? ` — ${task.notes}` : ""}`;
+  };
+
+  const issues: ReportIssue[] = result.suggestions.map((s, idx) => {
+    const progress = itemProgress(s);
+    return {
+      anchor: `issue-${idx + 1}`,
+      number: idx + 1,
+      title: s.title,
+      description: s.description,
+      details: s.details && {
+        ...s.details,
+        steps: s.details.steps.map((step, i) => stepText(s, step, i)),
+        progress: s.tasks?.length ? t('checklist.progressCount', { resolved: progress.resolved, total: progress.total }) : undefined,
+      },
+    };
+  });
+  const overall = resultProgress(result);
+  if (overall.total > 0 && result.suggestions.some(s => s.tasks?.length)) {
+    meta.push({ label: t('checklist.analysisProgress'), value: t('checklist.progressCount', { resolved: overall.resolved, total: overall.total }) });
+  }
+
+  const sections: Omit<ReportSection, 'numeral'>[] = [
+    {
+      id: 'analysis',
+      anchor: 'section-analysis',
+      title: t('report.section.analysis'),
+      tocTitle: t('report.toc.analysis'),
+      blocks: [{ kind: 'paragraph', text: result.roastCommentary }],
+    },
+    {
+      id: 'details',
+      anchor: 'section-details',
+      title: t('report.section.details'),
+      tocTitle: t('report.toc.details'),
+      blocks: issues.map(issue => ({ kind: 'issue', issue })),
+    },
+    {
+      id: 'prompt',
+      anchor: 'section-prompt',
+      title: t('report.section.prompt'),
+      tocTitle: t('report.toc.prompt'),
+      blocks: [
+        { kind: 'field', label: t('report.recommendedModel'), value: result.bestModel || DEFAULT_BEST_MODEL },
+        { kind: 'field', label: t('report.optimizedPrompt'), value: result.promptSuggestion || t('report.promptPending'), mono: true },
+      ],
+    },
+    {
+      id: 'references',
+      anchor: 'section-references',
+      title: t('report.section.references'),
+      tocTitle: t('report.toc.references'),
+      blocks: result.sources && result.sources.length > 0
+        ? [{ kind: 'list', items: result.sources }]
+        : [{ kind: 'paragraph', text: t('report.generalKnowledge'), muted: true }],
+    },
+  ];
+
+  if (result.thread && result.thread.length > 0) {
+    sections.push({
+      id: 'followUp',
+      anchor: 'section-followUp',
+      title: t('report.section.followUp'),
+      tocTitle: t('report.toc.followUp'),
+      blocks: result.thread.map(msg => ({
+        kind: 'message',
+        label: msg.role === 'user' ? t('report.question') : t('report.answer'),
+        text: msg.content,
+        fromUser: msg.role === 'user',
+      })),
+    });
+  }
+
+  return {
+    title: t('report.title'),
+    subtitle: t('report.generatedBy'),
+    fileName: `report-${t('report.fileSlug')}-${result.timestamp}`,
+    meta,
+    tocTitle: t('report.toc'),
+    sections: sections.map((section, idx) => ({ ...section, numeral: NUMERALS[idx] })),
+    labels: {
+      analysisGuide: t('report.analysisGuide'),
+      actionableSteps: t('report.actionableSteps'),
+      risk: t('report.risk'),
+      waiting: t('report.waiting'),
+    },
+    footer: t('report.footer'),
+    pageLabel: (page, total) => t('common.page', { page, total }),
+  };
+};
+
+// Issues of the details section, for tables of contents
+export const reportIssues = (model: ReportModel): ReportIssue[] =>
+  model.sections.flatMap(section => section.blocks)
+    .flatMap(block => block.kind === 'issue' ? [block.issue] : []);
@@ -0,0 +1,351 @@
+import { publishLog } from "./logBus";
+
+// App-wide queue for AI provider calls. Every geminiService call goes through `schedule`, which
+// - spaces request starts to stay under the configured requests-per-minute (AI_RPM, 0 = unlimited)
+// - retries rate-limited calls with backoff, holding every other request during the cooldown
+// - runs interactive requests (user clicks) before background work (report auto-generation)
+// - lets a group of jobs be paused, resumed or cancelled, and single callers abort their wait
+// It lives outside React, so queued work and its progress survive page navigation.
+
+export type RequestPriority = 'interactive' | 'background';
+
+export interface ScheduleOptions {
+  label: string; // Shown in the queue status and logs
+  priority?: RequestPriority;
+  group?: string; // Jobs sharing a group can be paused/cancelled together
+  key?: string; // Jobs with the same key are deduplicated while pending or running
+  retryable?: (error: any) => boolean; // Extra veto on top of the rate-limit check
+  // Aborts this caller's wait. The request itself is aborted once no caller is waiting for it.
+  signal?: AbortSignal;
+}
+
+export interface GroupState {
+  total: number; // Jobs added since the group was last idle
+  done: number;
+  failed: number;
+  cancelled: number;
+  paused: boolean;
+  stopped: boolean; // Cancelled: new jobs are refused until the group is resumed
+}
+
+export interface SchedulerSnapshot {
+  rpm: number;
+  pending: number;
+  running: { id: number; label: string }[];
+  cooldownUntil: number | null; // Next start is held until this time
+  rateLimited: boolean; // The cooldown comes from a 429, not from normal spacing
+  groups: Record<string, GroupState>;
+}
+
+// Thrown to callers whose job was cancelled or aborted before (or while) it ran
+export class RequestCancelledError extends Error {
+  constructor(label: string) {
+    super(`Request cancelled: ${label}`);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// Deep dives queued by the report page
+export const DETAIL_QUEUE_GROUP = 'report-details';
+
+const DEFAULT_RPM = 15; // Gemini free tier
+const MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 12000; // 12s, 14s, 16s
+const BACKOFF_STEP_MS = 2000;
+const MAX_CONCURRENT = 3;
+const MAX_CONCURRENT_BACKGROUND = 1; // Leaves room for interactive requests
+
+interface Job {
+  id: number;
+  label: string;
+  priority: RequestPriority;
+  group?: string;
+  key?: string;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  retryable?: (error: any) => boolean;
+  attempts: number;
+  notBefore: number;
+  cancelled: boolean;
+  controller: AbortController;
+  waiters: number; // Callers still waiting; callers without a signal never stop waiting
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const readRpm = (): number => {
+  const value = Number(process.env.AI_RPM);
+  return process.env.AI_RPM && Number.isFinite(value) && value >= 0 ? value : DEFAULT_RPM;
+};
+
+let rpm = readRpm();
+let nextId = 1;
+let lastStart = 0;
+let cooldownUntil = 0;
+let rateLimited = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+const queue: Job[] = [];
+const running: Job[] = [];
+const groups: Record<string, GroupState> = {};
+const listeners = new Set<() => void>();
+
+const buildSnapshot = (): SchedulerSnapshot => ({
+  rpm,
+  pending: queue.length,
+  running: running.map(j => ({ id: j.id, label: j.label })),
+  cooldownUntil: timer ? Math.max(cooldownUntil, lastStart + spacing()) : null,
+  rateLimited: rateLimited && cooldownUntil > Date.now(),
+  groups: Object.fromEntries(Object.entries(groups).map(([name, state]) => [name, { ...state }])),
+});
+
+let snapshot: SchedulerSnapshot = buildSnapshot();
+
+const emit = () => {
+  snapshot = buildSnapshot();
+  listeners.forEach(listener => listener());
+};
+
+const spacing = () => (rpm > 0 ? 60000 / rpm : 0);
+
+export const isRateLimitError = (error: any): boolean =>
+  error?.status === 429 || error?.status === 503 ||
+  /429|quota|RESOURCE_EXHAUSTED|rate limit/i.test(error?.message || "");
+
+const groupState = (name: string): GroupState =>
+  groups[name] ??= { total: 0, done: 0, failed: 0, cancelled: 0, paused: false, stopped: false };
+
+const isGroupActive = (name: string) =>
+  queue.some(j => j.group === name) || running.some(j => j.group === name);
+
+const finishGroupJob = (job: Job, outcome: 'done' | 'failed' | 'cancelled') => {
+  if (!job.group) return;
+  const state = groupState(job.group);
+  state[outcome]++;
+  if (!isGroupActive(job.group)) {
+    publishLog({
+      type: 'system',
+      message: `Queue "${job.group}" finished`,
+      details: `${state.done} done, ${state.failed} failed, ${state.cancelled} cancelled of ${state.total}`,
+    });
+  }
+};
+
+// Pausing a group only holds its background work; a user waiting on one of its jobs still gets it
+const nextRunnable = (): Job | undefined => {
+  const runnable = queue.filter(j => j.priority === 'interactive' || !(j.group && groups[j.group]?.paused));
+  const backgroundRunning = running.filter(j => j.priority === 'background').length;
+  return runnable.find(j => j.priority === 'interactive')
+    ?? (backgroundRunning < MAX_CONCURRENT_BACKGROUND ? runnable.find(j => j.priority === 'background') : undefined);
+};
+
+const start = (job: Job) => {
+  queue.splice(queue.indexOf(job), 1);
+  running.push(job);
+  lastStart = Date.now();
+  job.attempts++;
+
+  job.run(job.controller.signal).then(
+    (value) => {
+      running.splice(running.indexOf(job), 1);
+      if (job.cancelled) {
+        finishGroupJob(job, 'cancelled');
+        job.reject(new RequestCancelledError(job.label));
+      } else {
+        finishGroupJob(job, 'done');
+        job.resolve(value);
+      }
+      emit();
+      pump();
+    },
+    (error) => {
+      running.splice(running.indexOf(job), 1);
+      const retry = !job.cancelled && job.attempts <= MAX_RETRIES &&
+        isRateLimitError(error) && (job.retryable?.(error) ?? true);
+
+      if (retry) {
+        const wait = BACKOFF_BASE_MS + BACKOFF_STEP_MS * (job.attempts - 1);
+        // The quota is shared, so everything waits, not just this job
+        cooldownUntil = Date.now() + wait;
+        rateLimited = true;
+        job.notBefore = cooldownUntil;
+        queue.unshift(job);
+        publishLog({
+          type: 'warning',
+          message: `Rate limit hit for "${job.label}". Retrying in ${wait / 1000}s (${job.attempts}/${MAX_RETRIES})`,
+          details: error?.message,
+        });
+      } else if (job.cancelled) {
+        finishGroupJob(job, 'cancelled');
+        job.reject(new RequestCancelledError(job.label));
+      } else {
+        finishGroupJob(job, 'failed');
+        job.reject(error);
+      }
+      emit();
+      pump();
+    }
+  );
+};
+
+// Drops a pending job, or aborts the request of a running one (it settles through `start`)
+const abortJob = (job: Job) => {
+  job.cancelled = true;
+  job.controller.abort();
+
+  const idx = queue.indexOf(job);
+  if (idx >= 0) {
+    queue.splice(idx, 1);
+    finishGroupJob(job, 'cancelled');
+    job.reject(new RequestCancelledError(job.label));
+  }
+};
+
+// The promise one caller sees: rejects as soon as that caller's signal aborts
+const waitFor = <T>(job: Job, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return job.promise as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(new RequestCancelledError(job.label));
+      if (--job.waiters === 0 && !job.cancelled) {
+        abortJob(job);
+        pump();
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    job.promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value as T);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+// Starts every job that may start now and arms a timer for the next one
+const pump = () => {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  while (running.length < MAX_CONCURRENT) {
+    const job = nextRunnable();
+    if (!job) break;
+
+    const readyAt = Math.max(lastStart + spacing(), cooldownUntil, job.notBefore);
+    const wait = readyAt - Date.now();
+    if (wait > 0) {
+      timer = setTimeout(() => {
+        timer = null;
+        pump();
+      }, wait);
+      break;
+    }
+    if (cooldownUntil <= Date.now()) rateLimited = false;
+    start(job);
+  }
+  emit();
+};
+
+export const schedule = <T>(run: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions): Promise<T> => {
+  const priority = options.priority ?? 'interactive';
+  if (options.signal?.aborted) return Promise.reject(new RequestCancelledError(options.label));
+
+  if (options.key) {
+    const existing = queue.find(j => j.key === options.key) ?? running.find(j => j.key === options.key);
+    if (existing && !existing.cancelled) {
+      // Someone is now waiting on this interactively: move it ahead of background work
+      if (priority === 'interactive' && existing.priority === 'background') {
+        existing.priority = 'interactive';
+        pump();
+      }
+      existing.waiters++;
+      return waitFor<T>(existing, options.signal);
+    }
+  }
+
+  if (options.group) {
+    const state = groupState(options.group);
+    if (state.stopped) return Promise.reject(new RequestCancelledError(options.label));
+    if (!isGroupActive(options.group)) {
+      groups[options.group] = { ...state, total: 0, done: 0, failed: 0, cancelled: 0 };
+    }
+    groups[options.group].total++;
+  }
+
+  let resolve!: (value: unknown) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<unknown>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  const job: Job = {
+    id: nextId++,
+    label: options.label,
+    priority,
+    group: options.group,
+    key: options.key,
+    run,
+    retryable: options.retryable,
+    attempts: 0,
+    notBefore: 0,
+    cancelled: false,
+    controller: new AbortController(),
+    waiters: 1,
+    promise,
+    resolve,
+    reject,
+  };
+  queue.push(job);
+  pump();
+  return waitFor<T>(job, options.signal);
+};
+
+export const pauseGroup = (group: string) => {
+  groupState(group).paused = true;
+  publishLog({ type: 'system', message: `Queue "${group}" paused` });
+  pump();
+};
+
+// Also lifts a cancellation, so the group accepts new jobs again
+export const resumeGroup = (group: string) => {
+  const state = groupState(group);
+  state.paused = false;
+  state.stopped = false;
+  publishLog({ type: 'system', message: `Queue "${group}" resumed` });
+  pump();
+};
+
+// Drops pending jobs of the group and aborts running ones
+export const cancelGroup = (group: string) => {
+  const state = groupState(group);
+  state.stopped = true;
+  state.paused = false;
+
+  [...queue, ...running].filter(j => j.group === group && !j.cancelled).forEach(abortJob);
+
+  publishLog({ type: 'cancel', message: `Queue "${group}" cancelled` });
+  pump();
+};
+
+export const isQueued = (key: string) =>
+  queue.some(j => j.key === key && !j.cancelled) || running.some(j => j.key === key && !j.cancelled);
+
+export const configureScheduler = (options: { rpm?: number }) => {
+  if (options.rpm !== undefined && options.rpm >= 0) rpm = options.rpm;
+  pump();
+};
+
+// For useSyncExternalStore
+export const subscribeScheduler = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getSchedulerSnapshot = (): SchedulerSnapshot => snapshot;
@@ -0,0 +1,306 @@
+import { GeminiDeadlineSchema, GeminiDetailSchema, GeminiFollowUpSchema, GeminiResponseSchema, GeminiSuggestionSchema } from "../types";
+import { JsonSchema } from "./providers/types";
+import { issueSchema, detailSchema, followUpSchema, deadlineSchema, suggestionSchema } from "./providers/schemas";
+import { parsePartialJson } from "./partialJson";
+import { publishLog } from "./logBus";
+
+// Runtime checks for model output. Providers are asked for JSON matching providers/schemas, but replies
+// still get cut off, wrapped in code fences, or come back with a bullet string where a list belongs.
+// Validation coerces what it can against the same schemas and records every defect it finds.
+
+export type ResponseKind = 'issue' | 'detail' | 'followup' | 'deadlines' | 'regenerate';
+
+export interface ValidationIssue {
+  path: string; // "$" for the whole document, else e.g. "suggestions[3].title"
+  problem: string;
+  repaired: boolean; // false: the value was dropped or is still missing
+}
+
+export interface ValidationResult<T> {
+  value: T | null; // null when the response is unusable
+  issues: ValidationIssue[];
+}
+
+export class ResponseValidationError extends Error {
+  kind: ResponseKind;
+  issues: ValidationIssue[];
+
+  constructor(kind: ResponseKind, issues: ValidationIssue[]) {
+    const unresolved = issues.filter(i => !i.repaired).map(i => `${i.path}: ${i.problem}`);
+    super(`Invalid ${kind} response (${unresolved.join("; ") || "unusable"})`);
+    this.name = 'ResponseValidationError';
+    this.kind = kind;
+    this.issues = issues;
+  }
+}
+
+// The issue prompt asks for this many suggestions per call
+export const EXPECTED_SUGGESTIONS = 10;
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "a list" : `a ${typeof value}`;
+
+// "1. Foo\n2. Bar" or "- Foo; - Bar" -> ["Foo", "Bar"]
+const splitList = (text: string): string[] =>
+  text
+    .split(/\n+|;\s+/)
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean);
+
+// Returns undefined when the value cannot be made to fit; the caller records that
+const coerce = (value: unknown, schema: JsonSchema, path: string, issues: ValidationIssue[]): unknown => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        issues.push({ path, problem: `expected a string, got ${describe(value)}`, repaired: true });
+        return String(value);
+      }
+      if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+        issues.push({ path, problem: "expected a string, got a list", repaired: true });
+        return value.join("\n");
+      }
+      return undefined;
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return undefined;
+      if (number !== value) issues.push({ path, problem: "expected a number, got a string", repaired: true });
+      return schema.type === 'integer' ? Math.round(number) : number;
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        issues.push({ path, problem: "expected a boolean, got a string", repaired: true });
+        return value === 'true';
+      }
+      return undefined;
+
+    case 'array': {
+      let items: unknown[];
+      if (Array.isArray(value)) {
+        items = value;
+      } else if (typeof value === 'string' && schema.items?.type === 'string') {
+        issues.push({ path, problem: "expected a list, got a string", repaired: true });
+        items = splitList(value);
+      } else if (value && typeof value === 'object' && schema.items?.type === 'object') {
+        issues.push({ path, problem: "expected a list, got a single item", repaired: true });
+        items = [value];
+      } else {
+        return undefined;
+      }
+      if (!schema.items) return items;
+
+      const out: unknown[] = [];
+      items.forEach((item, idx) => {
+        const itemPath = `${path}[${idx}]`;
+        const coerced = coerce(item, schema.items!, itemPath, issues);
+        if (coerced === undefined) {
+          issues.push({ path: itemPath, problem: `invalid item (${describe(item)}) dropped`, repaired: false });
+        } else {
+          out.push(coerced);
+        }
+      });
+      return out;
+    }
+
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+      const out: Record<string, unknown> = {};
+      for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+        const propPath = path ? `${path}.${key}` : key;
+        const raw = (value as Record<string, unknown>)[key];
+        if (raw === undefined || raw === null) continue;
+
+        const coerced = coerce(raw, propSchema, propPath, issues);
+        if (coerced === undefined) {
+          issues.push({ path: propPath, problem: `expected ${propSchema.type}, got ${describe(raw)}`, repaired: false });
+        } else {
+          out[key] = coerced;
+        }
+      }
+      // Nested objects (list items) are only usable with every required property
+      if (path && schema.required?.some(key => out[key] === undefined || out[key] === "")) return undefined;
+      return out;
+    }
+  }
+};
+
+// Required top-level fields that can be left blank rather than failing the whole response
+const fillDefaults = (value: Record<string, unknown>, defaults: Record<string, unknown>, issues: ValidationIssue[]) => {
+  for (const [key, fallback] of Object.entries(defaults)) {
+    if (value[key] !== undefined) continue;
+    issues.push({ path: key, problem: "missing, left empty", repaired: true });
+    value[key] = fallback;
+  }
+};
+
+const stripFences = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+// JSON.parse first; then the repairs for fenced, prefixed or truncated documents
+const parseDocument = (text: string, issues: ValidationIssue[]): unknown => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    issues.push({ path: "$", problem: "empty response", repaired: false });
+    return undefined;
+  }
+
+  const body = stripFences(trimmed);
+  if (body !== trimmed) issues.push({ path: "$", problem: "wrapped in a code fence", repaired: true });
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    // Repaired below
+  }
+
+  const start = body.indexOf("{");
+  if (start >= 0) {
+    if (start > 0) issues.push({ path: "$", problem: "text before the JSON document", repaired: true });
+    try {
+      return JSON.parse(body.slice(start));
+    } catch {
+      // Repaired below
+    }
+    try {
+      const partial = parsePartialJson(body.slice(start));
+      if (partial.value && typeof partial.value === 'object') {
+        issues.push({
+          path: "$",
+          problem: partial.complete ? "text after the JSON document" : "truncated JSON document",
+          repaired: true,
+        });
+        return partial.value;
+      }
+    } catch {
+      // Malformed beyond a missing ending
+    }
+  }
+
+  issues.push({ path: "$", problem: "not valid JSON", repaired: false });
+  return undefined;
+};
+
+const validateRoot = (raw: unknown, schema: JsonSchema, issues: ValidationIssue[]): Record<string, unknown> | null => {
+  const value = coerce(raw, schema, "", issues);
+  if (value === undefined) {
+    if (raw !== undefined) issues.push({ path: "$", problem: `expected an object, got ${describe(raw)}`, repaired: false });
+    return null;
+  }
+  return value as Record<string, unknown>;
+};
+
+export const validateIssueValue = (raw: unknown, issues: ValidationIssue[] = []): ValidationResult<GeminiResponseSchema> => {
+  const value = validateRoot(raw, issueSchema, issues);
+  if (!value) return { value: null, issues };
+
+  fillDefaults(value, { suggestions: [], roast: "", sources: [], promptSuggestion: "", bestModel: "" }, issues);
+  const response = value as unknown as GeminiResponseSchema;
+
+  if (response.suggestions.length === 0) {
+    issues.push({ path: "suggestions", problem: "no usable suggestions", repaired: false });
+    return { value: null, issues };
+  }
+  if (response.suggestions.length > EXPECTED_SUGGESTIONS) {
+    issues.push({ path: "suggestions", problem: `${response.suggestions.length} items, kept the first ${EXPECTED_SUGGESTIONS}`, repaired: true });
+    response.suggestions = response.suggestions.slice(0, EXPECTED_SUGGESTIONS);
+  }
+  if (response.suggestions.length < EXPECTED_SUGGESTIONS) {
+    // Usable as is; the caller decides whether to ask for the rest
+    issues.push({ path: "suggestions", problem: `only ${response.suggestions.length} of ${EXPECTED_SUGGESTIONS} items`, repaired: false });
+  }
+  return { value: response, issues };
+};
+
+export const validateDetailValue = (raw: unknown, issues: ValidationIssue[] = []): ValidationResult<GeminiDetailSchema> => {
+  const value = validateRoot(raw, detailSchema, issues);
+  if (!value) return { value: null, issues };
+
+  fillDefaults(value, { analysis: "", steps: [], risks: "" }, issues);
+  const detail = value as unknown as GeminiDetailSchema;
+  if (!detail.analysis.trim() && detail.steps.length === 0) {
+    issues.push({ path: "$", problem: "neither an analysis nor steps", repaired: false });
+    return { value: null, issues };
+  }
+  return { value: detail, issues };
+};
+
+export const validateIssueResponse = (text: string): ValidationResult<GeminiResponseSchema> => {
+  const issues: ValidationIssue[] = [];
+  return validateIssueValue(parseDocument(text, issues), issues);
+};
+
+export const validateDetailResponse = (text: string): ValidationResult<GeminiDetailSchema> => {
+  const issues: ValidationIssue[] = [];
+  return validateDetailValue(parseDocument(text, issues), issues);
+};
+
+export const validateFollowUpResponse = (text: string): ValidationResult<GeminiFollowUpSchema> => {
+  const issues: ValidationIssue[] = [];
+  const raw = parseDocument(text, issues);
+
+  // Chat answers often come back as plain prose; that is still a usable answer
+  if (raw === undefined && text.trim()) {
+    return { value: { answer: text.trim() }, issues: [{ path: "$", problem: "plain text instead of JSON", repaired: true }] };
+  }
+
+  const value = validateRoot(raw, followUpSchema, issues);
+  const answer = typeof value?.answer === 'string' ? value.answer.trim() : "";
+  if (!answer) {
+    issues.push({ path: "answer", problem: "missing", repaired: false });
+    return { value: null, issues };
+  }
+  return { value: { answer }, issues };
+};
+
+export const validateSuggestionResponse = (text: string): ValidationResult<GeminiSuggestionSchema> => {
+  const issues: ValidationIssue[] = [];
+  let raw = parseDocument(text, issues);
+  // Models used to the main schema answer with a one-item list
+  if (raw && typeof raw === 'object' && Array.isArray((raw as { suggestions?: unknown }).suggestions)) {
+    issues.push({ path: "$", problem: "a suggestions list instead of one suggestion", repaired: true });
+    raw = (raw as { suggestions: unknown[] }).suggestions[0];
+  }
+
+  const value = validateRoot(raw, suggestionSchema, issues);
+  if (!value) return { value: null, issues };
+  fillDefaults(value, { description: "" }, issues);
+  const suggestion = value as unknown as GeminiSuggestionSchema;
+  if (!suggestion.title?.trim()) {
+    issues.push({ path: "title", problem: "missing", repaired: false });
+    return { value: null, issues };
+  }
+  return { value: suggestion, issues };
+};
+
+// `stepCount` bounds the step numbers; entries pointing outside the deep dive are dropped
+export const validateDeadlineResponse = (text: string, stepCount: number): ValidationResult<GeminiDeadlineSchema> => {
+  const issues: ValidationIssue[] = [];
+  const value = validateRoot(parseDocument(text, issues), deadlineSchema, issues);
+  if (!value) return { value: null, issues };
+
+  fillDefaults(value, { deadlines: [] }, issues);
+  const response = value as unknown as GeminiDeadlineSchema;
+  const seen = new Set<number>();
+  response.deadlines = response.deadlines.filter((entry, idx) => {
+    const valid = entry.step >= 1 && entry.step <= stepCount && entry.daysFromNow >= 0 && !seen.has(entry.step);
+    if (!valid) issues.push({ path: `deadlines[${idx}]`, problem: `step ${entry.step} in ${entry.daysFromNow} days is out of range or repeated`, repaired: false });
+    seen.add(entry.step);
+    return valid;
+  });
+  return { value: response, issues };
+};
+
+export type ValidationOutcome = 'repaired' | 'retrying' | 'failed';
+
+// One structured log entry per validation that found something
+export const logValidation = (kind: ResponseKind, subject: string, outcome: ValidationOutcome, issues: ValidationIssue[]) => {
+  publishLog({
+    type: outcome === 'failed' ? 'error' : 'warning',
+    message: `Response validation (${kind}): ${outcome}`,
+    details: JSON.stringify({ kind, subject, outcome, issues }, null, 2),
+  });
+};
@@ -0,0 +1,90 @@
+import { PageView } from "../types";
+
+// Hash-based routes, so deep links work on any static host without server rewrites:
+//   #/home[/<resultId>[/item/<itemId>]]   the debugger, optionally with an analysis and an open deep dive
+//   #/report[/<resultId>]                 the executive report
+//   #/compare/<resultId>/<resultId>
+//   #/shared/<payload>                    a read-only analysis carried in the link (services/shareLink)
+//   #/history  #/docs  #/logs
+// Ids are resolved against the persisted history by App.
+
+export interface Route {
+  page: PageView;
+  resultId?: string;
+  itemId?: string; // Home only: opens the deep-dive modal of this suggestion
+  compareIds?: [string, string];
+  sharePayload?: string;
+}
+
+type RouteListener = (route: Route) => void;
+
+const listeners = new Set<RouteListener>();
+
+// A mistyped or truncated link (e.g. a bad "%" escape) opens the debugger instead of throwing
+export const parseRoute = (hash: string): Route => {
+  let segments: string[];
+  try {
+    segments = hash.replace(/^#\/?/, "").split("/").filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return { page: 'home' };
+  }
+  const [page, ...rest] = segments;
+  switch (page) {
+    case 'home':
+      return { page: 'home', resultId: rest[0], itemId: rest[1] === 'item' ? rest[2] : undefined };
+    case 'report':
+      return { page: 'report', resultId: rest[0] };
+    case 'compare':
+      return { page: 'compare', compareIds: rest.length >= 2 ? [rest[0], rest[1]] : undefined };
+    case 'shared':
+      return { page: 'shared', sharePayload: rest[0] };
+    case 'history':
+    case 'docs':
+    case 'logs':
+      return { page };
+    default:
+      return { page: 'home' };
+  }
+};
+
+export const formatRoute = (route: Route): string => {
+  const parts: string[] = [route.page];
+  if (route.page === 'compare' && route.compareIds) {
+    parts.push(...route.compareIds);
+  } else if (route.page === 'shared' && route.sharePayload) {
+    parts.push(route.sharePayload);
+  } else if ((route.page === 'home' || route.page === 'report') && route.resultId) {
+    parts.push(route.resultId);
+    if (route.page === 'home' && route.itemId) parts.push('item', route.itemId);
+  }
+  return `#/${parts.map(encodeURIComponent).join("/")}`;
+};
+
+export const currentRoute = (): Route => parseRoute(window.location.hash);
+
+const emit = () => {
+  const route = currentRoute();
+  listeners.forEach(listener => listener(route));
+};
+
+// `replace` rewrites the current history entry instead of adding one (e.g. when a new analysis gets its id)
+export const navigate = (route: Route, options: { replace?: boolean } = {}) => {
+  const hash = formatRoute(route);
+  if (hash === window.location.hash) return;
+  if (options.replace) {
+    window.history.replaceState(window.history.state, "", hash);
+    emit(); // replaceState does not fire hashchange
+  } else {
+    window.location.hash = hash; // Listeners run on hashchange
+  }
+};
+
+// Back/forward and manual edits of the address bar
+export const subscribeRoute = (listener: RouteListener): (() => void) => {
+  if (listeners.size === 0) window.addEventListener('hashchange', emit);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('hashchange', emit);
+  };
+};
@@ -0,0 +1,125 @@
+import { SearchResult } from "../types";
+import { InvalidResultError, RESULT_SCHEMA_VERSION, normalizeExternalResult } from "./storageService";
+import { formatRoute } from "./router";
+
+// Share links carry a whole analysis in the URL fragment, so nothing is uploaded anywhere:
+//   #/shared/<codec><base64url payload>
+// The payload is `SharePayload` as JSON, deflate-raw compressed where the browser supports
+// CompressionStream ('z'), else stored as is ('j'). Fragments never reach the server.
+
+const SHARE_VERSION = 1;
+const CODEC_DEFLATE = "z";
+const CODEC_JSON = "j";
+
+// Chat apps and mail clients start truncating or refusing links well before browsers do
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+interface SharePayload {
+  v: number;
+  schemaVersion: number; // RESULT_SCHEMA_VERSION of `result`
+  result: SearchResult;
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+// Thrown by createShareLink; `length` is the URL that would have been produced
+export class ShareLinkTooLargeError extends ShareLinkError {
+  length: number;
+
+  constructor(length: number) {
+    super(`Share link too long (${length} characters, limit ${MAX_SHARE_URL_LENGTH})`);
+    this.name = 'ShareLinkTooLargeError';
+    this.length = length;
+  }
+}
+
+// Personal bookkeeping (including dismissed cards) stays behind; the page text of link attachments
+// is dropped for size
+export const toShareable = ({ usage, tags, starred, dismissed, ...result }: SearchResult): SearchResult => ({
+  ...result,
+  attachments: result.attachments?.map(({ extract, ...attachment }) => attachment),
+});
+
+// A shared copy replacing the local analysis it came from: what links leave out is kept from the local one
+export const applySharedUpdate = (local: SearchResult, shared: SearchResult): SearchResult => ({
+  ...shared,
+  usage: local.usage,
+  tags: local.tags,
+  starred: local.starred,
+  dismissed: local.dismissed,
+  attachments: shared.attachments?.map(attachment => ({
+    ...attachment,
+    extract: local.attachments?.find(a => a.id === attachment.id)?.extract,
+  })),
+});
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const canCompress = () => typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+export const encodeSharePayload = async (result: SearchResult): Promise<string> => {
+  const payload: SharePayload = { v: SHARE_VERSION, schemaVersion: RESULT_SCHEMA_VERSION, result: toShareable(result) };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  if (!canCompress()) return CODEC_JSON + toBase64Url(json);
+  return CODEC_DEFLATE + toBase64Url(await pipeThrough(json, new CompressionStream("deflate-raw")));
+};
+
+export const decodeSharePayload = async (encoded: string): Promise<SearchResult> => {
+  const codec = encoded.charAt(0);
+  let payload: SharePayload;
+  try {
+    let bytes = fromBase64Url(encoded.slice(1));
+    if (codec === CODEC_DEFLATE) {
+      if (!canCompress()) throw new ShareLinkError("This browser cannot decompress share links");
+      bytes = await pipeThrough(bytes, new DecompressionStream("deflate-raw"));
+    } else if (codec !== CODEC_JSON) {
+      throw new ShareLinkError(`Unknown share link encoding "${codec}"`);
+    }
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error: any) {
+    if (error instanceof ShareLinkError) throw error;
+    throw new ShareLinkError(`Share link is damaged or incomplete: ${error?.message}`);
+  }
+
+  if (payload?.v !== SHARE_VERSION || !payload.result || typeof payload.result.id !== "string") {
+    throw new ShareLinkError("Share link is not a LifeDebugger analysis");
+  }
+  if (payload.schemaVersion > RESULT_SCHEMA_VERSION) {
+    throw new ShareLinkError("Share link was created by a newer version of the app");
+  }
+  // The claimed schema version is not trusted: a hand-made link could skip the migrations' checks
+  try {
+    return normalizeExternalResult(payload.result, payload.schemaVersion);
+  } catch (error) {
+    if (error instanceof InvalidResultError) throw new ShareLinkError("Share link is not a LifeDebugger analysis");
+    throw error;
+  }
+};
+
+// Absolute URL of the shared view for this analysis
+export const createShareLink = async (result: SearchResult): Promise<string> => {
+  const base = `${window.location.origin}${window.location.pathname}${window.location.search}`;
+  const url = base + formatRoute({ page: 'shared', sharePayload: await encodeSharePayload(result) });
+  if (url.length > MAX_SHARE_URL_LENGTH) throw new ShareLinkTooLargeError(url.length);
+  return url;
+};
@@ -0,0 +1,43 @@
+// Text similarity for matching suggestions across analyses
+
+// Lowercase without diacritics, so "cafe" finds "Café" and "ngu" finds "ngủ"
+export const normalizeText = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/gi, "d").toLowerCase();
+
+// Words of the normalized text, punctuation dropped
+export const tokenize = (text: string): string[] =>
+  normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Character trigrams of each word, padded so short words still produce grams
+const trigrams = (text: string): Map<string, number> => {
+  const grams = new Map<string, number>();
+  for (const word of tokenize(text)) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const gram = padded.slice(i, i + 3);
+      grams.set(gram, (grams.get(gram) ?? 0) + 1);
+    }
+  }
+  return grams;
+};
+
+// Dice coefficient over character trigrams: 1 for the same words, 0 for nothing in common.
+// Trigrams rather than whole words tolerate inflections, typos and reordered phrases.
+export const textSimilarity = (a: string, b: string): number => {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  let size = 0;
+  let shared = 0;
+  left.forEach((count, gram) => {
+    size += count;
+    shared += Math.min(count, right.get(gram) ?? 0);
+  });
+  right.forEach(count => { size += count; });
+  return size === 0 ? (normalizeText(a).trim() === normalizeText(b).trim() ? 1 : 0) : (2 * shared) / size;
+};
+
+// Titles carry most of the meaning; descriptions break ties between similar titles
+export const itemSimilarity = (
+  a: { title: string; description: string },
+  b: { title: string; description: string }
+): number => 0.7 * textSimilarity(a.title, b.title) + 0.3 * textSimilarity(a.description, b.description);
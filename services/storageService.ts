@@ -0,0 +1,289 @@
+import { Language, LogEntry, ModelPrice, SearchResult, UsageRecord } from "../types";
+import { validateDetailValue } from "./responseValidation";
+import { PERSONA_IDS, PERSONA_INTENSITIES } from "./personas";
+import { TASK_STATUSES } from "./checklist";
+
+// IndexedDB layout. Bump DB_VERSION only when stores/indexes change (see openDb upgrade switch).
+const DB_NAME = "lifedebugger";
+const DB_VERSION = 2;
+
+const HISTORY_STORE = "history";
+const LOGS_STORE = "logs";
+const META_STORE = "meta";
+const USAGE_STORE = "usage";
+
+// Shape version of the SearchResult objects written to the history store.
+// When SearchResult changes, bump this and register a migration in `resultMigrations`.
+export const RESULT_SCHEMA_VERSION = 2;
+
+interface StoredResult {
+  id: string;
+  schemaVersion: number;
+  savedAt: number;
+  result: SearchResult;
+}
+
+export interface PersistedState {
+  history: SearchResult[];
+  logs: LogEntry[];
+  currentResultId: string | null;
+  language: Language | null;
+  usage: UsageRecord[];
+  modelPrices: ModelPrice[] | null; // null: never edited, use the defaults
+}
+
+// Each migration upgrades a raw result from version N to N + 1.
+// Version 0 covers anything written before versioning existed (or imported from elsewhere).
+const resultMigrations: Record<number, (raw: any) => any> = {
+  0: (raw) => ({
+    ...raw,
+    timestamp: typeof raw.timestamp === "number" ? raw.timestamp : Date.now(),
+    suggestions: Array.isArray(raw.suggestions) ? raw.suggestions : [],
+    roastCommentary: raw.roastCommentary ?? raw.roast ?? "",
+    sources: Array.isArray(raw.sources) ? raw.sources : [],
+  }),
+  // Deep dives saved before responses were validated may lack `steps` or hold a string there
+  1: (raw) => ({
+    ...raw,
+    suggestions: raw.suggestions.map((s: any) => ({
+      ...s,
+      details: s.details ? validateDetailValue(s.details).value ?? undefined : undefined,
+    })),
+  }),
+};
+
+export const migrateResult = (raw: any, fromVersion: number = 0): SearchResult => {
+  let data = raw;
+  for (let v = fromVersion; v < RESULT_SCHEMA_VERSION; v++) {
+    const migrate = resultMigrations[v];
+    if (migrate) data = migrate(data);
+  }
+  return data as SearchResult;
+};
+
+// Results from outside this browser (share links, bundles) are untrusted
+export class InvalidResultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidResultError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+// First problem with `item` that would break rendering, or null
+const itemProblem = (item: unknown, path: string): string | null => {
+  if (!isObject(item)) return `${path} is not an object`;
+  if (!isString(item.id) || !isString(item.title)) return `${path} has no id or title`;
+  if (item.description !== undefined && !isString(item.description)) return `${path}.description is not text`;
+  if (item.tasks !== undefined && !(Array.isArray(item.tasks) && item.tasks.every((task: unknown) =>
+    isObject(task) && typeof task.step === "number" && TASK_STATUSES.includes(task.status)))) {
+    return `${path}.tasks is not a list of tasks`;
+  }
+  if (item.merged !== undefined && !(Array.isArray(item.merged) && item.merged.every((m: unknown) => isObject(m) && isString(m.title)))) {
+    return `${path}.merged is not a list of suggestions`;
+  }
+  return null;
+};
+
+const resultProblem = (result: Record<string, any>): string | null => {
+  if (!isString(result.roastCommentary)) return "roastCommentary is not text";
+  if (!isStringList(result.sources)) return "sources is not a list of text";
+  for (const [key, list] of [["suggestions", result.suggestions], ["dismissed", result.dismissed ?? []]] as const) {
+    if (!Array.isArray(list)) return `${key} is not a list`;
+    for (let i = 0; i < list.length; i++) {
+      const problem = itemProblem(list[i], `${key}[${i}]`);
+      if (problem) return problem;
+    }
+  }
+  for (const key of ["promptSuggestion", "bestModel"]) {
+    if (result[key] !== undefined && !isString(result[key])) return `${key} is not text`;
+  }
+  for (const key of ["tags", "mergedSources"]) {
+    if (result[key] !== undefined && !isStringList(result[key])) return `${key} is not a list of text`;
+  }
+  if (result.thread !== undefined && !(Array.isArray(result.thread) && result.thread.every((m: unknown) =>
+    isObject(m) && isString(m.id) && (m.role === "user" || m.role === "assistant") && isString(m.content)))) {
+    return "thread is not a list of messages";
+  }
+  if (result.attachments !== undefined && !(Array.isArray(result.attachments) && result.attachments.every((a: unknown) =>
+    isObject(a) && isString(a.id) && (a.type === "file" || a.type === "link")))) {
+    return "attachments is not a list of attachments";
+  }
+  if (result.usage !== undefined && !(Array.isArray(result.usage) && result.usage.every(isObject))) return "usage is not a list";
+  if (result.persona !== undefined && !(isObject(result.persona) && PERSONA_IDS.includes(result.persona.id)
+    && PERSONA_INTENSITIES.includes(result.persona.intensity))) {
+    return "persona is not a known voice";
+  }
+  return null;
+};
+
+// Whatever schema version an outside result claims, the version 0 defaults and the deep-dive checks of
+// version 1 run again, then the shape is verified. Throws InvalidResultError naming the first problem.
+export const normalizeExternalResult = (raw: unknown, fromVersion: number): SearchResult => {
+  if (!isObject(raw) || !isString(raw.id) || !isString(raw.query)) throw new InvalidResultError("missing an id or query");
+  // The defaults fill in missing lists; a list of the wrong type is a bad result, not an empty one
+  for (const key of ["suggestions", "sources"]) {
+    if (raw[key] !== undefined && !Array.isArray(raw[key])) throw new InvalidResultError(`${key} is not a list`);
+  }
+  const data = resultMigrations[0](migrateResult(raw, fromVersion));
+  const problem = resultProblem(data);
+  if (problem) throw new InvalidResultError(problem);
+
+  const withDescription = (item: any) => ({ ...item, description: item.description ?? "" });
+  const normalized = resultMigrations[1]({ ...data, suggestions: data.suggestions.map(withDescription) });
+  if (data.dismissed) {
+    normalized.dismissed = resultMigrations[1]({ suggestions: data.dismissed.map(withDescription) }).suggestions;
+  }
+  return normalized as SearchResult;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      // Fall-through on purpose: every step from oldVersion up to DB_VERSION is applied.
+      switch (event.oldVersion) {
+        case 0:
+          db.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+          db.createObjectStore(LOGS_STORE, { keyPath: "id" });
+          db.createObjectStore(META_STORE);
+        case 1:
+          // Usage ledger, kept apart from history so deleting an analysis does not erase its cost
+          db.createObjectStore(USAGE_STORE, { keyPath: "id" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later retry if opening failed (e.g. blocked by another tab)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  return promisify(run(tx.objectStore(storeName)));
+};
+
+// One transaction for a batch of deletes
+const deleteKeys = async (storeName: string, keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(storeName, "readwrite");
+  const store = tx.objectStore(storeName);
+  keys.forEach((key) => store.delete(key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Persistence is best-effort: a failing write must never break the UI.
+const logFailure = (action: string) => (error: unknown) => {
+  console.error(`Storage Error (${action}):`, error);
+};
+
+export const loadPersistedState = async (): Promise<PersistedState> => {
+  const [storedResults, logs, currentResultId, language, usage, modelPrices] = await Promise.all([
+    withStore<StoredResult[]>(HISTORY_STORE, "readonly", (s) => s.getAll()),
+    withStore<LogEntry[]>(LOGS_STORE, "readonly", (s) => s.getAll()),
+    withStore<string | undefined>(META_STORE, "readonly", (s) => s.get("currentResultId")),
+    withStore<Language | undefined>(META_STORE, "readonly", (s) => s.get("language")),
+    withStore<UsageRecord[]>(USAGE_STORE, "readonly", (s) => s.getAll()),
+    withStore<ModelPrice[] | undefined>(META_STORE, "readonly", (s) => s.get("modelPrices")),
+  ]);
+
+  const history = storedResults
+    .map((record) => {
+      const result = migrateResult(record.result, record.schemaVersion ?? 0);
+      // Write back upgraded records so migrations only run once per record
+      if ((record.schemaVersion ?? 0) < RESULT_SCHEMA_VERSION) {
+        saveResult(result);
+      }
+      return result;
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    history,
+    logs: logs.sort((a, b) => a.timestamp - b.timestamp),
+    currentResultId: currentResultId ?? null,
+    language: language ?? null,
+    usage: usage.sort((a, b) => a.timestamp - b.timestamp),
+    modelPrices: modelPrices ?? null,
+  };
+};
+
+export const saveResult = (result: SearchResult): Promise<void> => {
+  const record: StoredResult = {
+    id: result.id,
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    savedAt: Date.now(),
+    result,
+  };
+  return withStore(HISTORY_STORE, "readwrite", (s) => s.put(record))
+    .then(() => undefined)
+    .catch(logFailure("saveResult"));
+};
+
+export const deleteResults = (ids: string[]): Promise<void> =>
+  deleteKeys(HISTORY_STORE, ids).catch(logFailure("deleteResults"));
+
+export const saveLog = (entry: LogEntry): Promise<void> =>
+  withStore(LOGS_STORE, "readwrite", (s) => s.put(entry))
+    .then(() => undefined)
+    .catch(logFailure("saveLog"));
+
+// Entries evicted from the in-memory log buffer
+export const deleteLogs = (ids: string[]): Promise<void> =>
+  deleteKeys(LOGS_STORE, ids).catch(logFailure("deleteLogs"));
+
+export const saveCurrentResultId = (id: string | null): Promise<void> =>
+  withStore(META_STORE, "readwrite", (s) => s.put(id, "currentResultId"))
+    .then(() => undefined)
+    .catch(logFailure("saveCurrentResultId"));
+
+export const saveLanguage = (language: Language): Promise<void> =>
+  withStore(META_STORE, "readwrite", (s) => s.put(language, "language"))
+    .then(() => undefined)
+    .catch(logFailure("saveLanguage"));
+
+export const saveUsage = (record: UsageRecord): Promise<void> =>
+  withStore(USAGE_STORE, "readwrite", (s) => s.put(record))
+    .then(() => undefined)
+    .catch(logFailure("saveUsage"));
+
+export const saveModelPrices = (prices: ModelPrice[]): Promise<void> =>
+  withStore(META_STORE, "readwrite", (s) => s.put(prices, "modelPrices"))
+    .then(() => undefined)
+    .catch(logFailure("saveModelPrices"));
@@ -0,0 +1,62 @@
+import { GeminiSuggestionSchema, SearchResult, SuggestionItem } from "../types";
+
+// Pin, dismiss and regenerate for the cards of an analysis. Dismissed cards move out of
+// `suggestions` into `dismissed`, so reports, progress and comparisons never see them, and
+// can be restored from there.
+
+export const togglePin = (result: SearchResult, itemId: string): SearchResult => ({
+  ...result,
+  suggestions: result.suggestions.map(item => item.id === itemId ? { ...item, pinned: !item.pinned || undefined } : item),
+});
+
+export const dismissSuggestion = (result: SearchResult, itemId: string): SearchResult => {
+  const item = result.suggestions.find(s => s.id === itemId);
+  if (!item) return result;
+  const { pinned, ...rest } = item;
+  return {
+    ...result,
+    suggestions: result.suggestions.filter(s => s.id !== itemId),
+    dismissed: [...(result.dismissed ?? []), rest],
+  };
+};
+
+// Restored cards go back to the end of the list, with their deep dive and checklist
+export const restoreSuggestion = (result: SearchResult, itemId: string): SearchResult => {
+  const item = result.dismissed?.find(s => s.id === itemId);
+  if (!item) return result;
+  return {
+    ...result,
+    suggestions: [...result.suggestions, item],
+    dismissed: result.dismissed!.filter(s => s.id !== itemId),
+  };
+};
+
+// The new card takes the old one's place under a new id (deep dive, checklist and usage belonged
+// to the old text); the old card counts as dismissed
+export const replaceSuggestion = (result: SearchResult, itemId: string, replacement: GeminiSuggestionSchema): SearchResult => {
+  const dismissed = dismissSuggestion(result, itemId);
+  if (dismissed === result) return result;
+  const index = result.suggestions.findIndex(s => s.id === itemId);
+  const suggestions = [...dismissed.suggestions];
+  suggestions.splice(index, 0, { id: crypto.randomUUID(), title: replacement.title, description: replacement.description });
+  return { ...dismissed, suggestions };
+};
+
+// Pinned cards first, otherwise in the order they arrived. `index` is the card's place in the analysis.
+export const orderForDisplay = (items: SuggestionItem[]): { item: SuggestionItem; index: number }[] =>
+  items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => Number(!!b.item.pinned) - Number(!!a.item.pinned) || a.index - b.index);
+
+const titles = (items: SuggestionItem[]) => items.map(s => s.title).join(", ");
+
+// `previousContext` for the next page and for regenerating a card: what was already listed,
+// what the user kept and what they rejected
+export const buildPreviousContext = (result: SearchResult): string => {
+  const pinned = result.suggestions.filter(s => s.pinned);
+  const dismissed = result.dismissed ?? [];
+  const parts = [titles(result.suggestions)];
+  if (pinned.length > 0) parts.push(`Pinned by the user as most useful (build on these directions): ${titles(pinned)}`);
+  if (dismissed.length > 0) parts.push(`Dismissed by the user as irrelevant (do not repeat these or anything similar): ${titles(dismissed)}`);
+  return parts.filter(Boolean).join(". ");
+};
@@ -0,0 +1,128 @@
+import { ModelPrice, SearchResult, UsageRecord } from "../types";
+
+// Token accounting. geminiService turns every provider call that reports usage into a UsageRecord and
+// publishes it here; App keeps them in a ledger that outlives deleted analyses, and callers attach them
+// to the SearchResult they served.
+
+// List prices in USD per million tokens (standard tier, text input). Editable on the Logs page.
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: "gemini-2.5-pro", inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: "gemini-2.5-flash-lite", inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: "gemini-2.5-flash", inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { model: "gemini-2.0-flash", inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: "gpt-4o-mini", inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: "gpt-4o", inputPerMillion: 2.5, outputPerMillion: 10 },
+];
+
+type UsageListener = (record: UsageRecord) => void;
+
+const listeners = new Set<UsageListener>();
+
+export const publishUsage = (record: UsageRecord) => {
+  listeners.forEach(listener => listener(record));
+};
+
+export const subscribeUsage = (listener: UsageListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Longest matching prefix wins, so "gemini-2.5-flash-lite" is not priced as "gemini-2.5-flash"
+export const findPrice = (model: string, prices: ModelPrice[]): ModelPrice | undefined => {
+  const name = model.toLowerCase().replace(/^models\//, "");
+  return prices
+    .filter(p => p.model && name.startsWith(p.model.toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+// null when the model has no price entry
+export const costOf = (record: UsageRecord, prices: ModelPrice[]): number | null => {
+  const price = findPrice(record.model, prices);
+  if (!price) return null;
+  return (record.promptTokens * price.inputPerMillion + record.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number; // Sum; divide by calls for the average
+  cost: number; // Priced calls only
+  unpriced: number; // Calls whose model has no price entry
+}
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: 0, cost: 0, unpriced: 0,
+});
+
+const addRecord = (totals: UsageTotals, record: UsageRecord, prices: ModelPrice[]) => {
+  const cost = costOf(record, prices);
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.latencyMs += record.latencyMs;
+  if (cost === null) totals.unpriced++;
+  else totals.cost += cost;
+};
+
+export const sumUsage = (records: UsageRecord[], prices: ModelPrice[]): UsageTotals => {
+  const totals = emptyTotals();
+  records.forEach(record => addRecord(totals, record, prices));
+  return totals;
+};
+
+export const usageByModel = (records: UsageRecord[], prices: ModelPrice[]): (UsageTotals & { model: string })[] => {
+  const byModel = new Map<string, UsageTotals & { model: string }>();
+  for (const record of records) {
+    const entry = byModel.get(record.model) ?? { model: record.model, ...emptyTotals() };
+    addRecord(entry, record, prices);
+    byModel.set(record.model, entry);
+  }
+  return [...byModel.values()].sort((a, b) => b.totalTokens - a.totalTokens);
+};
+
+const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+// One entry per local calendar day, oldest first, including days without calls
+export const dailyUsage = (
+  records: UsageRecord[],
+  prices: ModelPrice[],
+  days: number = 14,
+  now: number = Date.now()
+): (UsageTotals & { day: string; date: number })[] => {
+  const result: (UsageTotals & { day: string; date: number })[] = [];
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date(start);
+    date.setDate(start.getDate() - offset);
+    result.push({ day: dayKey(date.getTime()), date: date.getTime(), ...emptyTotals() });
+  }
+
+  const byDay = new Map(result.map(entry => [entry.day, entry]));
+  for (const record of records) {
+    const entry = byDay.get(dayKey(record.timestamp));
+    if (entry) addRecord(entry, record, prices);
+  }
+  return result;
+};
+
+export const formatTokens = (count: number, locale: string) =>
+  new Intl.NumberFormat(locale, { notation: "compact", maximumFractionDigits: 1 }).format(count);
+
+// Small amounts keep enough digits to be meaningful
+export const formatCost = (usd: number, locale: string) =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: usd > 0 && usd < 0.01 ? 4 : 2,
+  }).format(usd);
+
+// Attaches the records a caller collected to the analysis they served
+export const appendUsage = (result: SearchResult, records: UsageRecord[]): SearchResult =>
+  records.length ? { ...result, usage: [...(result.usage ?? []), ...records] } : result;
@@ -1,6 +1,9 @@
 export enum Language {
   VI = 'vi',
-  EN = 'en'
+  EN = 'en',
+  JA = 'ja',
+  KO = 'ko',
+  FR = 'fr'
 }
 
 export interface ItemDetails {
@@ -9,11 +12,53 @@ export interface ItemDetails {
   risks: string; // Potential risks
 }
 
+export type TaskStatus = 'todo' | 'in_progress' | 'done' | 'skipped';
+
+// Progress on one entry of ItemDetails.steps, matched by index
+export interface StepTask {
+  step: number;
+  status: TaskStatus;
+  notes?: string;
+  completedAt?: number; // Set while status is 'done'
+  dueDate?: string; // Local calendar date, YYYY-MM-DD
+  reminderDays?: number; // Remind this many days before dueDate (0 = on the day)
+  dueProposed?: boolean; // dueDate came from the model and was not confirmed yet
+  dueReason?: string; // Model's reason for a proposed date
+  updatedAt: number;
+}
+
 export interface SuggestionItem {
   id: string;
   title: string;
   description: string;
   details?: ItemDetails; // Optional: populated on demand
+  tasks?: StepTask[]; // Only steps the user has touched; the rest are 'todo'
+  pinned?: boolean; // Kept on top and given to the model as a direction to build on
+  merged?: MergedSuggestion[]; // Near-duplicates from later pages folded into this card
+}
+
+export interface MergedSuggestion {
+  title: string;
+  description: string;
+  similarity: number; // 0..1, see services/similarity
+  mergedAt: number;
+}
+
+export type PersonaId = 'lawyer' | 'mentor' | 'roast' | 'analyst';
+
+// 1 = mild, 2 = standard, 3 = maximum
+export type PersonaIntensity = 1 | 2 | 3;
+
+export interface PersonaSettings {
+  id: PersonaId;
+  intensity: PersonaIntensity;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
 }
 
 export interface SearchResult {
@@ -25,17 +70,48 @@ export interface SearchResult {
   sources: string[]; // Sources cited by the AI
   promptSuggestion?: string; // NEW: The optimized prompt
   bestModel?: string; // NEW: Recommended AI model
+  incomplete?: boolean; // Stream died before the model finished; holds what arrived
+  attachments?: AttachmentRecord[]; // Files/links sent with the analysis (metadata only)
+  thread?: ChatMessage[]; // Follow-up Q&A on this analysis
+  persona?: PersonaSettings; // Voice used for every call on this analysis (missing = legacy roast)
+  usage?: UsageRecord[]; // Provider calls made for this analysis, including deep dives and follow-ups
+  tags?: string[]; // User-defined labels from the History page
+  starred?: boolean;
+  dismissed?: SuggestionItem[]; // Removed or regenerated-away cards; the model is told to avoid them
+  mergedSources?: string[]; // Sources from later pages dropped as repeats of ones already listed
 }
 
 export interface LogEntry {
   id: string;
   timestamp: number;
-  type: 'info' | 'error' | 'warning' | 'system';
+  type: 'info' | 'error' | 'warning' | 'system' | 'cancel'; // 'cancel': a request was aborted or superseded
   message: string;
   details?: string;
 }
 
-export type PageView = 'home' | 'docs' | 'history' | 'logs' | 'report';
+// Token accounting for one provider call
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  kind: 'issue' | 'detail' | 'followup' | 'deadlines' | 'regenerate';
+  provider: string;
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  resultId?: string; // Analysis the call served
+  suggestionId?: string; // Card the call served (deep dives)
+}
+
+// USD per million tokens. `model` matches reported model names by prefix.
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PageView = 'home' | 'docs' | 'history' | 'logs' | 'report' | 'compare' | 'shared';
 
 export interface AppState {
   language: Language;
@@ -58,9 +134,45 @@ export interface GeminiDetailSchema {
   risks: string;
 }
 
+// One replacement card (regenerate)
+export interface GeminiSuggestionSchema {
+  title: string;
+  description: string;
+}
+
+// Proposed due dates for the steps of one deep dive. Only time-bound steps are listed.
+export interface GeminiDeadlineSchema {
+  deadlines: { step: number; daysFromNow: number; reason: string }[]; // `step` is 1-based
+}
+
+// Readable text pulled from a 'link' attachment by the local fetch service
+export interface LinkExtract {
+  title: string;
+  text: string;
+  fetchedAt: number;
+}
+
+export interface GeminiFollowUpSchema {
+  answer: string;
+}
+
 export interface Attachment {
+  id: string;
   type: 'file' | 'link';
   content: string; // Base64 for file, URL for link
   mimeType?: string; // For files
   name?: string; // Filename or truncated URL
+  size?: number; // Bytes, for files
+  extract?: LinkExtract; // For links, once fetched
+}
+
+// What gets stored on a SearchResult: everything but the (large) file content
+export interface AttachmentRecord {
+  id: string;
+  type: 'file' | 'link';
+  name?: string;
+  mimeType?: string;
+  size?: number;
+  url?: string; // For links
+  extract?: LinkExtract; // Cached page text the model saw
 }
\ No newline at end of file